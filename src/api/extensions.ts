@@ -1,8 +1,94 @@
-import { STask } from "data-model/serialized/markdown";
+import type { FullIndex } from "data-index";
+import type { DataObject, Widget } from "data-model/value";
+import type { STask } from "data-model/serialized/markdown";
+import type { FunctionImpl } from "expression/functions";
+import type { App, Component } from "obsidian";
+import type { QuerySettings } from "settings";
 
 /** A general function for deciding how to check a task given it's current state. */
 export type TaskStatusSelector = (task: STask) => Promise<string>;
 
+/** Everything a custom query type or widget renderer may need to render into a container. */
+export interface ExtensionRenderContext {
+    app: App;
+    settings: QuerySettings;
+    /**
+     * The component the rendered view lives in; register any event handlers or children on it. It is unloaded when the
+     * view is re-rendered or removed.
+     */
+    component: Component;
+    /** The path of the file the view is rendered in. */
+    sourcePath: string;
+}
+
+/** The result of executing a query of a type registered by an extension. */
+export type CustomResult = {
+    type: "custom";
+    /** The name of the query type, in lower case. */
+    name: string;
+    /** Whatever the parser of the query type returned for the header of the query. */
+    options: unknown;
+    /** The pages which the query returned, after all data commands were applied. */
+    values: DataObject[];
+};
+
+/**
+ * Parses the header of a custom query type: the rest of the line after the keyword, up to the first clause keyword (like
+ * `FROM` or `WHERE`). Throws if it is invalid.
+ */
+export type QueryTypeParser = (header: string) => unknown;
+/** Renders the results of a custom query type into a container. */
+export type QueryTypeRenderer = (
+    result: CustomResult,
+    container: HTMLElement,
+    context: ExtensionRenderContext
+) => void | Promise<void>;
+
+/** A query type registered by an extension, like `GANTT`. */
+export interface QueryTypeRegistration {
+    /** The plugin which registered the query type. */
+    plugin: string;
+    /** The keyword of the query type, in lower case. */
+    name: string;
+    parse: QueryTypeParser;
+    render: QueryTypeRenderer;
+}
+
+/** Any class of widgets. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type WidgetClass<T extends Widget = Widget> = abstract new (...args: any[]) => T;
+/** Renders a widget into a container. */
+export type WidgetRenderer<T extends Widget = Widget> = (
+    widget: T,
+    container: HTMLElement,
+    context: ExtensionRenderContext
+) => void | Promise<void>;
+
+/** A renderer for a class of widgets, registered by an extension. */
+export interface WidgetRendererRegistration {
+    /** The plugin which registered the renderer. */
+    plugin: string;
+    widget: WidgetClass;
+    render: WidgetRenderer;
+}
+
+/** Query types registered by extensions, by their lower-case keyword. Like the query language itself, these are global. */
+export const QUERY_TYPES: Map<string, QueryTypeRegistration> = new Map();
+/** Widget renderers registered by extensions; later registrations take precedence. */
+export const WIDGET_RENDERERS: WidgetRendererRegistration[] = [];
+
+/** The query types which are built into Dataview, and cannot be registered by extensions. */
+const BUILTIN_QUERY_TYPES = ["table", "list", "task", "calendar", "kanban"];
+
+/** Find the renderer registered for the given widget, if there is one. */
+export function widgetRenderer(widget: Widget): WidgetRendererRegistration | undefined {
+    for (let index = WIDGET_RENDERERS.length - 1; index >= 0; index--) {
+        if (widget instanceof WIDGET_RENDERERS[index].widget) return WIDGET_RENDERERS[index];
+    }
+
+    return undefined;
+}
+
 /**
  * A dataview extension; allows for registering new functions, altering views, and altering some more
  * advanced dataview behavior.
@@ -10,9 +96,12 @@ export type TaskStatusSelector = (task: STask) => Promise<string>;
 export class Extension {
     /** All registered task status selectors for this extension. */
     public taskStatusSelectors: Record<string, TaskStatusSelector>;
+    /** All functions registered by this extension. */
+    public functions: Record<string, FunctionImpl>;
 
-    public constructor(public plugin: string) {
+    public constructor(public plugin: string, public index: FullIndex) {
         this.taskStatusSelectors = {};
+        this.functions = {};
     }
 
     /** Register a task status selector under the given name. */
@@ -20,4 +109,64 @@ export class Extension {
         this.taskStatusSelectors[name] = selector;
         return this;
     }
+
+    /**
+     * Register a function which can be called in any query or expression. The function is called with the evaluation
+     * context followed by its arguments, like builtin functions. Throws if a function with the name already exists.
+     */
+    public function(name: string, impl: FunctionImpl): Extension {
+        let functions = Object.assign({}, this.functions, { [name]: impl });
+        let errors = this.index.functions.register(this.plugin, functions);
+        if (errors.length > 0) {
+            this.index.functions.register(this.plugin, this.functions);
+            throw Error(`Dataview: ${errors.join("; ")}.`);
+        }
+
+        this.functions = functions;
+        this.index.touch();
+        return this;
+    }
+
+    /**
+     * Register a new query type, which queries can use in place of `TABLE`, `LIST` and so on. The parser receives the
+     * rest of the header line; the renderer receives the pages matched by the query, after all of its data commands.
+     */
+    public queryType(name: string, parse: QueryTypeParser, render: QueryTypeRenderer): Extension {
+        let key = name.toLowerCase();
+        if (!/^\p{Letter}[\p{Letter}0-9_-]*$/u.test(name))
+            throw Error(`Dataview: '${name}' is not a valid query type.`);
+        if (BUILTIN_QUERY_TYPES.includes(key)) throw Error(`Dataview: '${name}' is a builtin query type.`);
+
+        let existing = QUERY_TYPES.get(key);
+        if (existing && existing.plugin != this.plugin)
+            throw Error(`Dataview: the query type '${name}' is already registered by ${existing.plugin}.`);
+
+        QUERY_TYPES.set(key, { plugin: this.plugin, name: key, parse, render });
+        this.index.touch();
+        return this;
+    }
+
+    /** Register a renderer for all widgets of the given class (including its subclasses). */
+    public renderer<T extends Widget>(widget: WidgetClass<T>, render: WidgetRenderer<T>): Extension {
+        WIDGET_RENDERERS.push({ plugin: this.plugin, widget, render: render as WidgetRenderer });
+        this.index.touch();
+        return this;
+    }
+
+    /** Remove everything registered by this extension. This is done automatically when the extending plugin unloads. */
+    public unregister() {
+        this.index.functions.unregister(this.plugin);
+        this.functions = {};
+
+        for (let [key, registration] of QUERY_TYPES.entries()) {
+            if (registration.plugin == this.plugin) QUERY_TYPES.delete(key);
+        }
+
+        for (let index = WIDGET_RENDERERS.length - 1; index >= 0; index--) {
+            if (WIDGET_RENDERERS[index].plugin == this.plugin) WIDGET_RENDERERS.splice(index, 1);
+        }
+
+        this.taskStatusSelectors = {};
+        this.index.touch();
+    }
 }
@@ -6,15 +6,19 @@ import { renderValue, renderErrorPre } from "ui/render";
 import type { DataviewApi, DataviewIOApi, QueryApiSettings, QueryResult } from "api/plugin-api";
 import { DataviewSettings, ExportSettings } from "settings";
 import { DataObject, Grouping, Link, Literal, Values, Widgets } from "data-model/value";
-import { BoundFunctionImpl, DEFAULT_FUNCTIONS, Functions } from "expression/functions";
+import { BoundFunctionImpl, Functions } from "expression/functions";
 import { Context } from "expression/context";
-import { defaultLinkHandler } from "query/engine";
+import { createRootContext } from "query/engine";
 import { DateTime, Duration } from "luxon";
 import * as Luxon from "luxon";
 import { DataArray } from "./data-array";
 import { SListItem } from "data-model/serialized/markdown";
 import { EXPRESSION } from "expression/parse";
 import { Result } from "api/result";
+import { parseQuery } from "query/parse";
+import { createExplainView } from "ui/views/explain-view";
+import { ExportFormat } from "ui/export/data";
+import type { QueryWarning } from "query/analyzer";
 
 /** Asynchronous API calls related to file / system IO. */
 export class DataviewInlineIOApi {
@@ -95,12 +99,10 @@ export class DataviewInlineApi {
         this.io = new DataviewInlineIOApi(this.api.io, this.currentFilePath);
 
         // Set up the evaluation context with variables from the current file.
-        let fileMeta = this.index.pages.get(this.currentFilePath)?.serialize(this.index) ?? {};
-        this.evaluationContext = new Context(defaultLinkHandler(this.index, this.currentFilePath), this.settings, {
-            this: fileMeta,
-        });
+        this.evaluationContext = createRootContext(this.index, this.currentFilePath, this.settings);
 
-        this.func = Functions.bindAll(DEFAULT_FUNCTIONS, this.evaluationContext);
+        // Functions are looked up as they are used, since user-defined functions are reloaded in place.
+        this.func = Functions.bindLive(this.index.functions.all, this.evaluationContext);
     }
 
     /////////////////////////////
@@ -159,6 +161,42 @@ export class DataviewInlineApi {
         return this.api.tryQueryMarkdown(source, originFile ?? this.currentFilePath, settings);
     }
 
+    /** Execute a Dataview query, returning the results as the contents of a CSV, JSON or markdown file. */
+    public async queryExport(
+        source: string,
+        format: ExportFormat,
+        originFile?: string,
+        settings?: QueryApiSettings
+    ): Promise<Result<string, string>> {
+        return this.api.queryExport(source, format, originFile ?? this.currentFilePath, settings);
+    }
+
+    /**
+     * Execute a Dataview query and save the results to a CSV, JSON or markdown file in the vault, returning the path of
+     * the exported file. The format is taken from the file extension of the path if it is not given.
+     */
+    public async export(
+        source: string,
+        options: { path: string; format?: ExportFormat },
+        originFile?: string,
+        settings?: QueryApiSettings
+    ): Promise<string> {
+        return this.api.export(source, options, originFile ?? this.currentFilePath, settings);
+    }
+
+    /**
+     * Check a Dataview query for likely mistakes without running it, like calls to unknown functions or arithmetic on
+     * fields of the wrong type. Returns a list of warnings, which is empty if nothing was found.
+     */
+    public async analyze(source: string, originFile?: string): Promise<Result<QueryWarning[], string>> {
+        return this.api.analyze(source, originFile ?? this.currentFilePath);
+    }
+
+    /** Error-throwing version of {@link analyze}. */
+    public async tryAnalyze(source: string, originFile?: string): Promise<QueryWarning[]> {
+        return this.api.tryAnalyze(source, originFile ?? this.currentFilePath);
+    }
+
     /**
      * Evaluate a dataview expression (like '2 + 2' or 'link("hello")'), returning the evaluated result.
      * This takes an optional second argument which provides definitions for variables, such as:
@@ -191,6 +229,23 @@ export class DataviewInlineApi {
         this.api.execute(source, this.container, this.component, this.currentFilePath);
     }
 
+    /**
+     * Execute a Dataview query and embed diagnostics about how it executed into the current view, as if the query was
+     * prefixed with `EXPLAIN`.
+     */
+    public async explain(source: string) {
+        let query = parseQuery(source);
+        if (!query.successful) {
+            renderErrorPre(this.container, "Dataview: " + query.error);
+            return;
+        }
+
+        let init = { app: this.app, settings: this.settings, index: this.index, container: this.container };
+        let childComponent = createExplainView(init, query.value, this.currentFilePath);
+        this.component.addChild(childComponent);
+        childComponent.load();
+    }
+
     /** Execute a DataviewJS query and embed it into the current view. */
     public async executeJs(code: string) {
         this.api.executeJs(code, this.container, this.component, this.currentFilePath);
@@ -1,6 +1,6 @@
 /** The general, externally accessible plugin API (available at `app.plugins.plugins.dataview.api` or as global `DataviewAPI`). */
 
-import { App, Component, MarkdownPostProcessorContext, TFile } from "obsidian";
+import { App, Component, MarkdownPostProcessorContext, normalizePath, Plugin, TFile, TFolder } from "obsidian";
 import { FullIndex } from "data-index/index";
 import { matchingSourcePaths } from "data-index/resolver";
 import { Sources } from "data-index/source";
@@ -8,16 +8,22 @@ import { DataObject, Grouping, Groupings, Link, Literal, Values, Widgets } from
 import { EXPRESSION } from "expression/parse";
 import { renderCodeBlock, renderErrorPre, renderValue } from "ui/render";
 import { DataArray } from "./data-array";
-import { BoundFunctionImpl, DEFAULT_FUNCTIONS, Functions } from "expression/functions";
+import { BoundFunctionImpl, Functions } from "expression/functions";
 import { Context } from "expression/context";
 import {
+    analyzeQuerySource,
     defaultLinkHandler,
     executeCalendar,
+    executeCustom,
     executeInline,
+    executeKanban,
     executeList,
     executeTable,
     executeTask,
+    explainQuery,
     IdentifierMeaning,
+    KanbanColumn,
+    QueryExplanation,
 } from "query/engine";
 import { DateTime, Duration } from "luxon";
 import * as Luxon from "luxon";
@@ -28,13 +34,20 @@ import { SListItem, SMarkdownPage } from "data-model/serialized/markdown";
 import { createFixedTaskView, createTaskView, nestGroups } from "ui/views/task-view";
 import { createFixedListView, createListView } from "ui/views/list-view";
 import { createFixedTableView, createTableView } from "ui/views/table-view";
+import { createKanbanView } from "ui/views/kanban-view";
+import { createExplainView } from "ui/views/explain-view";
+import { DataviewCustomRenderer } from "ui/views/custom-view";
+import { CustomResult, Extension } from "api/extensions";
 import { Result } from "api/result";
 import { parseQuery } from "query/parse";
-import { tryOrPropagate } from "util/normalize";
+import { getExtension, getParentFolder, tryOrPropagate } from "util/normalize";
 import { Query } from "query/query";
+import { QueryWarning } from "query/analyzer";
 import { DataviewCalendarRenderer } from "ui/views/calendar-view";
 import { DataviewJSRenderer } from "ui/views/js-view";
 import { markdownList, markdownTable, markdownTaskList } from "ui/export/markdown";
+import { addExportMenu } from "ui/export/export-modal";
+import { csvTable, EXPORT_FORMATS, ExportFormat, exportTable, jsonTable } from "ui/export/data";
 
 /** Asynchronous API calls related to file / system IO. */
 export class DataviewIOApi {
@@ -47,8 +60,11 @@ export class DataviewIOApi {
         }
 
         let data = await this.api.index.csv.get(this.normalize(path, originFile));
-        if (data.successful) return DataArray.from(data.value, this.api.settings);
-        else throw Error(`Could not find CSV for path '${path}' (relative to origin '${originFile ?? "/"}')`);
+        if (data.successful) return DataArray.from(data.value.rows, this.api.settings);
+        else
+            throw Error(
+                `Could not load CSV for path '${path}' (relative to origin '${originFile ?? "/"}'): ${data.error}`
+            );
     }
 
     /** Asynchronously load the contents of any link or path in an Obsidian vault. */
@@ -94,8 +110,15 @@ export class DataviewApi {
         public settings: DataviewSettings,
         private verNum: string
     ) {
-        this.evaluationContext = new Context(defaultLinkHandler(index, ""), settings);
-        this.func = Functions.bindAll(DEFAULT_FUNCTIONS, this.evaluationContext);
+        this.evaluationContext = new Context(
+            defaultLinkHandler(index, ""),
+            settings,
+            {},
+            undefined,
+            index.functions.all
+        );
+        // Functions are looked up as they are used, since user-defined functions are reloaded in place.
+        this.func = Functions.bindLive(this.index.functions.all, this.evaluationContext);
         this.io = new DataviewIOApi(this);
     }
 
@@ -115,6 +138,18 @@ export class DataviewApi {
         };
     })();
 
+    /**
+     * Create an extension, which other plugins use to add functions, query types and widget renderers to Dataview. If
+     * given the plugin itself (instead of its ID), everything it registers is removed again when the plugin unloads.
+     */
+    public extension(plugin: Plugin | string): Extension {
+        if (typeof plugin === "string") return new Extension(plugin, this.index);
+
+        let extension = new Extension(plugin.manifest.id, this.index);
+        plugin.register(() => extension.unregister());
+        return extension;
+    }
+
     /////////////////////////////
     // Index + Data Collection //
     /////////////////////////////
@@ -144,10 +179,10 @@ export class DataviewApi {
         let normPath = this.app.metadataCache.getFirstLinkpathDest(rawPath, originFile ?? "");
         if (!normPath) return undefined;
 
-        let pageObject = this.index.pages.get(normPath.path);
+        let pageObject = this.index.serializedPage(normPath.path);
         if (!pageObject) return undefined;
 
-        return this._addDataArrays(pageObject.serialize(this.index));
+        return this._addDataArrays(pageObject);
     }
 
     /** Return an array of page objects corresponding to pages which match the source query. */
@@ -158,14 +193,20 @@ export class DataviewApi {
         });
     }
 
-    /** Remaps important metadata to add data arrays.  */
+    /**
+     * Remaps important metadata to add data arrays. The page is deep-copied first, since serialized pages are shared
+     * with the index and scripts are free to modify what they get.
+     */
     private _addDataArrays(pageObject: SMarkdownPage): SMarkdownPage {
+        let page = Values.deepCopy(pageObject as unknown as DataObject) as unknown as SMarkdownPage;
+
         // Remap the "file" metadata entries to be data arrays.
-        for (let [key, value] of Object.entries(pageObject.file)) {
-            if (Array.isArray(value)) (pageObject.file as any)[key] = DataArray.wrap<any>(value, this.settings);
+        let file: Record<string, any> = {};
+        for (let [key, value] of Object.entries(page.file)) {
+            file[key] = Array.isArray(value) ? DataArray.wrap<any>(value, this.settings) : value;
         }
 
-        return pageObject;
+        return Object.assign(page, { file });
     }
 
     /////////////
@@ -269,6 +310,8 @@ export class DataviewApi {
     ): Promise<Result<QueryResult, string>> {
         const query = typeof source === "string" ? parseQuery(source) : Result.success<Query, string>(source);
         if (!query.successful) return query.cast();
+        if (query.value.explain)
+            return Result.failure("EXPLAIN queries do not produce results; use 'explain' to get their diagnostics.");
 
         const header = query.value.header;
         switch (header.type) {
@@ -277,6 +320,21 @@ export class DataviewApi {
                 if (!cres.successful) return cres.cast();
 
                 return Result.success({ type: "calendar", values: cres.value.data });
+            case "kanban":
+                const kres = await executeKanban(query.value, this.index, originFile ?? "", this.settings);
+                if (!kres.successful) return kres.cast();
+
+                return Result.success({ type: "kanban", columns: kres.value.columns });
+            case "custom":
+                const custom = await executeCustom(query.value, this.index, originFile ?? "", this.settings);
+                if (!custom.successful) return custom.cast();
+
+                return Result.success({
+                    type: "custom",
+                    name: header.name,
+                    options: header.options,
+                    values: custom.value.values,
+                });
             case "task":
                 const tasks = await executeTask(query.value, originFile ?? "", this.index, this.settings);
                 if (!tasks.successful) return tasks.cast();
@@ -316,6 +374,38 @@ export class DataviewApi {
         return (await this.query(source, originFile, settings)).orElseThrow();
     }
 
+    /**
+     * Execute an arbitrary dataview query, returning diagnostics about how it executed instead of its results: the
+     * number of files matched by the source, along with the row counts, timings and per-row errors of each operation.
+     */
+    public async explain(source: string | Query, originFile?: string): Promise<Result<QueryExplanation, string>> {
+        const query = typeof source === "string" ? parseQuery(source) : Result.success<Query, string>(source);
+        if (!query.successful) return query.cast();
+
+        return explainQuery(query.value, this.index, originFile ?? "", this.settings);
+    }
+
+    /** Error-throwing version of {@link explain}. */
+    public async tryExplain(source: string | Query, originFile?: string): Promise<QueryExplanation> {
+        return (await this.explain(source, originFile)).orElseThrow();
+    }
+
+    /**
+     * Check a query for likely mistakes without running it: calls to unknown functions, calls with the wrong number of
+     * arguments, and operations on fields whose types (sampled from the pages in the query source) do not support them.
+     */
+    public async analyze(source: string | Query, originFile?: string): Promise<Result<QueryWarning[], string>> {
+        const query = typeof source === "string" ? parseQuery(source) : Result.success<Query, string>(source);
+        if (!query.successful) return query.cast();
+
+        return analyzeQuerySource(query.value, this.index, originFile ?? "");
+    }
+
+    /** Error-throwing version of {@link analyze}. */
+    public async tryAnalyze(source: string | Query, originFile?: string): Promise<QueryWarning[]> {
+        return (await this.analyze(source, originFile)).orElseThrow();
+    }
+
     /** Execute an arbitrary dataview query, returning the results in well-formatted markdown. */
     public async queryMarkdown(
         source: string | Query,
@@ -334,6 +424,11 @@ export class DataviewApi {
                 return Result.success(this.markdownTaskList(result.value.values, settings));
             case "calendar":
                 return Result.failure("Cannot render calendar queries to markdown.");
+            case "kanban":
+                const columns = result.value.columns.map(column => Widgets.listPair(column.key, column.cards));
+                return Result.success(this.markdownList(columns, settings));
+            case "custom":
+                return Result.failure(`Cannot render ${result.value.name.toUpperCase()} queries to markdown.`);
         }
     }
 
@@ -346,6 +441,55 @@ export class DataviewApi {
         return (await this.queryMarkdown(source, originFile, settings)).orElseThrow();
     }
 
+    /**
+     * Execute an arbitrary dataview query, returning the results as the contents of a CSV, JSON or markdown file.
+     * CSV and JSON exports contain one row per result, with dates, durations and links written the way Dataview
+     * reads them back.
+     */
+    public async queryExport(
+        source: string | Query,
+        format: ExportFormat,
+        originFile?: string,
+        settings?: Partial<QueryApiSettings & ExportSettings>
+    ): Promise<Result<string, string>> {
+        if (format == "md") return this.queryMarkdown(source, originFile, settings);
+
+        const result = await this.query(source, originFile, settings);
+        if (!result.successful) return result.cast();
+
+        const table = exportTable(result.value);
+        return Result.success(format == "csv" ? csvTable(table) : jsonTable(table));
+    }
+
+    /**
+     * Execute an arbitrary dataview query and save the results to a file in the vault, replacing it if it already
+     * exists. The format is taken from the file extension of the path if it is not given. Returns the path of the
+     * exported file, and throws if the query fails or the file cannot be written.
+     */
+    public async export(
+        source: string | Query,
+        options: { path: string; format?: ExportFormat },
+        originFile?: string,
+        settings?: Partial<QueryApiSettings & ExportSettings>
+    ): Promise<string> {
+        const path = normalizePath(options.path);
+        const format = options.format ?? EXPORT_FORMATS[getExtension(path).toLowerCase()];
+        if (!format || !Object.values(EXPORT_FORMATS).includes(format))
+            throw Error(`dv.export: unknown export format for '${path}' (expected one of csv, json or md).`);
+
+        const contents = (await this.queryExport(source, format, originFile, settings)).orElseThrow();
+
+        const folder = getParentFolder(path);
+        if (folder && !(this.app.vault.getAbstractFileByPath(folder) instanceof TFolder))
+            await this.app.vault.createFolder(folder);
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) await this.app.vault.modify(existing, contents);
+        else await this.app.vault.create(path, contents);
+
+        return path;
+    }
+
     /**
      * Evaluate a dataview expression (like '2 + 2' or 'link("hello")'), returning the evaluated result.
      * This takes an optional second argument which provides definitions for variables, such as:
@@ -364,7 +508,13 @@ export class DataviewApi {
         if (!field.status) return Result.failure(`Failed to parse expression "${expression}"`);
 
         let evaluationContext = originFile
-            ? new Context(defaultLinkHandler(this.index, originFile), this.settings)
+            ? new Context(
+                  defaultLinkHandler(this.index, originFile),
+                  this.settings,
+                  {},
+                  undefined,
+                  this.index.functions.all
+              )
             : this.evaluationContext;
 
         return evaluationContext.evaluate(field.value, context);
@@ -417,6 +567,13 @@ export class DataviewApi {
         let query = maybeQuery.value;
         let init = { app: this.app, settings: this.settings, index: this.index, container };
         let childComponent;
+        if (query.explain) {
+            childComponent = createExplainView(init, query, filePath);
+            component.addChild(childComponent);
+            childComponent.load();
+            return;
+        }
+
         switch (query.header.type) {
             case "task":
                 childComponent = createTaskView(init, query as Query, filePath);
@@ -430,6 +587,11 @@ export class DataviewApi {
             case "table":
                 childComponent = createTableView(init, query as Query, filePath);
 
+                component.addChild(childComponent);
+                break;
+            case "kanban":
+                childComponent = createKanbanView(init, query as Query, filePath);
+
                 component.addChild(childComponent);
                 break;
             case "calendar":
@@ -442,10 +604,24 @@ export class DataviewApi {
                     this.app
                 );
 
+                component.addChild(childComponent);
+                break;
+            case "custom":
+                childComponent = new DataviewCustomRenderer(
+                    query as Query,
+                    container,
+                    this.index,
+                    filePath,
+                    this.settings,
+                    this.app
+                );
+
                 component.addChild(childComponent);
                 break;
         }
         childComponent.load();
+
+        addExportMenu(container, this.app, this, source, filePath);
     }
 
     /**
@@ -597,8 +773,11 @@ export type CalendarResult = {
     }[];
 };
 
+/** The result of executing a kanban query. */
+export type KanbanResult = { type: "kanban"; columns: KanbanColumn[] };
+
 /** The result of executing a query of some sort. */
-export type QueryResult = TableResult | ListResult | TaskResult | CalendarResult;
+export type QueryResult = TableResult | ListResult | TaskResult | CalendarResult | KanbanResult | CustomResult;
 
 /** Settings when querying the dataview API. */
 export type QueryApiSettings = {
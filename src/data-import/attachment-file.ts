@@ -0,0 +1,116 @@
+/** Importer for attachments (images, PDFs, audio and video), which only have file metadata and a few media details. */
+import { PageMetadata } from "data-model/markdown";
+import { DateTime } from "luxon";
+import { FileStats } from "obsidian";
+import { getExtension } from "util/normalize";
+
+/** Image formats which Obsidian can embed; dimensions are extracted for all but SVG. */
+const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif"]);
+/** Audio and video formats which Obsidian can embed. */
+const MEDIA_EXTENSIONS = new Set(["mp3", "wav", "m4a", "ogg", "3gp", "flac", "mp4", "webm", "ogv", "mov", "mkv"]);
+
+/** The largest attachment which is read to extract its dimensions or page count; larger files only get file metadata. */
+export const MAX_INSPECTED_SIZE = 20 * 1024 * 1024;
+
+/** Determine if the given path is an attachment which can be indexed. */
+export function isAttachment(path: string): boolean {
+    let ext = getExtension(path).toLowerCase();
+    return IMAGE_EXTENSIONS.has(ext) || MEDIA_EXTENSIONS.has(ext) || ext == "pdf";
+}
+
+/** Determine if the contents of the given attachment are needed to import it (as opposed to just its file stats). */
+export function inspectsContents(path: string, size: number): boolean {
+    let ext = getExtension(path).toLowerCase();
+    return size <= MAX_INSPECTED_SIZE && ((IMAGE_EXTENSIONS.has(ext) && ext != "svg") || ext == "pdf");
+}
+
+/** Extract page-like metadata from an attachment; `contents` is only given if `inspectsContents` is true. */
+export function parseAttachment(path: string, contents: ArrayBuffer | undefined, stat: FileStats): PageMetadata {
+    let data = contents ? new Uint8Array(contents) : undefined;
+    let ext = getExtension(path).toLowerCase();
+
+    let dimensions = data && IMAGE_EXTENSIONS.has(ext) ? imageDimensions(data) : undefined;
+    let pageCount = data && ext == "pdf" ? pdfPageCount(data) : undefined;
+
+    return new PageMetadata(path, {
+        ctime: DateTime.fromMillis(stat.ctime),
+        mtime: DateTime.fromMillis(stat.mtime),
+        size: stat.size,
+        width: dimensions?.width,
+        height: dimensions?.height,
+        pageCount,
+    });
+}
+
+/** Read the width and height of a PNG, GIF, BMP, JPEG or WebP image from its header. */
+export function imageDimensions(data: Uint8Array): { width: number; height: number } | undefined {
+    const u16be = (i: number) => (data[i] << 8) | data[i + 1];
+    const u16le = (i: number) => data[i] | (data[i + 1] << 8);
+    const u24le = (i: number) => data[i] | (data[i + 1] << 8) | (data[i + 2] << 16);
+    const u32be = (i: number) => ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0;
+    const i32le = (i: number) => data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+    const ascii = (i: number, length: number) => String.fromCharCode(...Array.from(data.subarray(i, i + length)));
+
+    if (data.length >= 24 && ascii(1, 3) == "PNG") {
+        return { width: u32be(16), height: u32be(20) };
+    } else if (data.length >= 10 && ascii(0, 4) == "GIF8") {
+        return { width: u16le(6), height: u16le(8) };
+    } else if (data.length >= 26 && ascii(0, 2) == "BM") {
+        // Bitmaps stored top-down have a negative height.
+        return { width: i32le(18), height: Math.abs(i32le(22)) };
+    } else if (data.length >= 30 && ascii(0, 4) == "RIFF" && ascii(8, 4) == "WEBP") {
+        let chunk = ascii(12, 4);
+        if (chunk == "VP8 ") return { width: u16le(26) & 0x3fff, height: u16le(28) & 0x3fff };
+        if (chunk == "VP8L")
+            return {
+                width: 1 + (((data[22] & 0x3f) << 8) | data[21]),
+                height: 1 + (((data[24] & 0xf) << 10) | (data[23] << 2) | ((data[22] & 0xc0) >> 6)),
+            };
+        if (chunk == "VP8X") return { width: 1 + u24le(24), height: 1 + u24le(27) };
+    } else if (data.length >= 4 && data[0] == 0xff && data[1] == 0xd8) {
+        // Walk the JPEG segments until the start-of-frame segment, which contains the dimensions.
+        let offset = 2;
+        while (offset + 9 < data.length) {
+            if (data[offset] != 0xff) return undefined;
+
+            let marker = data[offset + 1];
+            if (marker == 0xff) {
+                offset += 1;
+                continue;
+            }
+
+            let isFrame = marker >= 0xc0 && marker <= 0xcf && marker != 0xc4 && marker != 0xc8 && marker != 0xcc;
+            if (isFrame) return { width: u16be(offset + 7), height: u16be(offset + 5) };
+
+            // Restart markers and the like have no length.
+            if ((marker >= 0xd0 && marker <= 0xd9) || marker == 0x01) offset += 2;
+            else offset += 2 + u16be(offset + 2);
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Find the number of pages in a PDF from its page tree, falling back to counting page objects. This only works for
+ * PDFs whose page tree is not compressed; for others, the page count is unknown.
+ */
+export function pdfPageCount(data: Uint8Array): number | undefined {
+    let text = "";
+    for (let offset = 0; offset < data.length; offset += 8192)
+        text += String.fromCharCode(...Array.from(data.subarray(offset, offset + 8192)));
+
+    // The root of the page tree has the largest count of all page tree nodes.
+    let count: number | undefined = undefined;
+    for (let match of text.matchAll(/\/Type\s*\/Pages\b/g)) {
+        let around = text.substring(Math.max(0, (match.index ?? 0) - 512), (match.index ?? 0) + 512);
+        for (let countMatch of around.matchAll(/\/Count\s+(\d+)/g)) {
+            let value = parseInt(countMatch[1]);
+            if (count === undefined || value > count) count = value;
+        }
+    }
+    if (count !== undefined) return count;
+
+    let pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+    return pages > 0 ? pages : undefined;
+}
@@ -0,0 +1,72 @@
+/** Importer for Obsidian canvas files, which are JSON documents of cards and the edges between them. */
+import { CanvasCard, CanvasEdge } from "data-model/canvas";
+import { PageMetadata } from "data-model/markdown";
+import { Link } from "data-model/value";
+import { DateTime } from "luxon";
+import { FileStats } from "obsidian";
+import { extractTokens } from "util/normalize";
+
+/** Valid canvas card types; cards of any other type are ignored. */
+const CARD_TYPES = new Set(["text", "file", "link", "group"]);
+
+/** Extract page-like metadata from the given canvas file; the files embedded in the canvas become its links. */
+export function parseCanvas(path: string, contents: string, stat: FileStats): PageMetadata {
+    // Obsidian creates new canvases as empty files.
+    let data = contents.trim() ? JSON.parse(contents) : {};
+
+    let cards: CanvasCard[] = [];
+    let links: Link[] = [];
+    let text: string[] = [];
+    for (let node of Array.isArray(data.nodes) ? data.nodes : []) {
+        if (!CARD_TYPES.has(node?.type)) continue;
+
+        let card: CanvasCard = {
+            id: "" + node.id,
+            type: node.type,
+            x: node.x ?? 0,
+            y: node.y ?? 0,
+            width: node.width ?? 0,
+            height: node.height ?? 0,
+        };
+        if (node.color !== undefined) card.color = "" + node.color;
+
+        if (node.type == "text" && typeof node.text === "string") {
+            card.text = node.text;
+            text.push(node.text);
+        } else if (node.type == "file" && typeof node.file === "string") {
+            card.file = Link.file(node.file, true);
+            links.push(card.file);
+        } else if (node.type == "link" && typeof node.url === "string") {
+            card.url = node.url;
+        } else if (node.type == "group" && typeof node.label === "string") {
+            card.label = node.label;
+            text.push(node.label);
+        }
+
+        cards.push(card);
+    }
+
+    let edges: CanvasEdge[] = [];
+    for (let raw of Array.isArray(data.edges) ? data.edges : []) {
+        if (raw?.fromNode === undefined || raw?.toNode === undefined) continue;
+
+        let edge: CanvasEdge = { id: "" + raw.id, from: "" + raw.fromNode, to: "" + raw.toNode };
+        if (typeof raw.label === "string") {
+            edge.label = raw.label;
+            text.push(raw.label);
+        }
+        if (raw.color !== undefined) edge.color = "" + raw.color;
+
+        edges.push(edge);
+    }
+
+    return new PageMetadata(path, {
+        links,
+        cards,
+        edges,
+        ctime: DateTime.fromMillis(stat.ctime),
+        mtime: DateTime.fromMillis(stat.mtime),
+        size: stat.size,
+        tokens: extractTokens(text.join("\n")),
+    });
+}
@@ -1,29 +1,157 @@
 import { canonicalizeVarName } from "util/normalize";
-import { DataObject } from "data-model/value";
+import { DataObject, Link, Literal } from "data-model/value";
 import * as Papa from "papaparse";
+import { EXPRESSION } from "expression/parse";
 import { parseFrontmatter } from "data-import/markdown-file";
 
-/** Parse a CSV file into a collection of data rows. */
-export function parseCsv(content: string): DataObject[] {
-    let parsed = Papa.parse(content, {
+/** The types a CSV column can be declared as; every value in a declared column is parsed as the column type. */
+export type CsvColumnType = "text" | "number" | "boolean" | "date" | "duration" | "link";
+
+/** All valid column types. */
+const COLUMN_TYPES = new Set<string>(["text", "number", "boolean", "date", "duration", "link"]);
+
+/** The file extension of a schema sidecar, which is placed next to the CSV it describes (`data.csv.schema.json`). */
+export const CSV_SCHEMA_SUFFIX = ".schema.json";
+
+/** Describes how to parse a CSV file; loaded from an optional schema sidecar next to the CSV. */
+export interface CsvSchema {
+    /** The delimiter between values. If absent, it is detected automatically. */
+    delimiter?: string;
+    /** Maps column names to their types. Values in columns without a type are each typed on their own. */
+    columns?: Record<string, CsvColumnType>;
+}
+
+/** A value which could not be parsed as the type of its column, or a row which could not be read at all. */
+export interface CsvRowError {
+    /** The (1-indexed) data row the error occurred in, not counting the header. */
+    row: number;
+    /** The column the error occurred in, if the error is for a specific value. */
+    column?: string;
+    message: string;
+}
+
+/** The result of parsing a CSV file - all rows, and any errors encountered in specific rows. */
+export interface CsvParseResult {
+    rows: DataObject[];
+    errors: CsvRowError[];
+}
+
+/** Validate raw JSON (from a schema sidecar) as a CSV schema, returning an error message if it is invalid. */
+export function validateCsvSchema(raw: any): CsvSchema | string {
+    if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return "the schema must be a JSON object";
+    if (raw.delimiter !== undefined && (typeof raw.delimiter !== "string" || raw.delimiter.length == 0))
+        return "'delimiter' must be a non-empty string";
+
+    if (raw.columns !== undefined) {
+        if (typeof raw.columns !== "object" || raw.columns === null || Array.isArray(raw.columns))
+            return "'columns' must be an object mapping column names to types";
+
+        for (let [column, type] of Object.entries(raw.columns)) {
+            if (typeof type === "string" && COLUMN_TYPES.has(type)) continue;
+
+            let expected = Array.from(COLUMN_TYPES).join(", ");
+            return `column '${column}' has unknown type '${type}' (expected one of ${expected})`;
+        }
+    }
+
+    return raw as CsvSchema;
+}
+
+/**
+ * Parse a CSV file into a collection of data rows. Column types come from the schema or from annotations in the header
+ * (like `due:date`); values in other columns are each typed on their own, like frontmatter values.
+ */
+export function parseCsv(content: string, schema: CsvSchema = {}): CsvParseResult {
+    const declaredType = (header: string): CsvColumnType | undefined => {
+        let { name, type } = parseHeader(header);
+        return schema.columns?.[name] ?? schema.columns?.[header] ?? type;
+    };
+
+    let parsed = Papa.parse<Record<string, unknown>>(content, {
         header: true,
         skipEmptyLines: true,
         comments: "#",
-        dynamicTyping: true,
+        delimiter: schema.delimiter ?? "",
+        // Declared columns are parsed from the raw text below.
+        dynamicTyping: field => declaredType("" + field) === undefined,
     });
 
+    let errors: CsvRowError[] = [];
+    for (let error of parsed.errors) {
+        // Rows with missing or extra values are still usable; malformed quotes mean the row was not read correctly.
+        if (error.type != "Quotes") continue;
+        errors.push({ row: (error.row ?? 0) + 1, message: error.message });
+    }
+
+    let columns = (parsed.meta.fields ?? []).map(header => ({
+        header,
+        name: parseHeader(header).name,
+        type: declaredType(header),
+    }));
+
     let rows = [];
-    for (let parsedRow of parsed.data) {
-        let fields = parseFrontmatter(parsedRow) as DataObject;
+    for (let rowIndex = 0; rowIndex < parsed.data.length; rowIndex++) {
+        let parsedRow = parsed.data[rowIndex];
         let result: DataObject = {};
 
-        for (let [key, value] of Object.entries(fields)) {
-            result[key] = value;
-            result[canonicalizeVarName(key)] = value;
+        for (let column of columns) {
+            let raw = parsedRow[column.header];
+            let value: Literal = null;
+            if (column.type === undefined) {
+                value = parseFrontmatter(raw ?? null);
+            } else if (typeof raw === "string" && raw.trim() != "") {
+                let typed = parseValue(raw.trim(), column.type);
+                if (typed !== undefined) value = typed;
+                else
+                    errors.push({
+                        row: rowIndex + 1,
+                        column: column.name,
+                        message: `'${raw}' is not a valid ${column.type}`,
+                    });
+            }
+
+            result[column.name] = value;
+            result[canonicalizeVarName(column.name)] = value;
         }
 
         rows.push(result);
     }
 
-    return rows;
+    return { rows, errors };
+}
+
+/** Split a header like `due:date` into the column name and type; headers without a valid type are left as-is. */
+function parseHeader(header: string): { name: string; type?: CsvColumnType } {
+    let split = header.lastIndexOf(":");
+    if (split < 0) return { name: header };
+
+    let type = header
+        .substring(split + 1)
+        .trim()
+        .toLowerCase();
+    if (!COLUMN_TYPES.has(type)) return { name: header };
+
+    return { name: header.substring(0, split).trim(), type: type as CsvColumnType };
+}
+
+/** Parse a single value as the given type, returning undefined if it is not a valid value of that type. */
+function parseValue(value: string, type: CsvColumnType): Literal | undefined {
+    switch (type) {
+        case "text":
+            return value;
+        case "number":
+            return /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value) ? Number(value) : undefined;
+        case "boolean":
+            let lower = value.toLowerCase();
+            return lower == "true" ? true : lower == "false" ? false : undefined;
+        case "date":
+            let date = EXPRESSION.date.parse(value);
+            return date.status ? date.value : undefined;
+        case "duration":
+            let duration = EXPRESSION.duration.parse(value);
+            return duration.status ? duration.value : undefined;
+        case "link":
+            let link = EXPRESSION.embedLink.parse(value);
+            return link.status ? link.value : Link.file(value);
+    }
 }
@@ -0,0 +1,55 @@
+/** Conversion of structured data files (JSON and YAML) into Dataview rows. */
+import { Result } from "api/result";
+import { DataObject, Literal, Values } from "data-model/value";
+import { canonicalizeVarName } from "util/normalize";
+
+/**
+ * Select the array of rows at the given pointer in the contents of a data file; the pointer is either a JSON pointer
+ * (`/library/books`) or a dotted path (`library.books`). Object elements become rows directly, while any other
+ * elements become rows with a single `value` field.
+ */
+export function selectDataRows(data: Literal, pointer?: string): Result<DataObject[], string> {
+    let selected = pointer ? selectPointer(data, pointer) : Result.success<Literal, string>(data);
+    if (!selected.successful) return Result.failure(selected.error);
+
+    let rows = selected.value;
+    if (!Values.isArray(rows)) {
+        let location = pointer ? `'${pointer}'` : "the top level of the file";
+        return Result.failure(`Expected a list of rows at ${location}, but found a ${Values.typeOf(rows)}.`);
+    }
+
+    return Result.success(
+        rows.map(row => (Values.isObject(row) ? withCanonicalKeys(row as DataObject) : { value: row }))
+    );
+}
+
+/** Follow a JSON pointer or dotted path into the given value. */
+function selectPointer(data: Literal, pointer: string): Result<Literal, string> {
+    let segments = pointer.startsWith("/")
+        ? pointer
+              .substring(1)
+              .split("/")
+              .map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"))
+        : pointer.split(".");
+
+    let current = data;
+    for (let segment of segments) {
+        if (Values.isArray(current) && /^\d+$/.test(segment) && parseInt(segment) < current.length)
+            current = current[parseInt(segment)];
+        else if (Values.isObject(current) && segment in current) current = (current as DataObject)[segment];
+        else return Result.failure(`No value at '${pointer}' (could not find '${segment}').`);
+    }
+
+    return Result.success(current);
+}
+
+/** Also make every field of a row available under its canonical name, as is done for page fields. */
+function withCanonicalKeys(row: DataObject): DataObject {
+    let result: DataObject = Object.assign({}, row);
+    for (let [key, value] of Object.entries(row)) {
+        let canonical = canonicalizeVarName(key);
+        if (!(canonical in result)) result[canonical] = value;
+    }
+
+    return result;
+}
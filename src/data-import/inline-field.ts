@@ -1,9 +1,10 @@
 /** Parse inline fields and other embedded metadata in a line. */
 
 import { EXPRESSION } from "expression/parse";
-import { Literal } from "data-model/value";
+import { Literal, Values } from "data-model/value";
 import * as P from "parsimmon";
 import emojiRegex from "emoji-regex";
+import { canonicalizeVarName, normalizeDuration } from "util/normalize";
 
 /** A parsed inline field. */
 export interface InlineField {
@@ -255,3 +256,89 @@ export function setEmojiShorthandCompletionField(source: string, value?: string)
         return `${source.trimEnd()}${annotation}`;
     }
 }
+
+/**
+ * Sets or replaces the value of the first inline field (bracketed or full-line) with the given key in a markdown
+ * document; keys are compared by their canonical name, and frontmatter is skipped. If the key is not present, the
+ * field is appended as a full-line field. If the value is 'undefined', bracketed fields are deleted and full-line
+ * fields have their value cleared.
+ */
+export function setInlineFieldInDocument(text: string, key: string, value?: string): string {
+    const hasRN = text.includes("\r");
+    const lines = text.split(/\r?\n/u);
+    const target = canonicalizeVarName(key);
+
+    // Skip over the frontmatter block, if present.
+    let start = 0;
+    if (lines.length > 0 && lines[0].trim() == "---") {
+        const end = lines.findIndex((line, index) => index > 0 && line.trim() == "---");
+        if (end > 0) start = end + 1;
+    }
+
+    const join = (parts: string[]) => parts.join(hasRN ? "\r\n" : "\n");
+    for (let lineno = start; lineno < lines.length; lineno++) {
+        const line = lines[lineno];
+        if (!line.includes("::")) continue;
+
+        // Mirror the parser: full-line fields are only considered if the line has no inline fields.
+        const inlineFields = extractInlineFields(line);
+        if (inlineFields.length > 0) {
+            const existing = inlineFields.find(f => canonicalizeVarName(f.key) == target);
+            if (!existing || !existing.wrapping) continue;
+
+            const prefix = line.substring(0, existing.start);
+            const suffix = line.substring(existing.end);
+            const close = INLINE_FIELD_WRAPPERS[existing.wrapping];
+
+            if (value) lines[lineno] = `${prefix}${existing.wrapping}${existing.key}:: ${value}${close}${suffix}`;
+            else lines[lineno] = `${prefix}${suffix.trimStart()}`.trimEnd();
+
+            return join(lines);
+        }
+
+        const fullLine = extractFullLineField(line);
+        if (!fullLine || canonicalizeVarName(fullLine.key) != target) continue;
+
+        lines[lineno] = `${line.substring(0, fullLine.startValue)} ${value ?? ""}`.trimEnd();
+        return join(lines);
+    }
+
+    if (!value) return text;
+
+    // The field does not exist anywhere, so append it to the end of the document.
+    while (lines.length > 0 && lines[lines.length - 1].trim() == "") lines.pop();
+    lines.push(`${key}:: ${value}`, "");
+    return join(lines);
+}
+
+/** Convert a literal into inline field text which parses back into the same value. */
+export function serializeInlineValue(value: Literal): string {
+    if (value === undefined || Values.isNull(value)) {
+        return "";
+    } else if (Values.isString(value)) {
+        // Only quote strings which would otherwise be parsed as some other type.
+        const reparsed = parseInlineValue(value);
+        return reparsed === value ? value : JSON.stringify(value);
+    } else if (Values.isNumber(value) || Values.isBoolean(value)) {
+        return "" + value;
+    } else if (Values.isDate(value)) {
+        if (value.second == 0 && value.minute == 0 && value.hour == 0 && value.millisecond == 0)
+            return value.toISODate() ?? "";
+        return value.toISO({ suppressMilliseconds: true }) ?? "";
+    } else if (Values.isDuration(value)) {
+        const parts = Object.entries(normalizeDuration(value).toObject()).filter(([_, amount]) => amount != 0);
+        if (parts.length == 0) return "0 seconds";
+
+        return parts
+            .map(([unit, amount]) => (unit == "milliseconds" ? `${amount / 1000} seconds` : `${amount} ${unit}`))
+            .join(", ");
+    } else if (Values.isLink(value)) {
+        // Avoid 'markdown()', which always adds a display name.
+        const display = value.display ? "|" + value.display : "";
+        return `${value.embed ? "!" : ""}[[${value.obsidianLink()}${display}]]`;
+    } else if (Values.isArray(value)) {
+        return value.map(v => serializeInlineValue(v)).join(", ");
+    }
+
+    return Values.toString(value);
+}
@@ -1,12 +1,18 @@
 /** Importer for markdown documents. */
 
-import { extractFullLineField, extractInlineFields, parseInlineValue, InlineField } from "data-import/inline-field";
-import { ListItem, PageMetadata } from "data-model/markdown";
+import {
+    extractFullLineField,
+    extractInlineFields,
+    parseInlineValue,
+    serializeInlineValue,
+    InlineField,
+} from "data-import/inline-field";
+import { ListItem, PageMetadata, Section } from "data-model/markdown";
 import { Literal, Link, Values } from "data-model/value";
 import { EXPRESSION } from "expression/parse";
 import { DateTime } from "luxon";
 import { CachedMetadata, FileStats, FrontMatterCache, HeadingCache } from "obsidian";
-import { canonicalizeVarName, extractDate, getFileTitle } from "util/normalize";
+import { canonicalizeVarName, escapeRegex, extractDate, extractTokens, getFileTitle } from "util/normalize";
 import * as common from "data-import/common";
 
 /** Extract markdown metadata from the given Obsidian markdown file. */
@@ -77,12 +83,14 @@ export function parsePage(path: string, contents: string, stat: FileStats, metad
         aliases,
         links,
         lists: markdownData.lists,
+        sections: markdownData.sections,
         fields: finalizeInlineFields(fields),
         frontmatter: frontmatter,
         ctime: DateTime.fromMillis(stat.ctime),
         mtime: DateTime.fromMillis(stat.mtime),
         size: stat.size,
         day: findDate(path, fields),
+        tokens: extractTokens(contents),
     });
 }
 
@@ -130,14 +138,15 @@ export function splitFrontmatterTagOrAlias(data: any, on: RegExp): string[] {
         .filter(t => t.length > 0);
 }
 
-/** Parse raw (newline-delimited) markdown, returning inline fields, list items, and other metadata. */
+/** Parse raw (newline-delimited) markdown, returning inline fields, list items, sections, and other metadata. */
 export function parseMarkdown(
     path: string,
     contents: string[],
     metadata: CachedMetadata,
     linksByLine: Record<number, Link[]>
-): { fields: Map<string, Literal[]>; lists: ListItem[] } {
+): { fields: Map<string, Literal[]>; lists: ListItem[]; sections: Section[] } {
     let fields: Map<string, Literal[]> = new Map();
+    let fieldsByLine: Map<number, Map<string, Literal[]>> = new Map();
 
     // Extract task data and append the global data extracted from them to our fields.
     let [lists, extraData] = parseLists(path, contents, metadata, linksByLine);
@@ -166,17 +175,85 @@ export function parseMarkdown(
             if (line.length > 32768 || !line.includes("::")) continue;
             line = line.trim();
 
+            let lineFields = new Map<string, Literal[]>();
             let inlineFields = extractInlineFields(line);
             if (inlineFields.length > 0) {
-                for (let ifield of inlineFields) addRawInlineField(ifield, fields);
+                for (let ifield of inlineFields) addRawInlineField(ifield, lineFields);
             } else {
                 let fullLine = extractFullLineField(line);
-                if (fullLine) addRawInlineField(fullLine, fields);
+                if (fullLine) addRawInlineField(fullLine, lineFields);
             }
+
+            mergeFieldGroups(fields, lineFields);
+            fieldsByLine.set(lineno, lineFields);
         }
     }
 
-    return { fields, lists };
+    let sections = parseSections(path, contents, metadata, lists, fieldsByLine, linksByLine);
+    return { fields, lists, sections };
+}
+
+/**
+ * Split the page into heading sections, each of which runs from its heading up to the next heading of the same or a
+ * higher level. Inline fields, tags, links and list items are attributed to every section they are contained in.
+ */
+export function parseSections(
+    path: string,
+    contents: string[],
+    metadata: CachedMetadata,
+    lists: ListItem[],
+    fieldsByLine: Map<number, Map<string, Literal[]>>,
+    linksByLine: Record<number, Link[]>
+): Section[] {
+    let headings = metadata.headings || [];
+    let sections: Section[] = [];
+
+    for (let index = 0; index < headings.length; index++) {
+        let heading = headings[index];
+        let start = heading.position.start.line;
+
+        let next = headings.slice(index + 1).find(h => h.level <= heading.level);
+        let end = next ? next.position.start.line - 1 : contents.length - 1;
+        // Only the text up to the first subsection is stored, so that nested sections do not store their text twice.
+        let textEnd = index + 1 < headings.length ? Math.min(end, headings[index + 1].position.start.line - 1) : end;
+        const contains = (line: number) => line >= start && line <= end;
+
+        let fields = new Map<string, Literal[]>();
+        let links: Link[] = [];
+        for (let line = start; line <= end; line++) {
+            let lineFields = fieldsByLine.get(line);
+            if (lineFields) mergeFieldGroups(fields, lineFields);
+            if (linksByLine[line]) links.push(...linksByLine[line]);
+        }
+
+        let items = lists.filter(item => contains(item.line));
+        for (let item of items) mergeFieldGroups(fields, item.fields);
+
+        let tags = new Set<string>();
+        for (let tag of metadata.tags || []) {
+            if (contains(tag.position.start.line)) tags.add(tag.tag.startsWith("#") ? tag.tag : "#" + tag.tag);
+        }
+
+        sections.push(
+            new Section({
+                heading: heading.heading,
+                level: heading.level,
+                link: Link.header(path, heading.heading),
+                line: start,
+                lineCount: end - start + 1,
+                text: contents
+                    .slice(start + 1, textEnd + 1)
+                    .join("\n")
+                    .trim(),
+                tags,
+                links,
+                lists: items.map(item => item.line),
+                fields,
+            })
+        );
+    }
+
+    return sections;
 }
 
 // TODO: Consider using an actual parser in lieu of a more expensive regex.
@@ -368,6 +445,83 @@ export function parseFrontmatter(value: any): Literal {
     return null;
 }
 
+/** Strings which YAML would interpret as something other than a string if left unquoted. */
+const YAML_RESERVED = /^(true|false|yes|no|on|off|null|~|[-+]?(\.inf|\.nan)|[-+]?[0-9][0-9_.,:eExXoO+-]*)$/i;
+
+/** Convert a literal into YAML text which {@link parseFrontmatter} will parse back into the same value. */
+export function serializeFrontmatterValue(value: Literal): string {
+    if (value === undefined || Values.isNull(value)) {
+        return "";
+    } else if (Values.isString(value)) {
+        // Quote anything YAML would reinterpret, or which we would parse into a date, duration or link.
+        const plain =
+            /^[^\s\-?:,\[\]{}#&*!|>'"%@`][^:#,\[\]{}]*$/u.test(value) &&
+            value.trimEnd() == value &&
+            !YAML_RESERVED.test(value) &&
+            parseFrontmatter(value) === value;
+
+        return plain ? value : JSON.stringify(value);
+    } else if (Values.isNumber(value) || Values.isBoolean(value)) {
+        return "" + value;
+    } else if (Values.isDate(value)) {
+        if (value.second == 0 && value.minute == 0 && value.hour == 0 && value.millisecond == 0)
+            return value.toISODate() ?? "";
+        return JSON.stringify(value.toISO({ suppressMilliseconds: true }));
+    } else if (Values.isDuration(value)) {
+        return JSON.stringify(serializeInlineValue(value));
+    } else if (Values.isLink(value)) {
+        return JSON.stringify(serializeInlineValue(value));
+    } else if (Values.isArray(value)) {
+        return `[${value.map(v => serializeFrontmatterValue(v) || "null").join(", ")}]`;
+    } else if (Values.isObject(value)) {
+        const entries = Object.entries(value).map(
+            ([k, v]) => `${JSON.stringify(k)}: ${serializeFrontmatterValue(v) || "null"}`
+        );
+        return `{${entries.join(", ")}}`;
+    }
+
+    return JSON.stringify(Values.toString(value));
+}
+
+/**
+ * Sets or replaces the value of a top-level frontmatter key in a markdown document, where the value is already
+ * serialized YAML. Multi-line values of an existing key are replaced in full. If the document has no frontmatter,
+ * a new frontmatter block is created. If the value is 'undefined', deletes the key.
+ */
+export function setFrontmatterField(text: string, key: string, value?: string): string {
+    const hasRN = text.includes("\r");
+    const lines = text.split(/\r?\n/u);
+    const join = (parts: string[]) => parts.join(hasRN ? "\r\n" : "\n");
+    const entry = value ? `${key}: ${value}` : `${key}:`;
+
+    const end = lines[0]?.trim() == "---" ? lines.findIndex((line, index) => index > 0 && line.trim() == "---") : -1;
+    if (end < 0) {
+        if (value === undefined) return text;
+        return join(["---", entry, "---"].concat(lines));
+    }
+
+    const keyPattern = new RegExp(
+        `^(${escapeRegex(key)}|"${escapeRegex(key)}"|'${escapeRegex(key)}')\\s*:(\\s|$)`,
+        "u"
+    );
+    const start = lines.findIndex((line, index) => index > 0 && index < end && keyPattern.test(line));
+    if (start < 0) {
+        if (value === undefined) return text;
+
+        lines.splice(end, 0, entry);
+        return join(lines);
+    }
+
+    // Consume any continuation lines (indented block values or list items) belonging to the key.
+    let last = start + 1;
+    while (last < end && lines[last].trim() != "" && (/^\s/u.test(lines[last]) || lines[last].startsWith("-"))) last++;
+
+    if (value === undefined) lines.splice(start, last - start);
+    else lines.splice(start, last - start, entry);
+
+    return join(lines);
+}
+
 /** Add a parsed inline field to the output map. */
 export function addRawInlineField(field: InlineField, output: Map<string, Literal[]>) {
     addInlineField(field.key, parseInlineValue(field.value), output);
@@ -1,3 +1,4 @@
+import type { FieldSnapshot } from "data-index/history";
 import { PageMetadata } from "data-model/markdown";
 import { Transferable } from "data-model/transferable";
 import localforage from "localforage";
@@ -15,6 +16,8 @@ export interface Cached<T> {
 /** Simpler wrapper for a file-backed cache for arbitrary metadata. */
 export class LocalStorageCache {
     public persister: LocalForage;
+    /** Snapshots of page fields over time; kept separate from the cache, since it cannot be rebuilt if dropped. */
+    public history: LocalForage;
 
     public constructor(public appId: string, public version: string) {
         this.persister = localforage.createInstance({
@@ -22,6 +25,12 @@ export class LocalStorageCache {
             driver: [localforage.INDEXEDDB],
             description: "Cache metadata about files and sections in the dataview index.",
         });
+
+        this.history = localforage.createInstance({
+            name: "dataview/history/" + appId,
+            driver: [localforage.INDEXEDDB],
+            description: "Daily snapshots of the fields of files in the dataview index.",
+        });
     }
 
     /** Drop the entire cache instance and re-create a new fresh instance. */
@@ -75,6 +84,28 @@ export class LocalStorageCache {
         return keys.filter(k => k.startsWith("file:")).map(k => k.substring(5));
     }
 
+    /** Load the field snapshots of a file by path. */
+    public async loadHistory(path: string): Promise<FieldSnapshot[] | null | undefined> {
+        let raw = await this.history.getItem(this.fileKey(path));
+        return raw ? Transferable.value(raw) : raw;
+    }
+
+    /** Store the field snapshots of a file by path. */
+    public async storeHistory(path: string, snapshots: FieldSnapshot[]): Promise<void> {
+        await this.history.setItem(this.fileKey(path), Transferable.transferable(snapshots));
+    }
+
+    /** Drop the field snapshots of a file by path. */
+    public async removeHistory(path: string): Promise<void> {
+        await this.history.removeItem(this.fileKey(path));
+    }
+
+    /** Obtain a list of all files with field snapshots. */
+    public async allHistory(): Promise<string[]> {
+        let keys = await this.history.keys();
+        return keys.filter(k => k.startsWith("file:")).map(k => k.substring(5));
+    }
+
     public fileKey(path: string): string {
         return "file:" + path;
     }
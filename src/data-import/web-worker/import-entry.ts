@@ -1,15 +1,20 @@
 /** Entry-point script used by the index as a web worker. */
-import { runImport } from "data-import/web-worker/import-impl";
+import { importsWithoutMetadata, runImport } from "data-import/web-worker/import-impl";
 import { Transferable } from "data-model/transferable";
 import { CachedMetadata, FileStats } from "obsidian";
 
 /** An import which can fail and raise an exception, which will be caught by the handler. */
-function failableImport(path: string, contents: string, stat: FileStats, metadata?: CachedMetadata) {
-    if (metadata === undefined || metadata === null) {
+function failableImport(
+    path: string,
+    contents: string | ArrayBuffer | undefined,
+    stat: FileStats,
+    metadata?: CachedMetadata
+) {
+    if ((metadata === undefined || metadata === null) && !importsWithoutMetadata(path)) {
         throw Error(`Cannot index file, since it has no Obsidian file metadata.`);
     }
 
-    return runImport(path, contents, stat, metadata);
+    return runImport(path, contents, stat, metadata ?? undefined);
 }
 
 onmessage = async evt => {
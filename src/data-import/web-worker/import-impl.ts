@@ -1,13 +1,24 @@
 /** Actual import implementation backend. This must remain separate from `import-entry` since it is used without web workers. */
+import { isAttachment, parseAttachment } from "data-import/attachment-file";
+import { parseCanvas } from "data-import/canvas-file";
 import { parsePage } from "data-import/markdown-file";
 import { PageMetadata } from "data-model/markdown";
 import { CachedMetadata, FileStats } from "obsidian";
+import { getExtension } from "util/normalize";
 
+/** Determine if the file at the given path is imported without Obsidian file metadata (which only markdown has). */
+export function importsWithoutMetadata(path: string): boolean {
+    return getExtension(path).toLowerCase() == "canvas" || isAttachment(path);
+}
+
+/** Import a file; attachments are given as binary contents (or not at all, if their contents are not needed). */
 export function runImport(
     path: string,
-    contents: string,
+    contents: string | ArrayBuffer | undefined,
     stats: FileStats,
-    metadata: CachedMetadata
+    metadata?: CachedMetadata
 ): Partial<PageMetadata> {
-    return parsePage(path, contents, stats, metadata);
+    if (isAttachment(path)) return parseAttachment(path, contents instanceof ArrayBuffer ? contents : undefined, stats);
+    if (importsWithoutMetadata(path)) return parseCanvas(path, contents as string, stats);
+    return parsePage(path, contents as string, stats, metadata as CachedMetadata);
 }
@@ -1,6 +1,7 @@
 /** Controls and creates Dataview file importers, allowing for asynchronous loading and parsing of files. */
 
 import { Transferable } from "data-model/transferable";
+import { inspectsContents, isAttachment } from "data-import/attachment-file";
 import DataviewImportWorker from "web-worker:./import-entry.ts";
 import { Component, MetadataCache, TFile, Vault } from "obsidian";
 
@@ -93,7 +94,13 @@ export class FileImporter extends Component {
     private send(file: TFile, workerId: number) {
         this.busy[workerId] = true;
 
-        this.vault.cachedRead(file).then(c =>
+        // Attachments are read as binary, and only if their contents are needed for their metadata.
+        let contents: Promise<string | ArrayBuffer | undefined>;
+        if (!isAttachment(file.path)) contents = this.vault.cachedRead(file);
+        else if (inspectsContents(file.path, file.stat.size)) contents = this.vault.readBinary(file);
+        else contents = Promise.resolve(undefined);
+
+        contents.then(c =>
             this.workers[workerId].postMessage({
                 path: file.path,
                 contents: c,
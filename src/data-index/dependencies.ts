@@ -0,0 +1,109 @@
+/** Tracks which files a rendered view depends on, so that it only refreshes when a relevant file changes. */
+import { FullIndex } from "data-index/index";
+import { Source } from "data-index/source";
+import { canvasPath } from "data-index/resolver";
+
+/** A source which a view read from, along with the file it was evaluated relative to. */
+export interface SourceDependency {
+    source: Source;
+    origin: string;
+}
+
+/** The files and sources which the result of a query depends on. */
+export class Dependencies {
+    /** Exact paths whose changes affect the result - the matched pages, pages looked up through links, and so on. */
+    public paths: Set<string>;
+    /** Sources the result was drawn from; a change to a file which may now match one of them also affects the result. */
+    public sources: SourceDependency[];
+    /** If true, the result may depend on anything (such as for JavaScript views) and is affected by every change. */
+    public global: boolean;
+
+    public constructor() {
+        this.paths = new Set();
+        this.sources = [];
+        this.global = false;
+    }
+
+    /** Create dependencies which are affected by every change. */
+    public static everything(): Dependencies {
+        let result = new Dependencies();
+        result.global = true;
+        return result;
+    }
+
+    /** Record that the result depends on the given path. */
+    public path(path: string): this {
+        this.paths.add(path);
+        return this;
+    }
+
+    /** Record that the result was drawn from the given source, which matched the given paths. */
+    public source(source: Source, origin: string, paths: Iterable<string>): this {
+        this.sources.push({ source, origin });
+        for (let path of paths) this.paths.add(path);
+        return this;
+    }
+
+    /**
+     * Determine if any of the given changed paths may affect a result with these dependencies. `changed` is undefined
+     * if there was a change that cannot be tied to specific paths.
+     */
+    public affectedBy(changed: Set<string> | undefined, index: FullIndex): boolean {
+        if (this.global || changed === undefined) return true;
+
+        for (let path of changed) {
+            if (this.paths.has(path)) return true;
+            if (this.sources.some(dep => sourceMayContain(dep.source, path, index, dep.origin))) return true;
+        }
+
+        return false;
+    }
+}
+
+/**
+ * Determine if the given path may currently be matched by a source. This errs on the side of returning true, since it
+ * is only used to decide whether a view should refresh.
+ */
+export function sourceMayContain(source: Source, path: string, index: FullIndex, origin: string = ""): boolean {
+    switch (source.type) {
+        case "empty":
+            return false;
+        case "tag":
+            return index.tags.get(path).has(source.tag.toLocaleLowerCase());
+        case "csv":
+        case "json":
+        case "yaml":
+            return index.prefix.resolveRelative(source.path, origin) == path;
+        case "folder":
+            if (!index.isPage(path)) return false;
+            return (
+                source.folder == "" ||
+                path.startsWith(source.folder + "/") ||
+                path == source.folder ||
+                path == source.folder + ".md"
+            );
+        case "link":
+            let target = index.metadataCache.getFirstLinkpathDest(source.file, origin)?.path ?? source.file;
+            if (source.direction == "incoming") return index.links.get(path).has(target);
+            else return path == target;
+        case "canvas":
+            // The canvas itself changing may change which pages are on it.
+            let canvas = canvasPath(source.file, index, origin) ?? source.file;
+            return path == canvas || index.links.get(canvas).has(path);
+        case "content":
+        case "negate":
+            // Any edit can add matching text, and any file may stop matching the negated source.
+            return index.isPage(path);
+        case "binaryop":
+            if (source.op == "&")
+                return (
+                    sourceMayContain(source.left, path, index, origin) &&
+                    sourceMayContain(source.right, path, index, origin)
+                );
+            else
+                return (
+                    sourceMayContain(source.left, path, index, origin) ||
+                    sourceMayContain(source.right, path, index, origin)
+                );
+    }
+}
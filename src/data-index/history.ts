@@ -0,0 +1,127 @@
+/** Tracks how the field values of pages change over time, via daily snapshots persisted next to the index cache. */
+import { LocalStorageCache } from "data-import/persister";
+import { DataObject, Literal, Values } from "data-model/value";
+import { DateTime } from "luxon";
+
+/** The field values of a page at the end of a day. */
+export interface FieldSnapshot {
+    /** The day the snapshot was taken. */
+    day: DateTime;
+    /** All fields of the page on that day. */
+    fields: Map<string, Literal>;
+}
+
+/** The maximum number of snapshots kept per page; the oldest snapshots are dropped first. */
+export const MAX_SNAPSHOTS = 1000;
+
+/**
+ * Add the current field values of a page to its snapshots, replacing the snapshot of the same day if there is one.
+ * Returns the new snapshots, or undefined if the values did not change since the last snapshot.
+ */
+export function recordSnapshot(
+    snapshots: FieldSnapshot[],
+    fields: Map<string, Literal>,
+    day: DateTime
+): FieldSnapshot[] | undefined {
+    let last = snapshots[snapshots.length - 1];
+    if (last && fieldsEqual(last.fields, fields)) return undefined;
+
+    let result = last && last.day.hasSame(day, "day") ? snapshots.slice(0, -1) : snapshots.slice();
+    result.push({ day: day.startOf("day"), fields: new Map(fields) });
+    return result.slice(-MAX_SNAPSHOTS);
+}
+
+/**
+ * Convert snapshots into the changes of every field: for each field, the days its value changed, along with the new
+ * value. A field which was removed changes to null.
+ */
+export function fieldChanges(snapshots: FieldSnapshot[]): Record<string, DataObject[]> {
+    let changes: Record<string, DataObject[]> = {};
+    let previous = new Map<string, Literal>();
+    for (let snapshot of snapshots) {
+        let keys = new Set([...previous.keys(), ...snapshot.fields.keys()]);
+        for (let key of keys) {
+            let value = snapshot.fields.get(key) ?? null;
+            let old = previous.get(key) ?? null;
+            if (Values.compareValue(old, value) == 0) continue;
+
+            (changes[key] = changes[key] ?? []).push({ date: snapshot.day, value: Values.deepCopy(value) });
+        }
+
+        previous = snapshot.fields;
+    }
+
+    return changes;
+}
+
+/** Whether two sets of page fields have the same values. */
+function fieldsEqual(a: Map<string, Literal>, b: Map<string, Literal>): boolean {
+    if (a.size != b.size) return false;
+    for (let [key, value] of a.entries()) {
+        if (!b.has(key) || Values.compareValue(value, b.get(key) as Literal) != 0) return false;
+    }
+
+    return true;
+}
+
+/** In-memory copy of the field history of all pages, which is kept in sync with its persisted copy. */
+export class FieldHistory {
+    /** Whether field history is recorded; off unless enabled in the settings. */
+    public enabled: boolean;
+    /** Whether the persisted history has been loaded; nothing is recorded before that. */
+    public loaded: boolean;
+    /** Maps path -> the snapshots of that page, oldest first. */
+    private snapshots: Map<string, FieldSnapshot[]>;
+
+    public constructor(public persister: LocalStorageCache) {
+        this.enabled = false;
+        this.loaded = false;
+        this.snapshots = new Map();
+    }
+
+    /** Load the persisted history of all pages. */
+    public async load(): Promise<void> {
+        if (this.loaded) return;
+
+        for (let path of await this.persister.allHistory()) {
+            let snapshots = await this.persister.loadHistory(path);
+            if (snapshots) this.snapshots.set(path, snapshots);
+        }
+
+        this.loaded = true;
+    }
+
+    /** Record the current fields of a page, returning true if this added a snapshot. */
+    public record(path: string, fields: Map<string, Literal>, day: DateTime = DateTime.now()): boolean {
+        if (!this.enabled || !this.loaded) return false;
+
+        let updated = recordSnapshot(this.snapshots.get(path) ?? [], fields, day);
+        if (!updated) return false;
+
+        this.snapshots.set(path, updated);
+        this.persister.storeHistory(path, updated);
+        return true;
+    }
+
+    /** The changes of every field of the given page. */
+    public get(path: string): Record<string, DataObject[]> {
+        return fieldChanges(this.snapshots.get(path) ?? []);
+    }
+
+    /** Move the history of a page to its new path. */
+    public rename(oldPath: string, newPath: string) {
+        let snapshots = this.snapshots.get(oldPath);
+        if (!snapshots) return;
+
+        this.snapshots.delete(oldPath);
+        this.snapshots.set(newPath, snapshots);
+        this.persister.removeHistory(oldPath);
+        this.persister.storeHistory(newPath, snapshots);
+    }
+
+    /** Drop the history of a deleted page. */
+    public delete(path: string) {
+        if (!this.snapshots.delete(path)) return;
+        this.persister.removeHistory(path);
+    }
+}
@@ -1,12 +1,18 @@
 /** Stores various indices on all files in the vault to make dataview generation fast. */
 import { Result } from "api/result";
-import { parseCsv } from "data-import/csv";
+import { isAttachment } from "data-import/attachment-file";
+import { CsvParseResult, CsvSchema, CSV_SCHEMA_SUFFIX, parseCsv, validateCsvSchema } from "data-import/csv";
+import { parseFrontmatter } from "data-import/markdown-file";
 import { LocalStorageCache } from "data-import/persister";
+import { importsWithoutMetadata } from "data-import/web-worker/import-impl";
 import { FileImporter } from "data-import/web-worker/import-manager";
+import { FieldHistory } from "data-index/history";
 import { PageMetadata } from "data-model/markdown";
-import { DataObject } from "data-model/value";
+import { SMarkdownPage } from "data-model/serialized/markdown";
+import { Literal, Values } from "data-model/value";
+import { FunctionRegistry } from "expression/functions";
 import { DateTime } from "luxon";
-import { App, Component, MetadataCache, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
+import { App, Component, MetadataCache, parseYaml, TAbstractFile, TFile, TFolder, Vault } from "obsidian";
 import { getParentFolder, setsEqual } from "util/normalize";
 
 /** Aggregate index which has several sub-indices and will initialize all of them. */
@@ -18,6 +24,8 @@ export class FullIndex extends Component {
 
     /** Whether all files in the vault have been indexed at least once. */
     public initialized: boolean;
+    /** Whether attachments (images, PDFs, audio and video) are indexed as pages, in addition to notes and canvases. */
+    public indexAttachments: boolean;
 
     /** I/O access to the Obsidian vault contents. */
     public vault: Vault;
@@ -33,8 +41,18 @@ export class FullIndex extends Component {
     public tags: ValueCaseInsensitiveIndexMap;
     /** Map files -> exact tags in that file, and tags -> files. This version does not automatically add subtags. */
     public etags: ValueCaseInsensitiveIndexMap;
-    /** Map files -> linked files in that file, and linked file -> files that link to it. */
+    /**
+     * Map files -> linked files in that file, and linked file -> files that link to it. The reverse direction is kept up
+     * to date on reloads, renames and file creation, so it can be used to efficiently find incoming links.
+     */
     public links: IndexMap;
+    /**
+     * Map files -> the scalar values of the fields in that file (as `fieldValueKey`s), and field values -> files with
+     * those values. Used to answer simple WHERE clauses without loading every page.
+     */
+    public fieldValues: IndexMap;
+    /** Map files -> word tokens in that file, and tokens -> files containing them. Used for full-text searches. */
+    public tokens: IndexMap;
     /** Search files by path prefix. */
     public prefix: PrefixIndex;
     /** Allows for efficient lookups of whether a file is starred or not. */
@@ -42,12 +60,24 @@ export class FullIndex extends Component {
     /** Caches data in CSV files. */
     // TODO: CSV parsing should be done by a worker thread asynchronously to avoid frontend stalls.
     public csv: CsvCache;
+    /** Caches data in JSON and YAML files. */
+    public dataFiles: DataFileCache;
+    /** Daily snapshots of the fields of every page, if enabled. */
+    public history: FieldHistory;
+    /** All functions which can be called in expressions, including user-defined functions. */
+    public functions: FunctionRegistry;
 
     /**
      * The current "revision" of the index, which monotonically increases for every index change. Use this to determine
      * if you are up to date.
      */
     public revision: number;
+    /** Maps path -> the revision at which that path last changed; used to only refresh views affected by a change. */
+    private changes: Map<string, number>;
+    /** The last revision at which something changed that is not tied to specific paths (like starred files). */
+    private globalRevision: number;
+    /** Serialized pages, kept until the page (or a page which links to it) changes. */
+    private serialized: Map<string, SMarkdownPage>;
 
     /** Asynchronously parses files in the background using web workers. */
     public importer: FileImporter;
@@ -57,6 +87,7 @@ export class FullIndex extends Component {
         super();
 
         this.initialized = false;
+        this.indexAttachments = false;
 
         this.vault = app.vault;
         this.metadataCache = app.metadataCache;
@@ -65,10 +96,17 @@ export class FullIndex extends Component {
         this.tags = new ValueCaseInsensitiveIndexMap();
         this.etags = new ValueCaseInsensitiveIndexMap();
         this.links = new IndexMap();
+        this.fieldValues = new IndexMap();
+        this.tokens = new IndexMap();
         this.revision = 0;
+        this.changes = new Map();
+        this.globalRevision = 0;
+        this.serialized = new Map();
+        this.functions = new FunctionRegistry();
 
         // Caches metadata via durable storage to speed up cache initialization when Obsidian restarts.
         this.persister = new LocalStorageCache(app.appId || "shared", indexVersion);
+        this.history = new FieldHistory(this.persister);
 
         // Handles asynchronous reloading of files on web workers.
         this.addChild((this.importer = new FileImporter(2, this.vault, this.metadataCache)));
@@ -76,6 +114,7 @@ export class FullIndex extends Component {
         this.addChild((this.prefix = PrefixIndex.create(this.vault, () => this.touch())));
         // The CSV cache also needs to listen to filesystem events for cache invalidation.
         this.addChild((this.csv = new CsvCache(this.vault)));
+        this.addChild((this.dataFiles = new DataFileCache(this.vault)));
         // The starred cache fetches starred entries semi-regularly via an interval.
         this.addChild((this.starred = new StarredCache(this.app, () => this.touch())));
     }
@@ -85,45 +124,112 @@ export class FullIndex extends Component {
         this.metadataCache.trigger("dataview:metadata-change", ...args);
     }
 
-    /** "Touch" the index, incrementing the revision number and causing downstream views to reload. */
-    public touch() {
+    /**
+     * "Touch" the index, incrementing the revision number and causing downstream views to reload. If paths are given,
+     * only views which depend on those paths will reload; otherwise, the change may affect any view.
+     */
+    public touch(...paths: string[]) {
         this.revision += 1;
+        if (paths.length == 0) {
+            this.globalRevision = this.revision;
+            this.serialized.clear();
+        }
+
+        for (let path of paths) {
+            this.changes.set(path, this.revision);
+            this.serialized.delete(path);
+        }
+
         this.onChange();
     }
 
+    /**
+     * Return all paths which changed after the given revision, or undefined if there was a change which cannot be
+     * tied to specific paths (in which case anything may have changed).
+     */
+    public changedSince(revision: number): Set<string> | undefined {
+        if (this.globalRevision > revision) return undefined;
+
+        let result = new Set<string>();
+        for (let [path, changed] of this.changes.entries()) {
+            if (changed > revision) result.add(path);
+        }
+
+        return result;
+    }
+
+    /**
+     * Return the serialized form of the page at the given path, reusing the previously serialized page if nothing it
+     * depends on has changed since. The result is shared between callers and must not be modified; the API and views
+     * copy it before handing it to scripts or renderers.
+     */
+    public serializedPage(path: string): SMarkdownPage | undefined {
+        let cached = this.serialized.get(path);
+        if (cached) return cached;
+
+        let page = this.pages.get(path)?.serialize(this);
+        if (page) this.serialized.set(path, page);
+        return page;
+    }
+
+    /** Determine if the file at the given path is indexed as a page. */
+    public isPage(path: string): boolean {
+        return PathFilters.markdown(path) || PathFilters.canvas(path) || (this.indexAttachments && isAttachment(path));
+    }
+
+    /** Start or stop indexing attachments, importing or dropping all attachments in the vault as needed. */
+    public async setIndexAttachments(enabled: boolean) {
+        if (this.indexAttachments == enabled) return;
+        this.indexAttachments = enabled;
+
+        let attachments = this.vault.getFiles().filter(file => isAttachment(file.path));
+        if (enabled) await Promise.all(attachments.map(file => this.reload(file)));
+        else for (let file of attachments) this.remove(file);
+    }
+
+    /** Start or stop recording field history; when started, the current fields of all pages are recorded right away. */
+    public async setFieldHistory(enabled: boolean) {
+        this.history.enabled = enabled;
+        if (enabled) {
+            await this.history.load();
+            for (let [path, page] of this.pages.entries()) this.history.record(path, page.fields);
+        }
+
+        this.touch();
+    }
+
     /** Runs through the whole vault to set up initial file metadata. */
     public initialize() {
         // The metadata cache is updated on initial file index and file loads.
         this.registerEvent(this.metadataCache.on("resolve", file => this.reload(file)));
 
+        // Obsidian does not compute metadata for canvases and attachments, so they are reloaded whenever they change on disk.
+        const reloadWithoutMetadata = (file: TAbstractFile) => {
+            if (file instanceof TFile && this.isPage(file.path) && importsWithoutMetadata(file.path)) this.reload(file);
+        };
+        this.registerEvent(this.vault.on("create", reloadWithoutMetadata));
+        this.registerEvent(this.vault.on("modify", reloadWithoutMetadata));
+
         // Renames do not set off the metadata cache; catch these explicitly.
         this.registerEvent(this.vault.on("rename", this.rename, this));
 
         // File creation does cause a metadata change, but deletes do not. Clear the caches for this.
         this.registerEvent(
             this.vault.on("delete", af => {
-                if (!(af instanceof TFile) || !PathFilters.markdown(af.path)) return;
-                let file = af as TFile;
-
-                this.pages.delete(file.path);
-                this.tags.delete(file.path);
-                this.etags.delete(file.path);
-                this.links.delete(file.path);
-
-                this.touch();
-                this.trigger("delete", file);
+                if (!(af instanceof TFile) || !this.isPage(af.path)) return;
+                this.remove(af);
             })
         );
 
         // Asynchronously initialize actual content in the background.
-        this._initialize(this.vault.getMarkdownFiles());
+        this._initialize(this.pageFiles());
     }
 
     /** Drops the local storage cache and re-indexes all files; this should generally be used if you expect cache issues. */
     public async reinitialize() {
         await this.persister.recreate();
 
-        const files = this.vault.getMarkdownFiles();
+        const files = this.pageFiles();
         const start = Date.now();
         let promises = files.map(file => this.reload(file));
 
@@ -131,8 +237,33 @@ export class FullIndex extends Component {
         console.log(`Dataview: re-initialized index with ${files.length} files (${(Date.now() - start) / 1000.0}s)`);
     }
 
+    /** All files in the vault which are indexed as pages. */
+    private pageFiles(): TFile[] {
+        return this.vault.getFiles().filter(file => this.isPage(file.path));
+    }
+
+    /** Drop a file from all indices, since it was deleted or is no longer indexed. */
+    private remove(file: TFile) {
+        // Files which this file linked to lose an incoming link, so they change as well.
+        let linked = this.links.get(file.path);
+
+        this.pages.delete(file.path);
+        this.tags.delete(file.path);
+        this.etags.delete(file.path);
+        this.links.delete(file.path);
+        this.fieldValues.delete(file.path);
+        this.tokens.delete(file.path);
+        this.history.delete(file.path);
+
+        this.touch(file.path, ...linked);
+        this.trigger("delete", file);
+    }
+
     /** Internal asynchronous initializer. */
     private async _initialize(files: TFile[]) {
+        // History must be loaded before pages are recorded, so that existing snapshots are extended.
+        if (this.history.enabled) await this.history.load();
+
         let reloadStart = Date.now();
         let promises = files.map(l => this.reload(l));
         let results = await Promise.all(promises);
@@ -164,7 +295,7 @@ export class FullIndex extends Component {
     }
 
     public rename(file: TAbstractFile, oldPath: string) {
-        if (!(file instanceof TFile) || !PathFilters.markdown(file.path)) return;
+        if (!(file instanceof TFile) || !this.isPage(file.path)) return;
 
         if (this.pages.has(oldPath)) {
             const oldMeta = this.pages.get(oldPath);
@@ -177,15 +308,20 @@ export class FullIndex extends Component {
 
         this.tags.rename(oldPath, file.path);
         this.links.rename(oldPath, file.path);
+        let linking = new Set(this.links.getInverse(oldPath));
+        this.links.renameValue(oldPath, file.path);
         this.etags.rename(oldPath, file.path);
+        this.fieldValues.rename(oldPath, file.path);
+        this.tokens.rename(oldPath, file.path);
+        this.history.rename(oldPath, file.path);
 
-        this.touch();
+        this.touch(oldPath, file.path, ...this.links.get(file.path), ...linking);
         this.trigger("rename", file, oldPath);
     }
 
     /** Queue a file for reloading; this is done asynchronously in the background and may take a few seconds. */
     public async reload(file: TFile): Promise<{ cached: boolean; skipped: boolean }> {
-        if (!PathFilters.markdown(file.path)) return { cached: false, skipped: true };
+        if (!this.isPage(file.path)) return { cached: false, skipped: true };
 
         // The first load of a file is attempted from persisted cache; subsequent loads just use the importer.
         if (this.pages.has(file.path) || this.initialized) {
@@ -199,7 +335,8 @@ export class FullIndex extends Component {
                     // We will skip files with no active file metadata - they will be caught by a later reload
                     // via the 'resolve' metadata event.
                     let fileCache = this.metadataCache.getFileCache(file);
-                    if (fileCache === undefined || fileCache === null) return { cached: false, skipped: true };
+                    if ((fileCache === undefined || fileCache === null) && !importsWithoutMetadata(file.path))
+                        return { cached: false, skipped: true };
 
                     await this.import(file);
                     return { cached: false, skipped: false };
@@ -228,14 +365,72 @@ export class FullIndex extends Component {
             else return link;
         });
 
+        // Files which gained or lost an incoming link from this file also change, since their inlinks differ.
+        let oldLinks = this.links.get(file.path);
+        let newLinks = new Set<string>(meta.links.map(l => l.path));
+        let relinked = [...oldLinks].filter(l => !newLinks.has(l)).concat([...newLinks].filter(l => !oldLinks.has(l)));
+
+        // Links to this file which could not be resolved before it existed now point to it.
+        let resolved = this.pages.has(file.path) ? [] : this.resolveDangling(file);
+
         this.pages.set(file.path, meta);
         this.tags.set(file.path, meta.fullTags());
         this.etags.set(file.path, meta.tags);
-        this.links.set(file.path, new Set<string>(meta.links.map(l => l.path)));
+        this.links.set(file.path, newLinks);
+        this.fieldValues.set(file.path, fieldValueKeys(meta));
+        this.tokens.set(file.path, meta.tokens);
+        this.history.record(file.path, meta.fields);
 
-        this.touch();
+        this.touch(file.path, ...relinked, ...resolved);
         this.trigger("update", file);
     }
+
+    /**
+     * Update the link index for unresolved links which resolve to the given (new) file, returning the paths of the
+     * files containing those links.
+     */
+    private resolveDangling(file: TFile): string[] {
+        let result: string[] = [];
+        let candidates = new Set([file.basename, file.path.substring(0, file.path.length - file.extension.length - 1)]);
+        for (let raw of candidates) {
+            for (let source of new Set(this.links.getInverse(raw))) {
+                if (this.metadataCache.getFirstLinkpathDest(raw, source)?.path != file.path) continue;
+
+                let links = this.links.get(source);
+                links.delete(raw);
+                links.add(file.path);
+                this.links.set(source, links);
+                result.push(source);
+            }
+        }
+
+        return result;
+    }
+}
+
+/**
+ * Key under which a field value is stored in the field value index; only strings, numbers and booleans are indexed.
+ * Strings are normalized, so every value that compares equal to the given one shares its key.
+ */
+export function fieldValueKey(field: string, value: Literal): string | undefined {
+    if (Values.isString(value)) return `${field}\0s${value.normalize("NFC").toLocaleLowerCase()}`;
+    else if (Values.isNumber(value)) return `${field}\0n${value}`;
+    else if (Values.isBoolean(value)) return `${field}\0b${value}`;
+    else return undefined;
+}
+
+/** All field value index keys for the given page. */
+function fieldValueKeys(meta: PageMetadata): Set<string> {
+    let result = new Set<string>();
+    for (let [field, value] of meta.fields.entries()) {
+        // Fields named 'file' are shadowed by the implicit file metadata when pages are serialized.
+        if (field == "file") continue;
+
+        let key = fieldValueKey(field, value);
+        if (key) result.add(key);
+    }
+
+    return result;
 }
 
 /** Indexes files by their full prefix - essentially a simple prefix tree. */
@@ -264,6 +459,22 @@ export class PrefixIndex extends Component {
         return new Set(folder instanceof TFolder ? this.walk(folder, filter) : []);
     }
 
+    /** Get the paths of all folders under the given path (excluding the path itself). */
+    public folders(prefix: string = ""): Set<string> {
+        let result = new Set<string>();
+        const visit = (folder: TFolder) => {
+            for (const file of folder.children) {
+                if (!(file instanceof TFolder)) continue;
+                result.add(file.path);
+                visit(file);
+            }
+        };
+
+        let folder = this.vault.getAbstractFileByPath(prefix || "/");
+        if (folder instanceof TFolder) visit(folder);
+        return result;
+    }
+
     /** Determines if the given path exists in the prefix index. */
     public pathExists(path: string): boolean {
         return this.vault.getAbstractFileByPath(path || "/") != null;
@@ -289,65 +500,87 @@ export class PrefixIndex extends Component {
 
 /** Simple path filters which filter file types. */
 export namespace PathFilters {
+    export function json(path: string): boolean {
+        return path.toLowerCase().endsWith(".json");
+    }
+
+    export function yaml(path: string): boolean {
+        let lower = path.toLowerCase();
+        return lower.endsWith(".yaml") || lower.endsWith(".yml");
+    }
+
     export function csv(path: string): boolean {
-        return path.toLowerCase().endsWith(".csv");
+        let lower = path.toLowerCase();
+        return lower.endsWith(".csv") || lower.endsWith(".tsv");
     }
 
     export function markdown(path: string): boolean {
         let lcPath = path.toLowerCase();
         return lcPath.endsWith(".md") || lcPath.endsWith(".markdown");
     }
+
+    export function canvas(path: string): boolean {
+        return path.toLowerCase().endsWith(".canvas");
+    }
 }
 
 /**
- * Caches in-use CSVs to make high-frequency reloads (such as actively looking at a document
- * that uses CSV) fast.
+ * Local cache of files loaded by data sources, either from the vault or over HTTP. Entries are dropped when the file they
+ * were loaded from (or a file they depend on) changes, and otherwise expire after {@link CACHE_EXPIRY_SECONDS}.
  */
-export class CsvCache extends Component {
+export abstract class DataSourceCache<T> extends Component {
     public static CACHE_EXPIRY_SECONDS: number = 5 * 60;
 
-    // Cache of loaded CSVs; old entries will periodically be removed
-    cache: Map<string, { data: DataObject[]; loadTime: DateTime }>;
-    // Periodic job which clears out the cache based on time.
-    cacheClearInterval: number;
+    // Cache of loaded files, keyed by path and load option; old entries will periodically be removed
+    cache: Map<string, { path: string; data: T; loadTime: DateTime }>;
 
     public constructor(public vault: Vault) {
         super();
 
         this.cache = new Map();
 
-        // Force-flush the cache on CSV file deletions or modifications.
-        this.registerEvent(
-            this.vault.on("modify", file => {
-                if (file instanceof TFile && PathFilters.csv(file.path)) this.cache.delete(file.path);
-            })
-        );
+        // Force-flush the cache on deletions or modifications of the loaded files (or the files they depend on).
+        this.registerEvent(this.vault.on("modify", file => this.invalidate(file)));
+        this.registerEvent(this.vault.on("delete", file => this.invalidate(file)));
+    }
 
-        this.registerEvent(
-            this.vault.on("delete", file => {
-                if (file instanceof TFile && PathFilters.csv(file.path)) this.cache.delete(file.path);
-            })
-        );
+    /** The path of the loaded file which depends on the file at the given path, if any. */
+    protected abstract loadedPath(path: string): string | undefined;
+
+    /** Parse the contents of the file at the given path; `option` is the option given to {@link get}. */
+    protected abstract parse(path: string, contents: string, option?: string): Promise<Result<T, string>>;
+
+    /** Remove every entry loaded from the file which depends on the given file from the cache. */
+    private invalidate(file: TAbstractFile) {
+        if (!(file instanceof TFile)) return;
+
+        let path = this.loadedPath(file.path);
+        if (path === undefined) return;
+
+        for (let [key, entry] of this.cache.entries()) if (entry.path == path) this.cache.delete(key);
     }
 
-    /** Load a CSV file from the cache, doing a fresh load if it has not been loaded. */
-    public async get(path: string): Promise<Result<DataObject[], string>> {
+    /** Load a file from the cache, doing a fresh load if it has not been loaded with the given option. */
+    public async get(path: string, option?: string): Promise<Result<T, string>> {
         // Clear old entries on every fresh load, since the path being loaded may be stale.
         this.clearOldEntries();
 
-        let existing = this.cache.get(path);
+        let key = JSON.stringify([path, option ?? null]);
+        let existing = this.cache.get(key);
         if (existing) return Result.success(existing.data);
         else {
-            let value = await this.loadInternal(path);
-            if (value.successful) this.cache.set(path, { data: value.value, loadTime: DateTime.now() });
+            let value = await this.loadInternal(path, option);
+            if (value.successful) this.cache.set(key, { path, data: value.value, loadTime: DateTime.now() });
             return value;
         }
     }
 
-    /** Do the actual raw loading of a CSV path (which is either local or an HTTP request). */
-    private async loadInternal(path: string): Promise<Result<DataObject[], string>> {
+    /** Do the actual raw loading of a path (which is either local or an HTTP request). */
+    private async loadInternal(path: string, option?: string): Promise<Result<T, string>> {
+        let contents;
+
         // Allow http://, https://, and file:// prefixes which use AJAX.
-        if (path.startsWith("http://") || path.startsWith("https://") || path.startsWith("file://")) {
+        if (isRemotePath(path)) {
             try {
                 let result = await fetch(path, {
                     method: "GET",
@@ -355,19 +588,20 @@ export class CsvCache extends Component {
                     redirect: "follow",
                 });
 
-                return Result.success(parseCsv(await result.text()));
+                contents = await result.text();
             } catch (ex) {
                 return Result.failure("" + ex + "\n\n" + ex.stack);
             }
+        } else {
+            // Otherwise, assume it is a fully-qualified file path.
+            try {
+                contents = await this.vault.adapter.read(path);
+            } catch (ex) {
+                return Result.failure(`Failed to load data from path '${path}'.`);
+            }
         }
 
-        // Otherwise, assume it is a fully-qualified file path.
-        try {
-            let fileData = await this.vault.adapter.read(path);
-            return Result.success(parseCsv(fileData));
-        } catch (ex) {
-            return Result.failure(`Failed to load data from path '${path}'.`);
-        }
+        return this.parse(path, contents, option);
     }
 
     /** Clear old entries in the cache (as measured by insertion time). */
@@ -376,13 +610,99 @@ export class CsvCache extends Component {
         let keysToRemove = new Set<string>();
         for (let [key, value] of this.cache.entries()) {
             let entryAge = Math.abs(currentTime.diff(value.loadTime, "seconds").seconds);
-            if (entryAge > CsvCache.CACHE_EXPIRY_SECONDS) keysToRemove.add(key);
+            if (entryAge > DataSourceCache.CACHE_EXPIRY_SECONDS) keysToRemove.add(key);
         }
 
         keysToRemove.forEach(key => this.cache.delete(key));
     }
 }
 
+/** Determine if the path is a URL which is fetched, rather than a path in the vault. */
+function isRemotePath(path: string): boolean {
+    return path.startsWith("http://") || path.startsWith("https://") || path.startsWith("file://");
+}
+
+/**
+ * Local cache of CSV files, parsed using their schema sidecar (if any). The load option is the delimiter between
+ * values, which overrides the delimiter of the schema. Values which do not match the type of their column do not fail
+ * the load; they are null in the rows, and listed in the errors of the result.
+ */
+export class CsvCache extends DataSourceCache<CsvParseResult> {
+    /** The maximum number of row errors reported for a single CSV. */
+    public static MAX_REPORTED_ERRORS: number = 10;
+
+    /** CSVs depend on themselves and their schema sidecar. */
+    protected loadedPath(path: string): string | undefined {
+        if (PathFilters.csv(path)) return path;
+        else if (path.endsWith(CSV_SCHEMA_SUFFIX)) return path.substring(0, path.length - CSV_SCHEMA_SUFFIX.length);
+        else return undefined;
+    }
+
+    protected async parse(path: string, contents: string, delimiter?: string): Promise<Result<CsvParseResult, string>> {
+        let schema = isRemotePath(path)
+            ? Result.success<CsvSchema, string>(CsvCache.defaultSchema(path))
+            : await this.loadSchema(path);
+        if (!schema.successful) return Result.failure(schema.error);
+
+        if (delimiter) schema.value.delimiter = delimiter;
+        return Result.success(parseCsv(contents, schema.value));
+    }
+
+    /** Load the schema sidecar for a CSV file in the vault, if there is one. */
+    private async loadSchema(path: string): Promise<Result<CsvSchema, string>> {
+        let schemaPath = path + CSV_SCHEMA_SUFFIX;
+        if (!(await this.vault.adapter.exists(schemaPath))) return Result.success(CsvCache.defaultSchema(path));
+
+        let schema;
+        try {
+            schema = validateCsvSchema(JSON.parse(await this.vault.adapter.read(schemaPath)));
+        } catch (ex) {
+            return Result.failure(`Failed to read CSV schema '${schemaPath}': ${ex}`);
+        }
+
+        if (typeof schema === "string") return Result.failure(`Invalid CSV schema '${schemaPath}': ${schema}.`);
+        return Result.success(Object.assign(CsvCache.defaultSchema(path), schema));
+    }
+
+    /** The schema used for CSVs without a schema sidecar; TSV files are tab-delimited. */
+    private static defaultSchema(path: string): CsvSchema {
+        return path.toLowerCase().endsWith(".tsv") ? { delimiter: "\t" } : {};
+    }
+
+    /** Describe the errors encountered while parsing a CSV, listing at most {@link MAX_REPORTED_ERRORS} of them. */
+    public static describeErrors(path: string, parsed: CsvParseResult): string[] {
+        let result = parsed.errors
+            .slice(0, CsvCache.MAX_REPORTED_ERRORS)
+            .map(
+                e =>
+                    `CSV '${path}', row ${e.row}${e.column !== undefined ? ` (column '${e.column}')` : ""}: ${
+                        e.message
+                    }`
+            );
+        if (parsed.errors.length > CsvCache.MAX_REPORTED_ERRORS)
+            result.push(`CSV '${path}': ... and ${parsed.errors.length - CsvCache.MAX_REPORTED_ERRORS} more errors.`);
+
+        return result;
+    }
+}
+
+/** Local cache of JSON and YAML files, converted to Dataview values. */
+export class DataFileCache extends DataSourceCache<Literal> {
+    protected loadedPath(path: string): string | undefined {
+        return PathFilters.json(path) || PathFilters.yaml(path) ? path : undefined;
+    }
+
+    protected async parse(path: string, contents: string): Promise<Result<Literal, string>> {
+        try {
+            return Result.success(
+                parseFrontmatter(PathFilters.yaml(path) ? parseYaml(contents) : JSON.parse(contents))
+            );
+        } catch (ex) {
+            return Result.failure(`Failed to parse '${path}': ${ex}`);
+        }
+    }
+}
+
 export type StarredEntry =
     | { type: "group"; items: StarredEntry[]; title: string }
     | { type: "file"; path: string; title: string }
@@ -477,6 +797,13 @@ export class IndexMap {
         return this.invMap.get(value) || IndexMap.EMPTY_SET;
     }
 
+    /** Returns all values which are referenced by at least one key. */
+    public values(): string[] {
+        return Array.from(this.invMap.entries())
+            .filter(([_, keys]) => keys.size > 0)
+            .map(([value, _]) => value);
+    }
+
     /** Sets the key to the given values; this will delete the old mapping for the key if one was present. */
     public set(key: string, values: Set<string>): this {
         if (!values.size) {
@@ -488,7 +815,7 @@ export class IndexMap {
         if (oldValues) {
             for (let value of oldValues) {
                 // Only delete the ones we're not adding back
-                if (!values.has(key)) this.invMap.get(value)?.delete(key);
+                if (!values.has(value)) this.invMap.get(value)?.delete(key);
             }
         }
         this.map.set(key, values);
@@ -522,6 +849,25 @@ export class IndexMap {
         return true;
     }
 
+    /** Rename all references to the given value (in every key that contains it) to a new value. */
+    public renameValue(oldValue: string, newValue: string): boolean {
+        let keys = this.invMap.get(oldValue);
+        if (!keys || keys.size == 0) return false;
+
+        this.invMap.delete(oldValue);
+        for (let key of keys) {
+            let values = this.map.get(key);
+            values?.delete(oldValue);
+            values?.add(newValue);
+        }
+
+        let existing = this.invMap.get(newValue);
+        if (existing) keys.forEach(k => existing?.add(k));
+        else this.invMap.set(newValue, keys);
+
+        return true;
+    }
+
     /** Clear the entire index. */
     public clear() {
         this.map.clear();
@@ -546,6 +892,11 @@ export class ValueCaseInsensitiveIndexMap {
         return this.delegate.getInverse(value.toLocaleLowerCase());
     }
 
+    /** Returns all (lower-cased) values which are referenced by at least one key. */
+    public values(): string[] {
+        return this.delegate.values();
+    }
+
     /** Sets the key to the given values; this will delete the old mapping for the key if one was present. */
     public set(key: string, values: Set<string>): this {
         this.delegate.set(key, new Set(Array.from(values).map(v => v.toLocaleLowerCase())));
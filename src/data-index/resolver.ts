@@ -1,18 +1,25 @@
 /** Collect data matching a source query. */
 
-import { FullIndex, PathFilters } from "data-index/index";
+import { CsvCache, FullIndex, IndexMap, PathFilters } from "data-index/index";
 import { Result } from "api/result";
 import { Source } from "./source";
+import { Dependencies } from "data-index/dependencies";
 import { DataObject, Link, Literal } from "../data-model/value";
+import { TFile } from "obsidian";
+import { selectDataRows } from "data-import/data-file";
 
 /** A data row which has an ID and associated data (like page link / page data). */
 export type Datarow<T> = { id: Literal; data: T };
 
-/** Find source paths which match the given source. */
+/**
+ * Find source paths which match the given source. Content sources are resolved using only the token index unless their
+ * verified matches (as computed by `resolveContentMatches`) are provided.
+ */
 export function matchingSourcePaths(
     source: Source,
     index: FullIndex,
-    originFile: string = ""
+    originFile: string = "",
+    contentMatches?: Map<string, Set<string>>
 ): Result<Set<string>, string> {
     switch (source.type) {
         case "empty":
@@ -20,11 +27,13 @@ export function matchingSourcePaths(
         case "tag":
             return Result.success(index.tags.getInverse(source.tag));
         case "csv":
+        case "json":
+        case "yaml":
             return Result.success(new Set<string>([index.prefix.resolveRelative(source.path, originFile)]));
         case "folder":
             // Prefer loading from the folder at the given path.
             if (index.prefix.nodeExists(source.folder))
-                return Result.success(index.prefix.get(source.folder, PathFilters.markdown));
+                return Result.success(index.prefix.get(source.folder, path => index.isPage(path)));
 
             // But allow for loading individual files if they exist.
             if (index.prefix.pathExists(source.folder)) return Result.success(new Set([source.folder]));
@@ -41,16 +50,8 @@ export function matchingSourcePaths(
             }
 
             if (source.direction === "incoming") {
-                // To find all incoming links (i.e., things that link to this), use the index that Obsidian provides.
-                // TODO: Use an actual index so this isn't a fullscan.
-                let resolved = index.metadataCache.resolvedLinks;
-                let incoming = new Set<string>();
-
-                for (let [key, value] of Object.entries(resolved)) {
-                    if (fullPath in value) incoming.add(key);
-                }
-
-                return Result.success(incoming);
+                // To find all incoming links (i.e., things that link to this), use the reverse link index.
+                return Result.success(new Set(index.links.getInverse(fullPath)));
             } else {
                 let resolved = index.metadataCache.resolvedLinks;
                 if (!(fullPath in resolved))
@@ -58,49 +59,353 @@ export function matchingSourcePaths(
 
                 return Result.success(new Set<string>(Object.keys(index.metadataCache.resolvedLinks[fullPath])));
             }
+        case "canvas":
+            let canvas = canvasPath(source.file, index, originFile);
+            if (!canvas) return Result.failure(`Could not find canvas '${source.file}'.`);
+
+            return Result.success(new Set(Array.from(index.links.get(canvas)).filter(PathFilters.markdown)));
+        case "content":
+            return contentRegex(source.pattern).map(
+                _ =>
+                    contentMatches?.get(source.pattern) ??
+                    contentCandidates(source.pattern, index.tokens) ??
+                    new Set(index.pages.keys())
+            );
+        case "binaryop":
+        case "negate":
+            return matchingPathSet(source, index, originFile, contentMatches).map(set =>
+                PathSets.materialize(set, index)
+            );
+    }
+}
+
+/**
+ * A set of paths which is either given explicitly, or as the complement of an explicit set (i.e., every page except
+ * for the given paths). Complements allow negated sources to be combined without enumerating the vault.
+ */
+export type PathSet = { type: "include"; paths: Set<string> } | { type: "exclude"; paths: Set<string> };
+
+/** Utility functions for combining path sets; none of these mutate their inputs. */
+export namespace PathSets {
+    /** A path set containing exactly the given paths. */
+    export function include(paths: Set<string>): PathSet {
+        return { type: "include", paths };
+    }
+
+    /** A path set containing every markdown file except for the given paths. */
+    export function exclude(paths: Set<string>): PathSet {
+        return { type: "exclude", paths };
+    }
+
+    /** The complement of the given path set. */
+    export function negate(set: PathSet): PathSet {
+        return { type: set.type == "include" ? "exclude" : "include", paths: set.paths };
+    }
+
+    /** The intersection of two path sets, which only ever iterates over explicit paths. */
+    export function and(left: PathSet, right: PathSet): PathSet {
+        if (left.type == "include" && right.type == "include") {
+            let [small, large] = left.paths.size <= right.paths.size ? [left, right] : [right, left];
+            return include(filter(small.paths, p => large.paths.has(p)));
+        } else if (left.type == "include") {
+            return include(filter(left.paths, p => !right.paths.has(p)));
+        } else if (right.type == "include") {
+            return include(filter(right.paths, p => !left.paths.has(p)));
+        } else {
+            return exclude(union(left.paths, right.paths));
+        }
+    }
+
+    /** The union of two path sets, which only ever iterates over explicit paths. */
+    export function or(left: PathSet, right: PathSet): PathSet {
+        if (left.type == "include" && right.type == "include") {
+            return include(union(left.paths, right.paths));
+        } else if (left.type == "include") {
+            return exclude(filter(right.paths, p => !left.paths.has(p)));
+        } else if (right.type == "include") {
+            return exclude(filter(left.paths, p => !right.paths.has(p)));
+        } else {
+            return exclude(filter(left.paths, p => right.paths.has(p)));
+        }
+    }
+
+    /** Convert a path set into the explicit set of paths it contains. */
+    export function materialize(set: PathSet, index: FullIndex): Set<string> {
+        if (set.type == "include") return set.paths;
+
+        let result = new Set<string>();
+        for (let file of index.vault.getFiles()) {
+            if (index.isPage(file.path) && !set.paths.has(file.path)) result.add(file.path);
+        }
+
+        return result;
+    }
+
+    function filter(paths: Set<string>, predicate: (path: string) => boolean): Set<string> {
+        let result = new Set<string>();
+        for (let path of paths) if (predicate(path)) result.add(path);
+        return result;
+    }
+
+    function union(left: Set<string>, right: Set<string>): Set<string> {
+        let result = new Set(left);
+        for (let path of right) result.add(path);
+        return result;
+    }
+}
+
+/** Resolve a link to a canvas, which may omit the '.canvas' extension, to the path of the canvas file. */
+export function canvasPath(file: string, index: FullIndex, originFile: string = ""): string | undefined {
+    let linkpath = PathFilters.canvas(file) ? file : file + ".canvas";
+    return index.metadataCache.getFirstLinkpathDest(linkpath, originFile)?.path;
+}
+
+/** Find the paths matching the given source as a path set, keeping negated sources as lazy complements. */
+function matchingPathSet(
+    source: Source,
+    index: FullIndex,
+    originFile: string,
+    contentMatches?: Map<string, Set<string>>
+): Result<PathSet, string> {
+    switch (source.type) {
         case "binaryop":
             return Result.flatMap2(
-                matchingSourcePaths(source.left, index, originFile),
-                matchingSourcePaths(source.right, index, originFile),
+                matchingPathSet(source.left, index, originFile, contentMatches),
+                matchingPathSet(source.right, index, originFile, contentMatches),
                 (left, right) => {
-                    if (source.op == "&") {
-                        let result = new Set<string>();
-                        for (let elem of right) {
-                            if (left.has(elem)) result.add(elem);
-                        }
-
-                        return Result.success(result);
-                    } else if (source.op == "|") {
-                        let result = new Set(left);
-                        for (let elem of right) result.add(elem);
-                        return Result.success(result);
-                    } else {
-                        return Result.failure(`Unrecognized operator '${source.op}'.`);
-                    }
+                    if (source.op == "&") return Result.success(PathSets.and(left, right));
+                    else if (source.op == "|") return Result.success(PathSets.or(left, right));
+                    else return Result.failure(`Unrecognized operator '${source.op}'.`);
                 }
             );
         case "negate":
-            return matchingSourcePaths(source.child, index, originFile).map(child => {
-                // TODO: This is obviously very inefficient. Can be improved by complicating the
-                // return type of this function & optimizing 'and' / 'or'.
-                let allFiles = new Set<string>(index.vault.getMarkdownFiles().map(f => f.path));
-                child.forEach(f => allFiles.delete(f));
-                return allFiles;
-            });
+            return matchingPathSet(source.child, index, originFile, contentMatches).map(PathSets.negate);
+        default:
+            return matchingSourcePaths(source, index, originFile, contentMatches).map(PathSets.include);
     }
 }
 
-/** Convert a path to the data for that path; usually markdown pages, but could also be other file types (like CSV).  */
-export async function resolvePathData(path: string, index: FullIndex): Promise<Result<Datarow<DataObject>[], string>> {
-    if (PathFilters.csv(path)) return resolveCsvData(path, index);
-    else return resolveMarkdownData(path, index);
+/**
+ * Find source paths which match the given source, verifying content sources against the actual page text. The source
+ * and the matching paths are recorded in `dependencies`, if given.
+ */
+export async function resolveSourcePaths(
+    source: Source,
+    index: FullIndex,
+    originFile: string = "",
+    dependencies?: Dependencies
+): Promise<Result<Set<string>, string>> {
+    let contentMatches = await resolveContentMatches(source, index);
+    if (!contentMatches.successful) return Result.failure(contentMatches.error);
+
+    let paths = matchingSourcePaths(source, index, originFile, contentMatches.value);
+    if (paths.successful) dependencies?.source(source, originFile, paths.value);
+    return paths;
+}
+
+/** Compile a content source pattern into a case-insensitive regular expression. */
+function contentRegex(pattern: string): Result<RegExp, string> {
+    try {
+        return Result.success(new RegExp(pattern, "i"));
+    } catch (ex) {
+        return Result.failure(`Invalid regular expression in content("${pattern}"): ${ex}`);
+    }
+}
+
+/** Characters which give a content pattern a regex meaning beyond its literal text. */
+const REGEX_SYNTAX = /[.*+?^${}()|[\]\\]/;
+/** Matches the words of a content pattern, mirroring how page text is split into tokens. */
+const WORD_REGEX = /[\p{Letter}\p{Number}_]+/gu;
+
+/**
+ * Use the token index to find all pages which may contain a match for the given content pattern. Every word of the
+ * pattern must appear in a page; only the first and last words may be partial tokens, since a match can start or end
+ * in the middle of a word. Returns undefined if the pattern cannot be narrowed down (because it uses regex syntax or
+ * has no words), in which case every page is a candidate.
+ */
+export function contentCandidates(pattern: string, tokens: IndexMap): Set<string> | undefined {
+    if (REGEX_SYNTAX.test(pattern)) return undefined;
+
+    let words = pattern.toLocaleLowerCase().match(WORD_REGEX);
+    if (!words) return undefined;
+
+    let openStart = /^[\p{Letter}\p{Number}_]/u.test(pattern);
+    let openEnd = /[\p{Letter}\p{Number}_]$/u.test(pattern);
+
+    let result: Set<string> | undefined = undefined;
+    for (let i = 0; i < words.length; i++) {
+        let word = words[i];
+        let partialStart = i == 0 && openStart;
+        let partialEnd = i == words.length - 1 && openEnd;
+
+        let pages = new Set<string>();
+        if (!partialStart && !partialEnd) {
+            tokens.getInverse(word).forEach(p => pages.add(p));
+        } else {
+            for (let [token, paths] of tokens.invMap.entries()) {
+                let matches =
+                    partialStart && partialEnd
+                        ? token.includes(word)
+                        : partialStart
+                        ? token.endsWith(word)
+                        : token.startsWith(word);
+                if (matches) paths.forEach(p => pages.add(p));
+            }
+        }
+
+        let current: Set<string> | undefined = result;
+        result = current ? new Set(Array.from(pages).filter(p => current!.has(p))) : pages;
+    }
+
+    return result;
+}
+
+/**
+ * Find the pages which actually match every content source in the given source, by narrowing them down using the token
+ * index and then searching the text of each remaining page. Returns a map of content pattern -> matching paths.
+ */
+export async function resolveContentMatches(
+    source: Source,
+    index: FullIndex
+): Promise<Result<Map<string, Set<string>>, string>> {
+    let patterns = new Set<string>();
+    const collect = (source: Source) => {
+        if (source.type == "content") patterns.add(source.pattern);
+        else if (source.type == "negate") collect(source.child);
+        else if (source.type == "binaryop") {
+            collect(source.left);
+            collect(source.right);
+        }
+    };
+    collect(source);
+
+    let result = new Map<string, Set<string>>();
+    for (let pattern of patterns) {
+        let regex = contentRegex(pattern);
+        if (!regex.successful) return Result.failure(regex.error);
+
+        // Without candidates from the token index, search every markdown page (the files which the token index covers).
+        let candidates =
+            contentCandidates(pattern, index.tokens) ?? Array.from(index.pages.keys()).filter(PathFilters.markdown);
+
+        let matches = new Set<string>();
+        for (let path of candidates) {
+            let file = index.vault.getAbstractFileByPath(path);
+            if (!(file instanceof TFile)) continue;
+
+            if (regex.value.test(await index.vault.cachedRead(file))) matches.add(path);
+        }
+
+        result.set(pattern, matches);
+    }
+
+    return Result.success(result);
+}
+
+/** The arguments given to a data file source besides the path: the pointer of JSON and YAML sources, or a delimiter. */
+export interface DataFileOptions {
+    pointer?: string;
+    delimiter?: string;
+}
+
+/**
+ * Convert a path to the data for that path; usually markdown pages, but could also be other file types (like CSV). Data
+ * files are loaded once for every entry of `options` (e.g., once per JSON pointer), and the rows of every load are
+ * concatenated. Problems which do not stop the rows from loading (like CSV values which do not match their column type)
+ * are added to `warnings`, if given.
+ */
+export async function resolvePathData(
+    path: string,
+    index: FullIndex,
+    options: DataFileOptions[] = [{}],
+    warnings?: string[]
+): Promise<Result<Datarow<DataObject>[], string>> {
+    if (!PathFilters.csv(path) && !PathFilters.json(path) && !PathFilters.yaml(path))
+        return resolveMarkdownData(path, index);
+
+    let result: Datarow<DataObject>[] = [];
+    for (let option of options) {
+        let rows = PathFilters.csv(path)
+            ? await resolveCsvData(path, index, option.delimiter, warnings)
+            : await resolveDataFileData(path, index, option.pointer);
+        if (!rows.successful) return rows;
+
+        result.push(...rows.value);
+    }
+
+    return Result.success(result);
+}
+
+/**
+ * Find the distinct options given to the data file sources in the given source, keyed by the resolved file path. A file
+ * which is named by several sources (like `json("a.json", "/x") or json("a.json", "/y")`) has one entry per source.
+ */
+export function dataFileOptions(
+    source: Source,
+    index: FullIndex,
+    originFile: string = ""
+): Map<string, DataFileOptions[]> {
+    let result = new Map<string, DataFileOptions[]>();
+    const add = (path: string, options: DataFileOptions) => {
+        let resolved = index.prefix.resolveRelative(path, originFile);
+        let existing = result.get(resolved) ?? [];
+        if (!existing.some(other => other.pointer === options.pointer && other.delimiter === options.delimiter))
+            existing.push(options);
+
+        result.set(resolved, existing);
+    };
+
+    const visit = (source: Source) => {
+        if (source.type == "json" || source.type == "yaml") add(source.path, { pointer: source.pointer });
+        else if (source.type == "csv") add(source.path, { delimiter: source.delimiter });
+        else if (source.type == "negate") visit(source.child);
+        else if (source.type == "binaryop") {
+            visit(source.left);
+            visit(source.right);
+        }
+    };
+
+    visit(source);
+    return result;
+}
+
+/**
+ * Convert a JSON or YAML path to the rows in the file (in dataview format). Rows selected by a pointer have the pointer
+ * in their ID, so that rows from several pointers into the same file stay distinct.
+ */
+export async function resolveDataFileData(
+    path: string,
+    index: FullIndex,
+    pointer?: string
+): Promise<Result<Datarow<DataObject>[], string>> {
+    let rawData = await index.dataFiles.get(path);
+    if (!rawData.successful) return Result.failure(rawData.error);
+
+    return selectDataRows(rawData.value, pointer)
+        .map(rows =>
+            rows.map((row, rowIndex) => ({
+                id: pointer === undefined ? `${path}#${rowIndex}` : `${path}#${pointer}#${rowIndex}`,
+                data: row,
+            }))
+        )
+        .mapErr(error => `Failed to read rows from '${path}': ${error}`);
 }
 
 // TODO: We shouldn't be doing path normalization here relative to an origin file,
-/** Convert a CSV path to the data in the CSV (in dataview format). */
-export async function resolveCsvData(path: string, index: FullIndex): Promise<Result<Datarow<DataObject>[], string>> {
-    let rawData = await index.csv.get(path);
-    return rawData.map(rows => {
+/**
+ * Convert a CSV path to the data in the CSV (in dataview format). Values which could not be parsed are null, and are
+ * described in `warnings`, if given.
+ */
+export async function resolveCsvData(
+    path: string,
+    index: FullIndex,
+    delimiter?: string,
+    warnings?: string[]
+): Promise<Result<Datarow<DataObject>[], string>> {
+    let rawData = await index.csv.get(path, delimiter);
+    if (rawData.successful) warnings?.push(...CsvCache.describeErrors(path, rawData.value));
+
+    return rawData.map(({ rows }) => {
         return rows.map((row, index) => {
             return {
                 id: `${path}#${index}`,
@@ -112,13 +417,13 @@ export async function resolveCsvData(path: string, index: FullIndex): Promise<Re
 
 /** Convert a path pointing to a markdown page, into the associated metadata. */
 export function resolveMarkdownData(path: string, index: FullIndex): Result<Datarow<DataObject>[], string> {
-    let page = index.pages.get(path);
+    let page = index.serializedPage(path);
     if (!page) return Result.success([]);
 
     return Result.success([
         {
             id: Link.file(path),
-            data: page.serialize(index),
+            data: page,
         },
     ]);
 }
@@ -127,14 +432,16 @@ export function resolveMarkdownData(path: string, index: FullIndex): Result<Data
 export async function resolveSource(
     source: Source,
     index: FullIndex,
-    originFile: string = ""
+    originFile: string = "",
+    dependencies?: Dependencies
 ): Promise<Result<Datarow<DataObject>[], string>> {
-    let paths = matchingSourcePaths(source, index, originFile);
+    let paths = await resolveSourcePaths(source, index, originFile, dependencies);
     if (!paths.successful) return Result.failure(paths.error);
 
+    let options = dataFileOptions(source, index, originFile);
     let result = [];
     for (let path of paths.value) {
-        let resolved = await resolvePathData(path, index);
+        let resolved = await resolvePathData(path, index, options.get(path));
         if (!resolved.successful) return resolved;
 
         for (let val of resolved.value) result.push(val);
@@ -1,7 +1,18 @@
 /** AST implementation for queries over data sources. */
 
 /** The source of files for a query. */
-export type Source = TagSource | CsvSource | FolderSource | LinkSource | EmptySource | NegatedSource | BinaryOpSource;
+export type Source =
+    | TagSource
+    | CsvSource
+    | JsonSource
+    | YamlSource
+    | FolderSource
+    | LinkSource
+    | CanvasSource
+    | ContentSource
+    | EmptySource
+    | NegatedSource
+    | BinaryOpSource;
 /** Valid operations for combining sources. */
 export type SourceOp = "&" | "|";
 
@@ -17,6 +28,26 @@ export interface CsvSource {
     type: "csv";
     /** The path to the CSV file. */
     path: string;
+    /** The delimiter between values; overrides the delimiter of the schema sidecar, if there is one. */
+    delimiter?: string;
+}
+
+/** A JSON file as a source of data; the rows are the elements of an array in the file. */
+export interface JsonSource {
+    type: "json";
+    /** The path to the JSON file. */
+    path: string;
+    /** A JSON pointer (`/books`) or dotted path (`library.books`) to the array of rows. Defaults to the whole file. */
+    pointer?: string;
+}
+
+/** A YAML file as a source of data; the rows are the elements of a list in the file. */
+export interface YamlSource {
+    type: "yaml";
+    /** The path to the YAML file. */
+    path: string;
+    /** A JSON pointer (`/books`) or dotted path (`library.books`) to the list of rows. Defaults to the whole file. */
+    pointer?: string;
 }
 
 /** A folder prefix as a source of data. */
@@ -38,6 +69,20 @@ export interface LinkSource {
     direction: "incoming" | "outgoing";
 }
 
+/** All pages placed (as file cards) on a given canvas. */
+export interface CanvasSource {
+    type: "canvas";
+    /** The canvas file to look for pages on. */
+    file: string;
+}
+
+/** All pages whose text contains a match for a (case-insensitive) regular expression. */
+export interface ContentSource {
+    type: "content";
+    /** The regular expression to search page text for. */
+    pattern: string;
+}
+
 /** A source which is everything EXCEPT the files returned by the given source. */
 export interface NegatedSource {
     type: "negate";
@@ -65,9 +110,19 @@ export namespace Sources {
         return { type: "tag", tag };
     }
 
-    /** Create a source which fetches from a CSV file. */
-    export function csv(path: string): CsvSource {
-        return { type: "csv", path };
+    /** Create a source which fetches from a CSV file, optionally with the given delimiter between values. */
+    export function csv(path: string, delimiter?: string): CsvSource {
+        return delimiter === undefined ? { type: "csv", path } : { type: "csv", path, delimiter };
+    }
+
+    /** Create a source which fetches rows from a JSON file, optionally from the array at the given pointer. */
+    export function json(path: string, pointer?: string): JsonSource {
+        return pointer === undefined ? { type: "json", path } : { type: "json", path, pointer };
+    }
+
+    /** Create a source which fetches rows from a YAML file, optionally from the list at the given pointer. */
+    export function yaml(path: string, pointer?: string): YamlSource {
+        return pointer === undefined ? { type: "yaml", path } : { type: "yaml", path, pointer };
     }
 
     /** Create a source which searches for files under a folder prefix. */
@@ -80,6 +135,16 @@ export namespace Sources {
         return { type: "link", file, direction: incoming ? "incoming" : "outgoing" };
     }
 
+    /** Create a source which finds all pages placed on the given canvas. */
+    export function canvas(file: string): CanvasSource {
+        return { type: "canvas", file };
+    }
+
+    /** Create a source which searches the text of pages for the given regular expression. */
+    export function content(pattern: string): ContentSource {
+        return { type: "content", pattern };
+    }
+
     /** Create a source which joins two sources by a logical operator (and/or). */
     export function binaryOp(left: Source, op: SourceOp, right: Source): Source {
         return { type: "binaryop", left, op, right };
@@ -0,0 +1,38 @@
+/** Data types for the cards and edges of Obsidian canvas files. */
+import { Link } from "data-model/value";
+
+/** A single card on a canvas - a note of text, an embedded file, a web page, or a group of other cards. */
+export type CanvasCard = {
+    /** The canvas-internal ID of this card, which edges refer to. */
+    id: string;
+    type: "text" | "file" | "link" | "group";
+    /** The text of a text card. */
+    text?: string;
+    /** The file embedded by a file card. */
+    file?: Link;
+    /** The address of the web page embedded by a link card. */
+    url?: string;
+    /** The label of a group card. */
+    label?: string;
+    /** The color of this card; either a hex color like '#ff0000', or a number for one of the preset colors. */
+    color?: string;
+    /** The position and size of this card on the canvas. */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+/** An arrow between two cards on a canvas. */
+export type CanvasEdge = {
+    /** The canvas-internal ID of this edge. */
+    id: string;
+    /** The ID of the card this edge starts at. */
+    from: string;
+    /** The ID of the card this edge points to. */
+    to: string;
+    /** The text shown on this edge, if any. */
+    label?: string;
+    /** The color of this edge, in the same format as card colors. */
+    color?: string;
+};
@@ -3,7 +3,8 @@ import { DateTime } from "luxon";
 import type { FullIndex } from "data-index/index";
 import { Literal, Link, Values } from "data-model/value";
 import { DataObject } from "index";
-import { SListItem, SMarkdownPage } from "data-model/serialized/markdown";
+import { SListItem, SMarkdownPage, SSection } from "data-model/serialized/markdown";
+import { CanvasCard, CanvasEdge } from "data-model/canvas";
 import { Pos } from "obsidian";
 
 /** All extracted markdown file metadata obtained from a file. */
@@ -30,8 +31,22 @@ export class PageMetadata {
     public links: Link[];
     /** All list items contained within this page. Filter for tasks to get just tasks. */
     public lists: ListItem[];
+    /** All heading sections in this page, in the order they appear. */
+    public sections: Section[];
     /** The raw frontmatter for this document. */
     public frontmatter: Record<string, Literal>;
+    /** All distinct lower-cased word tokens in this file; used for full-text content searches. */
+    public tokens: Set<string>;
+    /** The cards on this canvas; only present for canvas files. */
+    public cards?: CanvasCard[];
+    /** The edges between cards on this canvas; only present for canvas files. */
+    public edges?: CanvasEdge[];
+    /** The width of an image in pixels; only present for image attachments. */
+    public width?: number;
+    /** The height of an image in pixels; only present for image attachments. */
+    public height?: number;
+    /** The number of pages in a PDF; only present for PDF attachments. */
+    public pageCount?: number;
 
     public constructor(path: string, init?: Partial<PageMetadata>) {
         this.path = path;
@@ -40,10 +55,12 @@ export class PageMetadata {
         this.tags = new Set<string>();
         this.aliases = new Set<string>();
         this.links = [];
+        this.tokens = new Set<string>();
 
         Object.assign(this, init);
 
         this.lists = (this.lists || []).map(l => new ListItem(l));
+        this.sections = (this.sections || []).map(s => new Section(s));
     }
 
     /** Canonicalize raw links and other data in partial data with normalizers, returning a completed object. */
@@ -75,6 +92,19 @@ export class PageMetadata {
             }
         }
 
+        if (data.sections) {
+            for (let section of data.sections) {
+                for (let [key, value] of section.fields.entries()) {
+                    section.fields.set(
+                        key,
+                        value.map(x => Values.mapLeaves(x, t => (Values.isLink(t) ? linkNormalizer(t) : t)))
+                    );
+                }
+
+                section.links = section.links.map(l => linkNormalizer(l));
+            }
+        }
+
         if (data.links) {
             data.links = data.links.map(l => linkNormalizer(l));
         }
@@ -120,36 +150,57 @@ export class PageMetadata {
 
     /** Map this metadata to a full object; uses the index for additional data lookups.  */
     public serialize(index: FullIndex, cache?: ListSerializationCache): SMarkdownPage {
-        // Convert list items via the canonicalization cache.
-        let realCache = cache ?? new ListSerializationCache(this.lists);
-
-        let result: any = {
-            file: {
-                path: this.path,
-                folder: this.folder(),
-                name: this.name(),
-                link: Link.file(this.path),
-                outlinks: this.fileLinks(),
-                inlinks: Array.from(index.links.getInverse(this.path)).map(l => Link.file(l)),
-                etags: Array.from(this.tags),
-                tags: Array.from(this.fullTags()),
-                aliases: Array.from(this.aliases),
-                lists: this.lists.map(l => realCache.get(l.line)),
-                tasks: this.lists.filter(l => !!l.task).map(l => realCache.get(l.line)),
-                ctime: this.ctime,
-                cday: stripTime(this.ctime),
-                mtime: this.mtime,
-                mday: stripTime(this.mtime),
-                size: this.size,
-                starred: index.starred.starred(this.path),
-                frontmatter: Values.deepCopy(this.frontmatter),
-                ext: this.extension(),
-            },
+        // Convert list items via the canonicalization cache; it is only created once list items are first accessed.
+        let realCache = cache;
+        const listCache = () => (realCache = realCache ?? new ListSerializationCache(this.lists));
+
+        // Members which are expensive to compute are only computed when they are first read.
+        let file: Record<string, Literal> = {
+            path: this.path,
+            folder: this.folder(),
+            name: this.name(),
+            link: Link.file(this.path),
         };
+        lazyProperty(file, "outlinks", () => this.fileLinks());
+        lazyProperty(file, "inlinks", () => Array.from(index.links.getInverse(this.path)).map(l => Link.file(l)));
+        lazyProperty(file, "etags", () => Array.from(this.tags));
+        lazyProperty(file, "tags", () => Array.from(this.fullTags()));
+        lazyProperty(file, "aliases", () => Array.from(this.aliases));
+        lazyProperty(file, "lists", () => this.lists.map(l => listCache().get(l.line)) as Literal[]);
+        lazyProperty(
+            file,
+            "tasks",
+            () => this.lists.filter(l => !!l.task).map(l => listCache().get(l.line)) as Literal[]
+        );
+        lazyProperty(file, "sections", () => this.sections.map(s => s.serialize(listCache())) as Literal[]);
+        file.ctime = this.ctime;
+        file.cday = stripTime(this.ctime);
+        file.mtime = this.mtime;
+        file.mday = stripTime(this.mtime);
+        file.size = this.size;
+        lazyProperty(file, "starred", () => index.starred.starred(this.path));
+        lazyProperty(file, "frontmatter", () => Values.deepCopy(this.frontmatter));
+        file.ext = this.extension();
+
+        let result: any = { file };
 
         // Add the current day if present.
         if (this.day) result.file.day = this.day;
 
+        // Canvases also have their cards and edges.
+        const cards = this.cards;
+        if (cards) lazyProperty(file, "cards", () => Values.deepCopy(cards));
+        const edges = this.edges;
+        if (edges) lazyProperty(file, "edges", () => Values.deepCopy(edges));
+
+        // The changes of every field over time, if field history is recorded.
+        if (index.history?.enabled) lazyProperty(file, "history", () => index.history.get(this.path));
+
+        // Attachments may have their dimensions or page count.
+        if (this.width !== undefined) file.width = this.width;
+        if (this.height !== undefined) file.height = this.height;
+        if (this.pageCount !== undefined) file.pages = this.pageCount;
+
         // Then append the computed fields.
         for (let [key, value] of this.fields.entries()) {
             if (key in result) continue; // Don't allow fields to override existing keys.
@@ -301,10 +352,82 @@ export class ListItem {
     }
 }
 
+/** A heading and everything below it, up to the next heading of the same or a higher level. */
+export class Section {
+    /** The text of the heading. */
+    heading: string;
+    /** The level of the heading, from 1 ('#') to 6 ('######'). */
+    level: number;
+    /** A link to this section. */
+    link: Link;
+    /** The line that the heading is on. */
+    line: number;
+    /** The number of lines in this section, including the heading and any subsections. */
+    lineCount: number;
+    /** The markdown text below the heading, up to the first subsection. */
+    text: string;
+    /** All of the tags in this section. */
+    tags: Set<string>;
+    /** All of the links in this section. */
+    links: Link[];
+    /** The line numbers of all list items in this section. */
+    lists: number[];
+    /** All of the inline fields in this section, including those on list items. */
+    fields: Map<string, Literal[]>;
+
+    public constructor(init?: Partial<Section>) {
+        Object.assign(this, init);
+
+        this.fields = this.fields || new Map();
+        this.tags = this.tags || new Set();
+        this.links = this.links || [];
+        this.lists = this.lists || [];
+    }
+
+    /** Create an API-friendly copy of this section; list items are shared with the page via the provided cache. */
+    public serialize(cache: ListSerializationCache): SSection {
+        let result: DataObject = {
+            heading: this.heading,
+            level: this.level,
+            link: this.link,
+            path: this.link.path,
+            line: this.line,
+            lineCount: this.lineCount,
+            text: this.text,
+            tags: Array.from(this.tags),
+            outlinks: Array.from(this.links),
+            lists: this.lists.map(l => cache.get(l)).filter((l): l is SListItem => l !== undefined),
+        };
+
+        addFields(this.fields, result);
+        return result as SSection;
+    }
+}
+
 //////////////////////////////////////////
 // Conversion / Serialization Utilities //
 //////////////////////////////////////////
 
+/**
+ * Define an enumerable property which is computed the first time it is read, after which it behaves like a normal
+ * property holding the computed value.
+ */
+function lazyProperty(object: Record<string, Literal>, key: string, compute: () => Literal) {
+    const store = (value: Literal) =>
+        Object.defineProperty(object, key, { value, enumerable: true, configurable: true, writable: true });
+
+    Object.defineProperty(object, key, {
+        enumerable: true,
+        configurable: true,
+        get: () => {
+            let value = compute();
+            store(value);
+            return value;
+        },
+        set: store,
+    });
+}
+
 /** De-duplicates list items across section metadata and page metadata. */
 export class ListSerializationCache {
     public listItems: Record<number, ListItem>;
@@ -1,6 +1,7 @@
 /** Serialized / API facing data types for Dataview objects. */
 
 import { Link, Literal } from "data-model/value";
+import { CanvasCard, CanvasEdge } from "data-model/canvas";
 import { DateTime } from "luxon";
 import { Pos } from "obsidian";
 
@@ -17,6 +18,7 @@ export interface SMarkdownPage {
         aliases: string[];
         lists: SListItem[];
         tasks: STask[];
+        sections: SSection[];
         ctime: DateTime;
         cday: DateTime;
         mtime: DateTime;
@@ -26,12 +28,55 @@ export interface SMarkdownPage {
         starred: boolean;
 
         day?: DateTime;
+        /** The cards on a canvas, for canvas files. */
+        cards?: CanvasCard[];
+        /** The edges between cards on a canvas, for canvas files. */
+        edges?: CanvasEdge[];
+        /** The width of an image in pixels, for image attachments. */
+        width?: number;
+        /** The height of an image in pixels, for image attachments. */
+        height?: number;
+        /** The number of pages in a PDF, for PDF attachments. */
+        pages?: number;
+        /** Maps fields to the days their value changed and the new values, if field history is recorded. */
+        history?: Record<string, { date: DateTime; value: Literal }[]>;
     };
 
     /** Additional fields added by field data. */
     [key: string]: any;
 }
 
+//////////////////////
+// <-- Sections --> //
+//////////////////////
+
+/** A serialized heading section: a heading and everything below it, up to the next heading of the same or higher level. */
+export interface SSection {
+    /** The text of the heading. */
+    heading: string;
+    /** The level of the heading, from 1 ('#') to 6 ('######'). */
+    level: number;
+    /** A link to this section. */
+    link: Link;
+    /** The path of the file that contains this section. */
+    path: string;
+    /** The line that the heading is on. */
+    line: number;
+    /** The number of lines in this section, including the heading and any subsections. */
+    lineCount: number;
+    /** The markdown text below the heading, up to the first subsection. */
+    text: string;
+    /** Any tags present in this section. */
+    tags: string[];
+    /** Links contained inside this section. */
+    outlinks: Link[];
+    /** All list items in this section. */
+    lists: SListItem[];
+
+    /** Additional fields added by inline fields in this section. */
+    [key: string]: any;
+}
+
 ////////////////////////
 // <-- List Items --> //
 ////////////////////////
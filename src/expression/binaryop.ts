@@ -86,6 +86,16 @@ export class BinaryOpHandler {
         return Result.failure(`No implementation found for '${leftType} ${op} ${rightType}'`);
     }
 
+    /** Whether the binary operator is implemented for the two types, including through '*' fallbacks. */
+    public supports(op: BinaryOp, left: LiteralType, right: LiteralType): boolean {
+        return (
+            this.map.has(BinaryOpHandler.repr(op, left, right)) ||
+            this.map.has(BinaryOpHandler.repr(op, left, "*")) ||
+            this.map.has(BinaryOpHandler.repr(op, "*", right)) ||
+            this.map.has(BinaryOpHandler.repr(op, "*", "*"))
+        );
+    }
+
     /** Create a string representation of the given triplet for unique lookup in the map. */
     public static repr(op: BinaryOp, left: LiteralTypeOrAll, right: LiteralTypeOrAll) {
         return `${left},${op},${right}`;
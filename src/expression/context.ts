@@ -121,6 +121,8 @@ export class Context {
                 } catch (e) {
                     return Result.failure(e.message);
                 }
+            case "subquery":
+                return Result.failure("Subqueries can only be used inside of queries");
             case "index":
                 // TODO: Will move this out to an 'primitives' module and add more content to it.
                 let literalIndex = this.evaluate(field.index, data);
@@ -1,5 +1,6 @@
 /** Defines the AST for a field which can be evaluated. */
 import { Literal } from "data-model/value";
+import type { Query } from "query/query";
 
 /** Comparison operators which yield true/false. */
 export type CompareOp = ">" | ">=" | "<=" | "<" | "=" | "!=";
@@ -17,7 +18,8 @@ export type Field =
     | NegatedField
     | LambdaField
     | ObjectField
-    | ListField;
+    | ListField
+    | SubqueryField;
 
 /** Literal representation of some field type. */
 export interface LiteralField {
@@ -84,6 +86,13 @@ export interface NegatedField {
     child: Field;
 }
 
+/** A full query whose results are used as a value, like `(LIST FROM #tag)`. Only usable inside of queries. */
+export interface SubqueryField {
+    type: "subquery";
+    /** The query to execute. */
+    query: Query;
+}
+
 /** Utility methods for creating & comparing fields. */
 export namespace Fields {
     export function variable(name: string): VariableField {
@@ -133,6 +142,39 @@ export namespace Fields {
         return { type: "negated", child };
     }
 
+    export function subquery(query: Query): SubqueryField {
+        return { type: "subquery", query };
+    }
+
+    /** Rebuild a field bottom-up, replacing every node (including the field itself) with the result of `func`. */
+    export function map(field: Field, func: (field: Field) => Field): Field {
+        switch (field.type) {
+            case "binaryop":
+                return func(Fields.binaryOp(map(field.left, func), field.op, map(field.right, func)));
+            case "function":
+                return func(
+                    Fields.func(
+                        map(field.func, func),
+                        field.arguments.map(arg => map(arg, func))
+                    )
+                );
+            case "index":
+                return func(Fields.index(map(field.object, func), map(field.index, func)));
+            case "negated":
+                return func(Fields.negate(map(field.child, func)));
+            case "lambda":
+                return func(Fields.lambda(field.arguments, map(field.value, func)));
+            case "list":
+                return func(Fields.list(field.values.map(value => map(value, func))));
+            case "object":
+                let values: Record<string, Field> = {};
+                for (let [key, value] of Object.entries(field.values)) values[key] = map(value, func);
+                return func(Fields.object(values));
+            default:
+                return func(field);
+        }
+    }
+
     export function isCompareOp(op: BinaryOp): op is CompareOp {
         return op == "<=" || op == "<" || op == ">" || op == ">=" || op == "!=" || op == "=";
     }
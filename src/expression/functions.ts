@@ -7,7 +7,7 @@ import { LiteralReprAll, LiteralTypeOrAll } from "./binaryop";
 import { Context } from "./context";
 import { Fields } from "./field";
 import { EXPRESSION } from "./parse";
-import { escapeRegex, normalizeMarkdown } from "util/normalize";
+import { canonicalizeVarName, escapeRegex, normalizeMarkdown } from "util/normalize";
 import { DataArray } from "api/data-array";
 import { cyrb53 } from "util/hash";
 
@@ -149,10 +149,22 @@ export class FunctionBuilder {
             throw Error(`No implementation of '${this.name}' found for arguments: ${types.join(", ")}`);
         };
 
-        return self;
+        return Functions.describe(self, { name: this.name, variants: this.variants, vectorized: this.vectorized });
     }
 }
 
+/** The arguments a function accepts, which allows checking calls to it without running it. */
+export interface FunctionSignature {
+    name: string;
+    /** The accepted argument types of each variant of the function. */
+    variants: { args: LiteralTypeOrAll[]; varargs: boolean }[];
+    /** Maps number of arguments -> the positions at which arrays are mapped over, element by element. */
+    vectorized: Record<number, number[]>;
+}
+
+/** Signatures of all described functions. */
+const SIGNATURES: WeakMap<FunctionImpl, FunctionSignature> = new WeakMap();
+
 /** Utilities for managing function implementations. */
 export namespace Functions {
     /** Bind a context to a function implementation, yielding a function which does not need the context argument. */
@@ -169,6 +181,33 @@ export namespace Functions {
 
         return result;
     }
+
+    /**
+     * Bind a context to the functions in the given map as they are read, so that functions added to (or removed from)
+     * the map later on are reflected in the result.
+     */
+    export function bindLive(funcs: Record<string, FunctionImpl>, context: Context): Record<string, BoundFunctionImpl> {
+        return new Proxy({} as Record<string, BoundFunctionImpl>, {
+            get: (_, key) => (typeof key == "string" && key in funcs ? Functions.bind(funcs[key], context) : undefined),
+            has: (_, key) => key in funcs,
+            ownKeys: () => Reflect.ownKeys(funcs),
+            getOwnPropertyDescriptor: (_, key) =>
+                typeof key == "string" && key in funcs
+                    ? { value: Functions.bind(funcs[key], context), enumerable: true, configurable: true }
+                    : undefined,
+        });
+    }
+
+    /** Record the signature of a function implementation, returning the implementation. */
+    export function describe(func: FunctionImpl, signature: FunctionSignature): FunctionImpl {
+        SIGNATURES.set(func, signature);
+        return func;
+    }
+
+    /** The signature of a function implementation, if it was built by a function builder or otherwise described. */
+    export function signature(func: FunctionImpl): FunctionSignature | undefined {
+        return SIGNATURES.get(func);
+    }
 }
 
 /**
@@ -853,6 +892,26 @@ export namespace DefaultFunctions {
         }))
         .build();
 
+    /** Gets the days a field of a page changed on, along with the new values; requires field history to be enabled. */
+    export const history: FunctionImpl = new FunctionBuilder("history")
+        .add2("link", "string", (link, field, context) => {
+            let page = context.linkHandler.resolve(link.path);
+            return page ? fieldHistory(page, field) : null;
+        })
+        .add2("object", "string", (page, field) => fieldHistory(page, field))
+        .add2("null", "*", () => null)
+        .build();
+
+    /** Find the changes of a field in the field history of a page, or null if there is no field history. */
+    function fieldHistory(page: Record<string, Literal>, field: string): Literal {
+        let file = page["file"];
+        let changes = Values.isObject(file) ? (file as Record<string, Literal>)["history"] : undefined;
+        if (!Values.isObject(changes)) return null;
+
+        let fields = changes as Record<string, Literal>;
+        return fields[field] ?? fields[canonicalizeVarName(field)] ?? [];
+    }
+
     // Concatenates sub-array elements into a new array
     export const flat = new FunctionBuilder("flat")
         .add1("array", a => {
@@ -969,4 +1028,57 @@ export const DEFAULT_FUNCTIONS: Record<string, FunctionImpl> = {
     localtime: DefaultFunctions.localtime,
     hash: DefaultFunctions.hash,
     meta: DefaultFunctions.meta,
+    history: DefaultFunctions.history,
 };
+
+/**
+ * The functions available to expressions: the default functions, plus functions registered by users. Registered
+ * functions are grouped by their owner (like the file they were defined in), so that they can be replaced all at once.
+ */
+export class FunctionRegistry {
+    /** All available functions by name. Updated in place, so contexts created earlier also see new functions. */
+    public readonly all: Record<string, FunctionImpl>;
+    /** Maps owner -> the names of the functions registered by that owner. */
+    private owners: Map<string, string[]>;
+
+    public constructor(public builtins: Record<string, FunctionImpl> = DEFAULT_FUNCTIONS) {
+        this.all = Object.assign({}, builtins);
+        this.owners = new Map();
+    }
+
+    /**
+     * Replace all functions registered by the given owner. Functions whose name collides with a default function or a
+     * function of another owner are not registered; an error is returned for each of them.
+     */
+    public register(owner: string, functions: Record<string, FunctionImpl>): string[] {
+        this.unregister(owner);
+
+        let errors: string[] = [],
+            names: string[] = [];
+        for (let [name, impl] of Object.entries(functions)) {
+            let existing = this.owner(name);
+            if (existing === null) errors.push(`'${name}' is a builtin function and cannot be redefined`);
+            else if (existing !== undefined) errors.push(`'${name}' is already defined by ${existing}`);
+            else {
+                this.all[name] = impl;
+                names.push(name);
+            }
+        }
+
+        this.owners.set(owner, names);
+        return errors;
+    }
+
+    /** Remove all functions registered by the given owner. */
+    public unregister(owner: string) {
+        for (let name of this.owners.get(owner) ?? []) delete this.all[name];
+        this.owners.delete(owner);
+    }
+
+    /** The owner of the function with the given name; null for default functions and undefined if it does not exist. */
+    public owner(name: string): string | null | undefined {
+        if (name in this.builtins) return null;
+        for (let [owner, names] of this.owners.entries()) if (names.includes(name)) return owner;
+        return undefined;
+    }
+}
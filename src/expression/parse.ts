@@ -1,11 +1,35 @@
 import { DateTime, Duration } from "luxon";
 import { Literal, Link } from "data-model/value";
 import * as P from "parsimmon";
-import { BinaryOp, Field, Fields, LambdaField, ListField, LiteralField, ObjectField, VariableField } from "./field";
-import { FolderSource, NegatedSource, Source, SourceOp, Sources, TagSource, CsvSource } from "data-index/source";
+import {
+    BinaryOp,
+    Field,
+    Fields,
+    LambdaField,
+    ListField,
+    LiteralField,
+    ObjectField,
+    SubqueryField,
+    VariableField,
+} from "./field";
+import {
+    FolderSource,
+    NegatedSource,
+    Source,
+    SourceOp,
+    Sources,
+    TagSource,
+    CsvSource,
+    CanvasSource,
+    JsonSource,
+    YamlSource,
+    ContentSource,
+} from "data-index/source";
 import { normalizeDuration } from "util/normalize";
 import { Result } from "api/result";
 import emojiRegex from "emoji-regex";
+import { QUERY_LANGUAGE } from "query/parse";
+import type { Query } from "query/query";
 
 /** Emoji regex without any additional flags. */
 const EMOJI_REGEX = new RegExp(emojiRegex(), "");
@@ -121,6 +145,20 @@ export function createBinaryParser<T, U>(
     });
 }
 
+/**
+ * Parse a data file source like `json("path")` or `json("path", "/pointer")` into its path and optional second argument
+ * (the pointer, or the delimiter for CSV files).
+ */
+function dataFileSource(name: string, str: P.Parser<string>): P.Parser<[string, string | undefined]> {
+    return P.seqMap(
+        P.string(name + "(").skip(P.optWhitespace),
+        str,
+        P.string(",").trim(P.optWhitespace).then(str).atMost(1),
+        P.optWhitespace.then(P.string(")")),
+        (_1, path, pointer, _2) => [path, pointer[0]]
+    );
+}
+
 export function chainOpt<T>(base: P.Parser<T>, ...funcs: ((r: T) => P.Parser<T>)[]): P.Parser<T> {
     return P.custom((success, failure) => {
         return (input, i) => {
@@ -173,6 +211,10 @@ export interface ExpressionLanguage {
     // Source-related parsers.
     tagSource: TagSource;
     csvSource: CsvSource;
+    jsonSource: JsonSource;
+    canvasSource: CanvasSource;
+    yamlSource: YamlSource;
+    contentSource: ContentSource;
     folderSource: FolderSource;
     parensSource: Source;
     atomSource: Source;
@@ -216,10 +258,11 @@ export interface ExpressionLanguage {
     binaryBooleanField: Field;
     binaryOpField: Field;
     parensField: Field;
+    subqueryField: SubqueryField;
     field: Field;
 }
 
-export const EXPRESSION = P.createLanguage<ExpressionLanguage>({
+export const EXPRESSION: P.TypedLanguage<ExpressionLanguage> = P.createLanguage<ExpressionLanguage>({
     // A floating point number; the decimal point is optional.
     number: q =>
         P.regexp(/-?[0-9]+(\.[0-9]+)?/)
@@ -383,13 +426,24 @@ export const EXPRESSION = P.createLanguage<ExpressionLanguage>({
 
     // Source parsing.
     tagSource: q => q.tag.map(tag => Sources.tag(tag)),
+    // Strings keep unknown escapes as-is, so '\t' is translated to make tab-delimited files easy to describe.
     csvSource: q =>
-        P.seqMap(P.string("csv(").skip(P.optWhitespace), q.string, P.string(")"), (_1, path, _2) => Sources.csv(path)),
+        dataFileSource("csv", q.string).map(([path, delimiter]) => Sources.csv(path, delimiter?.replace(/\\t/g, "\t"))),
+    jsonSource: q => dataFileSource("json", q.string).map(([path, pointer]) => Sources.json(path, pointer)),
+    yamlSource: q => dataFileSource("yaml", q.string).map(([path, pointer]) => Sources.yaml(path, pointer)),
+    contentSource: q =>
+        P.seqMap(P.string("content(").skip(P.optWhitespace), q.string, P.string(")"), (_1, pattern, _2) =>
+            Sources.content(pattern)
+        ),
     linkIncomingSource: q => q.link.map(link => Sources.link(link.path, true)),
     linkOutgoingSource: q =>
         P.seqMap(P.string("outgoing(").skip(P.optWhitespace), q.link, P.string(")"), (_1, link, _2) =>
             Sources.link(link.path, false)
         ),
+    canvasSource: q =>
+        P.seqMap(P.string("canvas(").skip(P.optWhitespace), q.link, P.string(")"), (_1, link, _2) =>
+            Sources.canvas(link.path)
+        ),
     folderSource: q => q.string.map(str => Sources.folder(str)),
     parensSource: q =>
         P.seqMap(
@@ -407,10 +461,14 @@ export const EXPRESSION = P.createLanguage<ExpressionLanguage>({
             q.parensSource,
             q.negateSource,
             q.linkOutgoingSource,
+            q.canvasSource,
             q.linkIncomingSource,
             q.folderSource,
             q.tagSource,
-            q.csvSource
+            q.csvSource,
+            q.jsonSource,
+            q.yamlSource,
+            q.contentSource
         ),
     binaryOpSource: q =>
         createBinaryParser(
@@ -503,6 +561,7 @@ export const EXPRESSION = P.createLanguage<ExpressionLanguage>({
             q.objectField,
             q.lambdaField,
             q.parensField,
+            q.subqueryField,
             q.boolField,
             q.numberField,
             q.stringField,
@@ -540,6 +599,16 @@ export const EXPRESSION = P.createLanguage<ExpressionLanguage>({
             P.string(")"),
             (_1, _2, field, _3, _4) => field
         ),
+    // Resolved lazily, since the query language is itself built on top of expressions.
+    subqueryField: q =>
+        P.seqMap(
+            P.string("("),
+            P.optWhitespace,
+            P.lazy<Query>(() => QUERY_LANGUAGE.query),
+            P.optWhitespace,
+            P.string(")"),
+            (_1, _2, query, _3, _4) => Fields.subquery(query)
+        ).desc("subquery"),
     lambdaField: q =>
         P.seqMap(
             q.identifier
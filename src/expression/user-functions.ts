@@ -0,0 +1,232 @@
+/** Functions defined by users in a file in their vault, which are available in every query and expression. */
+import type { DataviewApi } from "api/plugin-api";
+import { Literal } from "data-model/value";
+import { Context } from "expression/context";
+import { Field } from "expression/field";
+import { LiteralTypeOrAll } from "expression/binaryop";
+import { FunctionImpl, FunctionRegistry, Functions } from "expression/functions";
+import { EXPRESSION } from "expression/parse";
+import { App, Component, debounce, Notice, TAbstractFile, TFile } from "obsidian";
+import * as P from "parsimmon";
+import { DataviewSettings } from "settings";
+
+/** A function defined in DQL, like `define overdue(t) = !t.completed AND t.due < date(today)`. */
+export interface FunctionDefinition {
+    /** The name the function is called by. */
+    name: string;
+    /** The names of the arguments of the function. */
+    arguments: string[];
+    /** The expression the function evaluates to. */
+    body: Field;
+    /** The line the definition starts on. */
+    line: number;
+}
+
+/** A codeblock of JavaScript which returns an object of functions. */
+export interface FunctionScript {
+    /** The code in the block. */
+    source: string;
+    /** The line of the opening fence of the block. */
+    line: number;
+}
+
+/** All functions declared in a single file, along with any errors in their declarations. */
+export interface FunctionFile {
+    definitions: FunctionDefinition[];
+    scripts: FunctionScript[];
+    errors: string[];
+}
+
+/** The language of codeblocks which contain JavaScript functions. */
+export const SCRIPT_LANGUAGES = ["js", "javascript"];
+
+/** Parses a single definition of the form `define name(arg1, arg2) = expression`. */
+export const DEFINITION = P.seqMap(
+    P.regexp(/define\s+/i),
+    EXPRESSION.identifier,
+    EXPRESSION.identifier
+        .sepBy(P.string(",").trim(P.optWhitespace))
+        .wrap(P.string("(").trim(P.optWhitespace), P.string(")").trim(P.optWhitespace)),
+    P.string("=").trim(P.optWhitespace),
+    EXPRESSION.field,
+    (_1, name, args, _2, body) => ({ name, arguments: args, body })
+).skip(P.optWhitespace);
+
+/**
+ * Find all functions declared in the text of a file. Definitions start with `define` at the beginning of a line and
+ * continue on indented lines below; JavaScript functions are returned from `js` codeblocks. All other text is ignored.
+ */
+export function parseFunctionFile(text: string): FunctionFile {
+    let result: FunctionFile = { definitions: [], scripts: [], errors: [] };
+    let lines = text.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+        let fence = /^\s*(```+|~~~+)\s*(\S*)/.exec(lines[index]);
+        if (fence) {
+            let start = index;
+            while (++index < lines.length && lines[index].trim() != fence[1]);
+
+            if (SCRIPT_LANGUAGES.includes(fence[2].toLowerCase()))
+                result.scripts.push({ source: lines.slice(start + 1, index).join("\n"), line: start });
+            continue;
+        }
+
+        if (!/^define\s/i.test(lines[index])) continue;
+
+        let start = index;
+        while (index + 1 < lines.length && /^\s+\S/.test(lines[index + 1])) index++;
+
+        let parsed = DEFINITION.parse(lines.slice(start, index + 1).join("\n"));
+        if (!parsed.status) {
+            result.errors.push(`Line ${start + 1}: invalid definition (expected ${parsed.expected.join(", ")}).`);
+            continue;
+        }
+
+        let definition = { ...parsed.value, line: start };
+        if (result.definitions.some(d => d.name == definition.name))
+            result.errors.push(`Line ${start + 1}: '${definition.name}' is already defined in this file.`);
+        else result.definitions.push(definition);
+    }
+
+    return result;
+}
+
+/** Create the implementation of a DQL function definition; the body is evaluated with the arguments as variables. */
+export function definitionImpl(definition: FunctionDefinition): FunctionImpl {
+    let impl: FunctionImpl = (context: Context, ...args: Literal[]) => {
+        if (args.length != definition.arguments.length)
+            throw Error(
+                `${definition.name}() takes ${definition.arguments.length} argument(s), but got ${args.length}`
+            );
+
+        let variables: Record<string, Literal> = {};
+        definition.arguments.forEach((name, index) => (variables[name] = args[index]));
+        return context.evaluate(definition.body, variables).orElseThrow(e => `${definition.name}(): ${e}`);
+    };
+
+    let args = definition.arguments.map((): LiteralTypeOrAll => "*");
+    return Functions.describe(impl, { name: definition.name, variants: [{ args, varargs: false }], vectorized: {} });
+}
+
+/**
+ * Run a JavaScript function script with the dataview API as `dv`, returning the functions in the object it returns.
+ * Functions are called with their arguments only, and not with the evaluation context.
+ */
+export function scriptImpls(script: FunctionScript, api: DataviewApi): Record<string, FunctionImpl> {
+    let exported = new Function("dv", "dataview", script.source)(api, api);
+    if (typeof exported !== "object" || exported === null)
+        throw Error("the codeblock must return an object of functions, like 'return { double: x => 2 * x };'");
+
+    let result: Record<string, FunctionImpl> = {};
+    for (let [name, func] of Object.entries(exported)) {
+        if (typeof func !== "function") throw Error(`'${name}' is not a function`);
+
+        let impl = func as (...args: Literal[]) => Literal;
+        result[name] = (_context: Context, ...args: Literal[]) => impl(...args) ?? null;
+    }
+
+    return result;
+}
+
+/**
+ * Loads user-defined functions from the configured file (or all markdown files in the configured folder) into the
+ * function registry, and reloads them whenever those files change.
+ */
+export class UserFunctionLoader extends Component {
+    /** The errors of the last load, by file. */
+    public errors: Map<string, string[]>;
+    /** Reload all functions after a short delay, so that bursts of changes only cause a single reload. */
+    public requestReload: () => void;
+    /** The files functions are currently loaded from. */
+    private loaded: Set<string>;
+
+    public constructor(
+        public app: App,
+        public registry: FunctionRegistry,
+        public settings: DataviewSettings,
+        public api: DataviewApi,
+        public onChange: () => void
+    ) {
+        super();
+
+        this.errors = new Map();
+        this.loaded = new Set();
+        this.requestReload = debounce(() => this.reload(), 500, true);
+    }
+
+    onload() {
+        const onFile = (file: TAbstractFile, oldPath?: string) => {
+            if (this.includes(file.path) || (oldPath && this.includes(oldPath))) this.requestReload();
+        };
+
+        this.registerEvent(this.app.vault.on("create", file => onFile(file)));
+        this.registerEvent(this.app.vault.on("modify", file => onFile(file)));
+        this.registerEvent(this.app.vault.on("delete", file => onFile(file)));
+        this.registerEvent(this.app.vault.on("rename", (file, oldPath) => onFile(file, oldPath)));
+
+        this.app.workspace.onLayoutReady(() => this.reload());
+    }
+
+    onunload() {
+        for (let path of this.loaded) this.registry.unregister(path);
+        this.loaded.clear();
+    }
+
+    /** Whether functions are loaded from the file at the given path. */
+    public includes(path: string): boolean {
+        let root = this.settings.functionsPath.replace(/\/+$/, "");
+        if (!root || !path.toLowerCase().endsWith(".md")) return false;
+
+        return path == root || path.startsWith(root + "/");
+    }
+
+    /** Load the functions in all function files again, replacing the previously loaded functions. */
+    public async reload() {
+        let files = this.app.vault.getMarkdownFiles().filter(file => this.includes(file.path));
+        for (let path of this.loaded) {
+            if (!files.some(file => file.path == path)) this.registry.unregister(path);
+        }
+
+        this.loaded.clear();
+        this.errors.clear();
+        for (let file of files) {
+            let errors = await this.loadFile(file);
+            this.loaded.add(file.path);
+            if (errors.length > 0) this.errors.set(file.path, errors);
+        }
+
+        for (let [path, errors] of this.errors.entries()) {
+            console.warn(`Dataview: Errors in the functions defined in '${path}':\n${errors.join("\n")}`);
+            new Notice(`Dataview: Errors in the functions defined in '${path}':\n${errors.join("\n")}`);
+        }
+
+        this.onChange();
+    }
+
+    /** Load the functions in the given file into the registry, returning any errors. */
+    private async loadFile(file: TFile): Promise<string[]> {
+        let parsed = parseFunctionFile(await this.app.vault.cachedRead(file));
+        let errors = parsed.errors;
+
+        let functions: Record<string, FunctionImpl> = {};
+        for (let definition of parsed.definitions) functions[definition.name] = definitionImpl(definition);
+
+        for (let script of parsed.scripts) {
+            if (!this.settings.enableDataviewJs) {
+                errors.push(`Line ${script.line + 1}: JavaScript functions require DataviewJS to be enabled.`);
+                continue;
+            }
+
+            try {
+                for (let [name, impl] of Object.entries(scriptImpls(script, this.api))) {
+                    if (name in functions) errors.push(`Line ${script.line + 1}: '${name}' is already defined.`);
+                    else functions[name] = impl;
+                }
+            } catch (error) {
+                errors.push(`Line ${script.line + 1}: ${error.message ?? error}`);
+            }
+        }
+
+        return errors.concat(this.registry.register(file.path, functions).map(e => e + "."));
+    }
+}
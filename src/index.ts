@@ -16,6 +16,17 @@ export type {
 } from "data-model/value";
 
 export type { Result, Success, Failure } from "api/result";
+export type {
+    Extension,
+    ExtensionRenderContext,
+    CustomResult,
+    QueryTypeParser,
+    QueryTypeRenderer,
+    WidgetRenderer,
+} from "api/extensions";
+export type { FunctionImpl, FunctionSignature } from "expression/functions";
+export type { QueryWarning } from "query/analyzer";
+export type { Context } from "expression/context";
 export type { DataArray } from "api/data-array";
 
 // Dataview Index.
@@ -2,8 +2,10 @@ import {
     App,
     Component,
     debounce,
+    Editor,
     MarkdownPostProcessorContext,
     MarkdownView,
+    Notice,
     Plugin,
     PluginSettingTab,
     Setting,
@@ -27,7 +29,13 @@ import {
     workspaceLayoutChangeEffect,
 } from "./ui/views/inline-field-live-preview";
 import { DataviewInit } from "ui/markdown";
+import { ExportResultsModal } from "ui/export/export-modal";
+import { dataviewBlockAt, materializeEditor, materializeFile, MATERIALIZED_START } from "ui/materialize";
+import { UserFunctionLoader } from "expression/user-functions";
 import { inlinePlugin } from "./ui/lp-render";
+import { queryCompletion } from "ui/query-completion";
+import { queryMode } from "ui/query-highlight";
+import { queryLint } from "ui/query-lint";
 import { Extension } from "@codemirror/state";
 
 export default class DataviewPlugin extends Plugin {
@@ -38,6 +46,8 @@ export default class DataviewPlugin extends Plugin {
     public index: FullIndex;
     /** External-facing plugin API. */
     public api: DataviewApi;
+    /** Loads the functions users define in their vault. */
+    public functions: UserFunctionLoader;
 
     /** CodeMirror 6 extensions that dataview installs. Tracked via array to allow for dynamic updates. */
     private cmExtension: Extension[];
@@ -52,6 +62,8 @@ export default class DataviewPlugin extends Plugin {
                 if (this.settings.refreshEnabled) this.debouncedRefresh();
             })
         );
+        this.index.indexAttachments = this.settings.indexAttachments;
+        this.index.history.enabled = this.settings.fieldHistory;
 
         // Set up automatic (intelligent) view refreshing that debounces.
         this.updateRefreshSettings();
@@ -59,6 +71,11 @@ export default class DataviewPlugin extends Plugin {
         // From this point onwards the dataview API is fully functional (even if the index needs to do some background indexing).
         this.api = new DataviewApi(this.app, this.index, this.settings, this.manifest.version);
 
+        // User-defined functions, which are reloaded whenever the files they are defined in change.
+        this.functions = this.addChild(
+            new UserFunctionLoader(this.app, this.index.functions, this.settings, this.api, () => this.index.touch())
+        );
+
         // Register API to global window object.
         (window["DataviewAPI"] = this.api) && this.register(() => delete window["DataviewAPI"]);
 
@@ -110,7 +127,7 @@ export default class DataviewPlugin extends Plugin {
             id: "dataview-force-refresh-views",
             name: "Force refresh all views and blocks",
             callback: () => {
-                this.index.revision += 1;
+                this.index.touch();
                 this.app.workspace.trigger("dataview:refresh-views");
             },
         });
@@ -123,6 +140,36 @@ export default class DataviewPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: "dataview-export-results",
+            name: "Export results of the query under the cursor…",
+            editorCheckCallback: (checking, editor, view) => {
+                const block = dataviewBlockAt(editor.getValue().split("\n"), editor.getCursor().line);
+                if (block === undefined) return false;
+
+                if (!checking) new ExportResultsModal(this.app, this.api, block.source, view.file?.path ?? "").open();
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "dataview-materialize",
+            name: "Materialize the query under the cursor into the note",
+            editorCheckCallback: (checking, editor, view) => {
+                const file = view.file;
+                if (!file) return false;
+
+                if (!checking) this.materialize(editor, file.path);
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "dataview-refresh-materialized",
+            name: "Refresh all materialized queries",
+            callback: () => this.refreshMaterialized(),
+        });
+
         interface WorkspaceLeafRebuild extends WorkspaceLeaf {
             rebuildView(): void;
         }
@@ -164,6 +211,11 @@ export default class DataviewPlugin extends Plugin {
 
         this.registerDataviewjsCodeHighlighting();
         this.register(() => this.unregisterDataviewjsCodeHighlighting());
+
+        window.CodeMirror.defineMode("dataview", queryMode);
+        this.register(() =>
+            window.CodeMirror.defineMode("dataview", config => window.CodeMirror.getMode(config, "null"))
+        );
     }
 
     public registerDataviewjsCodeHighlighting(): void {
@@ -220,6 +272,10 @@ export default class DataviewPlugin extends Plugin {
         if (this.settings.prettyRenderInlineFieldsInLivePreview) {
             this.cmExtension.push(inlineFieldsField, replaceInlineFieldsInLivePreview(this.app, this.settings));
         }
+        // editor extension for completing queries in dataview codeblocks
+        this.cmExtension.push(queryCompletion(this.index));
+        // editor extension for underlining parse errors in dataview codeblocks
+        this.cmExtension.push(queryLint);
         this.app.workspace.updateOptions();
     }
 
@@ -302,6 +358,35 @@ export default class DataviewPlugin extends Plugin {
         }
     }
 
+    /** Write the results of the query under the cursor of an editor on the given file below it, as a static snapshot. */
+    public async materialize(editor: Editor, path: string) {
+        const result = await materializeEditor(
+            editor,
+            source => this.api.queryMarkdown(source, path),
+            editor.getCursor().line
+        );
+        if (!result.successful) new Notice(`Dataview: ${result.error}`);
+    }
+
+    /** Re-run every materialized query in the vault, replacing the snapshots of their results. */
+    public async refreshMaterialized() {
+        let updated = 0;
+        const failures: string[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const text = await this.app.vault.cachedRead(file);
+            if (!text.includes(MATERIALIZED_START)) continue;
+
+            const result = await materializeFile(this.app.vault, file, source =>
+                this.api.queryMarkdown(source, file.path)
+            );
+            if (result.successful) updated += result.value;
+            else failures.push(`${file.path}: ${result.error}`);
+        }
+
+        new Notice(`Dataview: Refreshed ${updated} materialized queries.`);
+        for (const failure of failures) new Notice(`Dataview: ${failure}`);
+    }
+
     /** Update plugin settings. */
     async updateSettings(settings: Partial<DataviewSettings>) {
         Object.assign(this.settings, settings);
@@ -345,9 +430,11 @@ class GeneralSettingsTab extends PluginSettingTab {
             .setName("Enable JavaScript queries")
             .setDesc("Enable or disable executing DataviewJS queries.")
             .addToggle(toggle =>
-                toggle
-                    .setValue(this.plugin.settings.enableDataviewJs)
-                    .onChange(async value => await this.plugin.updateSettings({ enableDataviewJs: value }))
+                toggle.setValue(this.plugin.settings.enableDataviewJs).onChange(async value => {
+                    await this.plugin.updateSettings({ enableDataviewJs: value });
+                    // JavaScript functions are only loaded while JavaScript queries are enabled.
+                    this.plugin.functions.requestReload();
+                })
             );
 
         new Setting(this.containerEl)
@@ -380,6 +467,48 @@ class GeneralSettingsTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(this.containerEl)
+            .setName("Index attachments")
+            .setDesc(
+                "If enabled, images, PDFs, audio and video files are indexed as pages, so they show up in queries " +
+                    "with their file metadata (including image dimensions and PDF page counts)."
+            )
+            .addToggle(toggle =>
+                toggle.setValue(this.plugin.settings.indexAttachments).onChange(async value => {
+                    await this.plugin.updateSettings({ indexAttachments: value });
+                    await this.plugin.index.setIndexAttachments(value);
+                })
+            );
+
+        new Setting(this.containerEl)
+            .setName("Record field history")
+            .setDesc(
+                "If enabled, a daily snapshot of the fields of every page is saved, so that changes to fields can be " +
+                    "queried through 'file.history' and the 'history()' function."
+            )
+            .addToggle(toggle =>
+                toggle.setValue(this.plugin.settings.fieldHistory).onChange(async value => {
+                    await this.plugin.updateSettings({ fieldHistory: value });
+                    await this.plugin.index.setFieldHistory(value);
+                })
+            );
+
+        new Setting(this.containerEl)
+            .setName("Functions file")
+            .setDesc(
+                "The markdown file (or folder of markdown files) which defines your own functions, with lines like " +
+                    "'define overdue(t) = !t.completed AND t.due < date(today)'. Functions are reloaded on every change."
+            )
+            .addText(text =>
+                text
+                    .setPlaceholder("dataview-functions.md")
+                    .setValue(this.plugin.settings.functionsPath)
+                    .onChange(async value => {
+                        await this.plugin.updateSettings({ functionsPath: value.trim() });
+                        this.plugin.functions.requestReload();
+                    })
+            );
+
         new Setting(this.containerEl).setName("Codeblocks").setHeading();
 
         new Setting(this.containerEl)
@@ -458,6 +587,19 @@ class GeneralSettingsTab extends PluginSettingTab {
                 })
             );
 
+        new Setting(this.containerEl)
+            .setName("Warn on type errors")
+            .setDesc(
+                "If set, queries are checked for likely mistakes - unknown functions, calls with the wrong " +
+                    "number of arguments, and operations on fields of the wrong type - which are shown above the results."
+            )
+            .addToggle(toggle =>
+                toggle.setValue(this.plugin.settings.warnOnTypeErrors).onChange(async value => {
+                    await this.plugin.updateSettings({ warnOnTypeErrors: value });
+                    this.plugin.index.touch();
+                })
+            );
+
         new Setting(this.containerEl)
             .setName("Render null as")
             .setDesc("What null/non-existent should show up as in tables, by default. This supports Markdown notation.")
@@ -0,0 +1,343 @@
+/**
+ * Static checking of queries: finds calls to unknown functions, calls with the wrong number of arguments and operations
+ * on values of the wrong type, using the types that fields have in a sample of the pages the query runs on.
+ */
+import { Literal, LiteralType, Values } from "data-model/value";
+import { BinaryOpHandler, createBinaryOps, LiteralTypeOrAll } from "expression/binaryop";
+import { BinaryOp, Field } from "expression/field";
+import { FunctionImpl, Functions } from "expression/functions";
+import { groupFields, NamedField, Query } from "query/query";
+
+/** Maps field names (with nested fields in dot notation, like 'file.name') -> the types the field was seen with. */
+export type FieldProfile = Map<string, Set<LiteralType>>;
+
+/** The maximum number of pages sampled when profiling the fields of a query source. */
+export const MAX_PROFILED_PAGES = 200;
+/** How deep nested objects are profiled; 2 covers fields like 'file.name'. */
+const MAX_PROFILE_DEPTH = 2;
+
+/** A likely mistake in a query, found without running it. */
+export interface QueryWarning {
+    /** The function or operation the warning is about, like 'date()' or '+'. */
+    subject: string;
+    message: string;
+}
+
+/** Record the types of all fields of the given rows (usually pages) in a profile. */
+export function profileFields(rows: Record<string, Literal>[], profile: FieldProfile = new Map()): FieldProfile {
+    const visit = (prefix: string, object: Record<string, Literal>, depth: number) => {
+        for (let [key, value] of Object.entries(object)) {
+            let name = prefix + key;
+            let type = Values.typeOf(value);
+            if (!type) continue;
+
+            if (!profile.has(name)) profile.set(name, new Set());
+            profile.get(name)!.add(type);
+
+            if (type == "object" && depth + 1 < MAX_PROFILE_DEPTH)
+                visit(name + ".", value as Record<string, Literal>, depth + 1);
+        }
+    };
+
+    for (let row of rows) visit("", row, 0);
+    return profile;
+}
+
+/**
+ * The types returned by default functions, where they do not depend on the argument types. Vectorized functions return
+ * lists when given lists, which is accounted for separately.
+ */
+const RETURN_TYPES: Record<string, LiteralType> = {
+    object: "object",
+    list: "array",
+    array: "array",
+    date: "date",
+    dur: "duration",
+    number: "number",
+    string: "string",
+    link: "link",
+    embed: "link",
+    elink: "widget",
+    typeof: "string",
+    round: "number",
+    trunc: "number",
+    floor: "number",
+    ceil: "number",
+    contains: "boolean",
+    icontains: "boolean",
+    econtains: "boolean",
+    containsword: "boolean",
+    extract: "object",
+    sort: "array",
+    reverse: "array",
+    length: "number",
+    nonnull: "array",
+    all: "boolean",
+    any: "boolean",
+    none: "boolean",
+    join: "string",
+    filter: "array",
+    map: "array",
+    flat: "array",
+    slice: "array",
+    unique: "array",
+    regextest: "boolean",
+    regexmatch: "boolean",
+    regexreplace: "string",
+    replace: "string",
+    lower: "string",
+    upper: "string",
+    split: "array",
+    startswith: "boolean",
+    endswith: "boolean",
+    padleft: "string",
+    padright: "string",
+    substring: "string",
+    truncate: "string",
+    display: "string",
+    striptime: "date",
+    dateformat: "string",
+    durationformat: "string",
+    currencyformat: "string",
+    localtime: "date",
+    hash: "number",
+    meta: "object",
+    history: "array",
+};
+
+/** The types which arithmetic on values of the given types results in, where it is unambiguous. */
+function arithmeticType(op: BinaryOp, left: LiteralType, right: LiteralType): LiteralType | undefined {
+    if (left == "string" || (right == "string" && op == "+")) return "string";
+    else if (left == "number" && right == "number") return "number";
+    else if (left == "date" && right == "date" && op == "-") return "duration";
+    else if (left == "date" || right == "date") return "date";
+    else if (left == "duration" || right == "duration") return "duration";
+    else if (left == "array" && right == "array") return "array";
+    else if (left == "object" && right == "object") return "object";
+    return undefined;
+}
+
+/** The possible types of a value; undefined if they are unknown (in which case anything goes). */
+type Inferred = LiteralType[] | undefined;
+
+/** Walks expressions, inferring their types and collecting warnings. */
+export class Analyzer {
+    public warnings: QueryWarning[];
+    /** Names which are in scope but have no known type, like lambda arguments. */
+    private locals: Set<string>;
+    private binaryOps: BinaryOpHandler;
+
+    public constructor(
+        /** The types of the fields of the rows the expressions are evaluated on. */
+        public profile: FieldProfile,
+        /** All functions which can be called. */
+        public functions: Record<string, FunctionImpl>
+    ) {
+        this.warnings = [];
+        this.locals = new Set();
+        this.binaryOps = createBinaryOps(path => path);
+    }
+
+    /** Infer the possible types of an expression, recording warnings about any likely mistakes in it. */
+    public infer(field: Field): Inferred {
+        switch (field.type) {
+            case "literal":
+                return known(Values.typeOf(field.value));
+            case "variable":
+                if (this.locals.has(field.name)) return undefined;
+                if (field.name == "this" || field.name == "row") return ["object"];
+                return this.fieldTypes(field.name);
+            case "negated":
+                this.infer(field.child);
+                return ["boolean"];
+            case "list":
+                field.values.forEach(value => this.infer(value));
+                return ["array"];
+            case "object":
+                Object.values(field.values).forEach(value => this.infer(value));
+                return ["object"];
+            case "lambda":
+                let shadowed = field.arguments.filter(arg => !this.locals.has(arg));
+                shadowed.forEach(arg => this.locals.add(arg));
+                this.infer(field.value);
+                shadowed.forEach(arg => this.locals.delete(arg));
+                return ["function"];
+            case "subquery":
+                return ["array"];
+            case "index":
+                this.infer(field.index);
+                let path = fieldPath(field);
+                if (path !== undefined && !this.locals.has(path.split(".")[0])) return this.fieldTypes(path);
+
+                this.infer(field.object);
+                return undefined;
+            case "binaryop":
+                return this.inferBinaryOp(field.op, this.infer(field.left), this.infer(field.right));
+            case "function":
+                let args = field.arguments.map(arg => this.infer(arg));
+                if (field.func.type != "variable" || this.locals.has(field.func.name)) {
+                    this.infer(field.func);
+                    return undefined;
+                }
+
+                return this.inferCall(field.func.name, args);
+        }
+    }
+
+    /** The types of a (possibly nested) field, according to the profile. */
+    private fieldTypes(name: string): Inferred {
+        let types = this.profile.get(name);
+        return types && types.size > 0 ? Array.from(types) : undefined;
+    }
+
+    private inferBinaryOp(op: BinaryOp, left: Inferred, right: Inferred): Inferred {
+        if (["<", "<=", ">", ">=", "=", "!=", "&", "|"].includes(op)) return ["boolean"];
+        if (!left || !right) return undefined;
+
+        let results = new Set<LiteralType>();
+        let supported = false;
+        for (let l of left) {
+            for (let r of right) {
+                if (!this.binaryOps.supports(op, l, r)) continue;
+
+                supported = true;
+                let result = l == "null" || r == "null" ? "null" : arithmeticType(op, l, r);
+                if (!result) return undefined;
+                results.add(result);
+            }
+        }
+
+        if (!supported) {
+            this.warn(op, `'${describe(left)} ${op} ${describe(right)}' is not supported.`);
+            return undefined;
+        }
+
+        return Array.from(results);
+    }
+
+    private inferCall(name: string, args: Inferred[]): Inferred {
+        let func = this.functions[name];
+        if (!func) {
+            this.warn(`${name}()`, `Unknown function '${name}'.`);
+            return undefined;
+        }
+
+        let signature = Functions.signature(func);
+        if (!signature || signature.variants.some(v => v.varargs)) return known(RETURN_TYPES[name]);
+
+        let counts = new Set(signature.variants.map(v => v.args.length));
+        if (!counts.has(args.length)) {
+            let expected = Array.from(counts).sort((a, b) => a - b);
+            this.warn(
+                `${name}()`,
+                `'${name}' takes ${expected.join(" or ")} argument(s), but is called with ${args.length}.`
+            );
+            return undefined;
+        }
+
+        // Vectorized arguments may also be lists of the accepted types, which makes the result a list.
+        let vectorized = signature.vectorized[args.length] ?? [];
+        if (vectorized.some(position => args[position]?.includes("array"))) return undefined;
+
+        let matches = signature.variants.some(
+            variant =>
+                variant.args.length == args.length && variant.args.every((type, index) => accepts(type, args[index]))
+        );
+        if (!matches) {
+            this.warn(`${name}()`, `'${name}' does not accept arguments of type (${args.map(describe).join(", ")}).`);
+            return undefined;
+        }
+
+        return known(RETURN_TYPES[name]);
+    }
+
+    private warn(subject: string, message: string) {
+        if (!this.warnings.some(w => w.subject == subject && w.message == message))
+            this.warnings.push({ subject, message });
+    }
+}
+
+/** Check all expressions in a query, tracking how the fields of rows change through its data commands. */
+export function analyzeQuery(
+    query: Query,
+    profile: FieldProfile,
+    functions: Record<string, FunctionImpl>
+): QueryWarning[] {
+    let analyzer = new Analyzer(new Map(profile), functions);
+    const named = (field: NamedField) => {
+        let type = analyzer.infer(field.field);
+        analyzer.profile.set(field.name, new Set(type ?? []));
+    };
+
+    // Joined sources are available under their name, with unknown fields.
+    for (let join of query.joins ?? []) {
+        analyzer.infer(join.on);
+        analyzer.profile.delete(join.name);
+    }
+
+    for (let op of query.operations) {
+        switch (op.type) {
+            case "where":
+                analyzer.infer(op.clause);
+                break;
+            case "sort":
+                op.fields.forEach(sort => analyzer.infer(sort.field));
+                break;
+            case "limit":
+                analyzer.infer(op.amount);
+                break;
+            case "flatten":
+                // Flattened fields become the elements of lists, whose types are not profiled.
+                analyzer.infer(op.field.field);
+                analyzer.profile.set(op.field.name, new Set());
+                break;
+            case "let":
+                op.fields.forEach(named);
+                break;
+            case "group":
+                groupFields(op).forEach(field => analyzer.infer(field.field));
+                (op.aggregates ?? []).forEach(aggregate => aggregate.field && analyzer.infer(aggregate.field));
+
+                // Grouped rows have entirely different fields.
+                analyzer.profile = new Map();
+                break;
+        }
+    }
+
+    switch (query.header.type) {
+        case "list":
+            if (query.header.format) analyzer.infer(query.header.format);
+            break;
+        case "table":
+            query.header.fields.forEach(field => analyzer.infer(field.field));
+            break;
+        case "calendar":
+        case "kanban":
+            analyzer.infer(query.header.field.field);
+            break;
+    }
+
+    return analyzer.warnings;
+}
+
+/** The dotted path of a chain of field accesses like `file.name`, if the field is one. */
+function fieldPath(field: Field): string | undefined {
+    if (field.type == "variable") return field.name;
+    if (field.type != "index" || field.index.type != "literal" || !Values.isString(field.index.value)) return undefined;
+
+    let parent = fieldPath(field.object);
+    return parent === undefined ? undefined : parent + "." + field.index.value;
+}
+
+/** Whether an argument of the given possible types may be passed to a parameter of the given type. */
+function accepts(parameter: LiteralTypeOrAll, types: Inferred): boolean {
+    return parameter == "*" || types === undefined || types.includes(parameter);
+}
+
+function known(type: LiteralType | undefined): Inferred {
+    return type ? [type] : undefined;
+}
+
+function describe(types: Inferred): string {
+    return types ? types.join("|") : "any";
+}
@@ -0,0 +1,140 @@
+/** Completion of partially written queries: keywords, functions, tags, folders and the fields of the queried pages. */
+import { QUERY_TYPES } from "api/extensions";
+import { FullIndex } from "data-index/index";
+import { matchingSourcePaths } from "data-index/resolver";
+import { Source, Sources } from "data-index/source";
+import { FunctionImpl, Functions } from "expression/functions";
+import { EXPRESSION } from "expression/parse";
+import { MAX_PROFILED_PAGES, profileFields } from "query/analyzer";
+import { QUERY_KEYWORDS } from "query/parse";
+import * as P from "parsimmon";
+
+/** A single suggestion for the text at the cursor. */
+export interface QueryCompletion {
+    label: string;
+    type: "keyword" | "function" | "field" | "tag" | "folder";
+    /** Extra information shown next to the label, like the signature of a function. */
+    detail?: string;
+}
+
+/** Suggestions for replacing the text between `from` and the cursor. */
+export interface QueryCompletions {
+    from: number;
+    options: QueryCompletion[];
+}
+
+/** Matches field names which can be written without quoting, like `due` or `file.name`. */
+const IDENTIFIER = /^[\p{Letter}_][\p{Letter}\p{Number}_-]*$/u;
+
+/**
+ * Find suggestions for the text before `offset` in the given (partial) query. Field names are taken from a sample of
+ * the pages in the source of the query, or of the whole vault if the query has no (valid) `FROM` yet.
+ */
+export function completeQuery(
+    query: string,
+    offset: number,
+    index: FullIndex,
+    origin: string
+): QueryCompletions | undefined {
+    let before = query.substring(0, offset);
+    let line = before.substring(before.lastIndexOf("\n") + 1);
+
+    // Inside of a string, only folders (in sources) are suggested.
+    if ((line.match(/"/g) ?? []).length % 2 == 1) {
+        let folder = /\b(?:FROM|JOIN)\b.*"([^"]*)$/i.exec(line);
+        if (!folder) return undefined;
+
+        let options = Array.from(index.prefix.folders()).map(
+            (path): QueryCompletion => ({ label: path, type: "folder" })
+        );
+        return { from: offset - folder[1].length, options };
+    }
+
+    let tag = /#[^\s,()"#]*$/u.exec(line);
+    if (tag) {
+        let options = index.tags.values().map((tag): QueryCompletion => ({ label: tag, type: "tag" }));
+        return { from: offset - tag[0].length, options };
+    }
+
+    // Fields of objects, like 'file.name'.
+    let access =
+        /([\p{Letter}_][\p{Letter}\p{Number}_-]*(?:\.[\p{Letter}_][\p{Letter}\p{Number}_-]*)*)\.([\p{Letter}\p{Number}_-]*)$/u.exec(
+            line
+        );
+    if (access) {
+        let prefix = access[1] + ".";
+        let options = fieldNames(query, index, origin)
+            .filter(name => name.startsWith(prefix))
+            .map(name => name.substring(prefix.length))
+            .filter(name => IDENTIFIER.test(name))
+            .map((name): QueryCompletion => ({ label: name, type: "field" }));
+        return { from: offset - access[2].length, options };
+    }
+
+    let word = /[\p{Letter}_][\p{Letter}\p{Number}_-]*$/u.exec(line)?.[0] ?? "";
+    let options: QueryCompletion[] = [];
+    for (let keyword of QUERY_KEYWORDS) options.push({ label: keyword, type: "keyword" });
+    for (let name of QUERY_TYPES.keys()) options.push({ label: name.toUpperCase(), type: "keyword" });
+    for (let [name, func] of Object.entries(index.functions.all))
+        options.push({ label: name, type: "function", detail: signature(name, func) });
+    for (let name of fieldNames(query, index, origin)) {
+        if (IDENTIFIER.test(name)) options.push({ label: name, type: "field" });
+    }
+
+    return { from: offset - word.length, options };
+}
+
+/** The field names of recently completed sources (and origins) in each index, valid until the index changes. */
+const FIELD_NAMES = new WeakMap<FullIndex, { revision: number; names: Map<string, string[]> }>();
+
+/** The names of all fields (and nested fields, like 'file.name') of a sample of the pages in the source of the query. */
+function fieldNames(query: string, index: FullIndex, origin: string): string[] {
+    let from = /^\s*FROM\s+(.+)$/im.exec(query);
+    let source: Source = Sources.folder("");
+    if (from) {
+        // Other clauses may follow the source on the same line.
+        let parsed = EXPRESSION.source.skip(P.all).parse(from[1].trim());
+        if (parsed.status) source = parsed.value;
+    }
+
+    let cached = FIELD_NAMES.get(index);
+    if (!cached || cached.revision != index.revision) {
+        cached = { revision: index.revision, names: new Map() };
+        FIELD_NAMES.set(index, cached);
+    }
+
+    let key = JSON.stringify([source, origin]);
+    let names = cached.names.get(key);
+    if (!names) {
+        names = sourceFieldNames(source, index, origin);
+        cached.names.set(key, names);
+    }
+
+    return names;
+}
+
+/** The names of all fields of a sample of the pages matching the given source. */
+function sourceFieldNames(source: Source, index: FullIndex, origin: string): string[] {
+    let paths = matchingSourcePaths(source, index, origin);
+    if (!paths.successful) return [];
+
+    let pages = [];
+    for (let path of paths.value) {
+        if (pages.length >= MAX_PROFILED_PAGES) break;
+
+        let page = index.serializedPage(path);
+        if (page) pages.push(page);
+    }
+
+    return Array.from(profileFields(pages).keys()).sort();
+}
+
+/** A short description of the arguments a function takes, like 'round(number) | round(number, number)'. */
+function signature(name: string, func: FunctionImpl): string | undefined {
+    let signature = Functions.signature(func);
+    if (!signature) return undefined;
+
+    return signature.variants
+        .map(variant => `${name}(${variant.varargs ? "..." : variant.args.join(", ")})`)
+        .join(" | ");
+}
@@ -3,14 +3,30 @@
  */
 import { FullIndex } from "data-index/index";
 import { Context, LinkHandler } from "expression/context";
-import { resolveSource, Datarow, matchingSourcePaths } from "data-index/resolver";
+import { resolveSource, Datarow, resolveSourcePaths, resolvePathData, dataFileOptions } from "data-index/resolver";
+import { indexedCandidates } from "query/planner";
+import { Dependencies } from "data-index/dependencies";
 import { DataObject, Link, Literal, Values, Grouping, Widgets } from "data-model/value";
-import { CalendarQuery, ListQuery, Query, QueryOperation, TableQuery } from "query/query";
+import {
+    CalendarQuery,
+    groupFields,
+    GroupStep,
+    KanbanQuery,
+    ListQuery,
+    Query,
+    QueryAggregate,
+    QueryFields,
+    NamedField,
+    QueryJoin,
+    QueryOperation,
+    TableQuery,
+} from "query/query";
 import { Result } from "api/result";
-import { Field, Fields } from "expression/field";
+import { Field, Fields, SubqueryField } from "expression/field";
 import { QuerySettings } from "settings";
 import { DateTime } from "luxon";
 import { SListItem } from "data-model/serialized/markdown";
+import { analyzeQuery, MAX_PROFILED_PAGES, profileFields, QueryWarning } from "query/analyzer";
 
 function iden<T>(x: T): T {
     return x;
@@ -24,8 +40,27 @@ export interface OperationDiagnostics {
     errors: { index: number; message: string }[];
 }
 
-/** The meaning of the 'id' field for a data row - i.e., where it came from. */
-export type IdentifierMeaning = { type: "group"; name: string; on: IdentifierMeaning } | { type: "path" };
+/**
+ * The meaning of the 'id' field for a data row - i.e., where it came from. Rows grouped by several fields have the list
+ * of the values of those fields as their id.
+ */
+export type IdentifierMeaning =
+    | { type: "group"; name: string; on: IdentifierMeaning }
+    | { type: "multigroup"; names: string[]; on: IdentifierMeaning }
+    | { type: "path" };
+
+/** Diagnostics about finding the rows matched by the source of a query. */
+export interface SourceDiagnostics {
+    /** The number of paths matched by the source. */
+    paths: number;
+    /** The time spent finding the matching paths and loading their rows. */
+    timeMs: number;
+    /**
+     * Problems with the data in the source which did not stop it from loading, like unparseable CSV values, and likely
+     * type errors in the query when `warnOnTypeErrors` is enabled.
+     */
+    warnings: string[];
+}
 
 /** A data row over an object. */
 export type Pagerow = Datarow<DataObject>;
@@ -39,10 +74,17 @@ export interface CoreExecution {
     timeMs: number;
     ops: QueryOperation[];
     diagnostics: OperationDiagnostics[];
+    /** Diagnostics about resolving the source the rows came from, if they came from the source of a query. */
+    source?: SourceDiagnostics;
 }
 
 /** Shared execution code which just takes in arbitrary data, runs operations over it, and returns it + per-row errors. */
-export function executeCore(rows: Pagerow[], context: Context, ops: QueryOperation[]): Result<CoreExecution, string> {
+export function executeCore(
+    rows: Pagerow[],
+    context: Context,
+    ops: QueryOperation[],
+    source?: SourceDiagnostics
+): Result<CoreExecution, string> {
     let diagnostics = [];
     let identMeaning: IdentifierMeaning = { type: "path" };
     let startTime = Date.now();
@@ -117,15 +159,22 @@ export function executeCore(rows: Pagerow[], context: Context, ops: QueryOperati
                 rows = rows.slice(0, limiting.value);
                 break;
             case "group":
-                let groupData: { data: Pagerow; key: Literal }[] = [];
-                for (let index = 0; index < rows.length; index++) {
-                    let value = context.evaluate(op.field.field, rows[index].data);
-                    if (!value.successful) {
-                        errors.push({ index, message: value.error });
-                        continue;
+                let groupBy = groupFields(op);
+                let groupData: { data: Pagerow; key: Literal; values: Literal[] }[] = [];
+                outer: for (let index = 0; index < rows.length; index++) {
+                    let values: Literal[] = [];
+                    for (let field of groupBy) {
+                        let value = context.evaluate(field.field, rows[index].data);
+                        if (!value.successful) {
+                            errors.push({ index, message: value.error });
+                            continue outer;
+                        }
+
+                        values.push(value.value);
                     }
 
-                    groupData.push({ data: rows[index], key: value.value });
+                    // Grouping by several fields uses the list of their values as the group key.
+                    groupData.push({ data: rows[index], key: values.length == 1 ? values[0] : values, values });
                 }
 
                 // Sort by the key, which we will group on shortly.
@@ -141,31 +190,58 @@ export function executeCore(rows: Pagerow[], context: Context, ops: QueryOperati
 
                 // Then walk through and find fields that are equal.
                 let finalGroupData: { key: Literal; rows: DataObject[]; [groupKey: string]: Literal }[] = [];
-                if (groupData.length > 0)
-                    finalGroupData.push({
-                        key: groupData[0].key,
-                        rows: [groupData[0].data.data],
-                        [op.field.name]: groupData[0].key,
-                    });
-
-                for (let index = 1; index < groupData.length; index++) {
+                for (let index = 0; index < groupData.length; index++) {
                     let curr = groupData[index],
                         prev = groupData[index - 1];
-                    if (context.binaryOps.evaluate("=", curr.key, prev.key, context).orElse(false)) {
+                    if (prev && context.binaryOps.evaluate("=", curr.key, prev.key, context).orElse(false)) {
                         finalGroupData[finalGroupData.length - 1].rows.push(curr.data.data);
                     } else {
-                        finalGroupData.push({
+                        let group: { key: Literal; rows: DataObject[]; [groupKey: string]: Literal } = {
                             key: curr.key,
                             rows: [curr.data.data],
-                            [op.field.name]: curr.key,
-                        });
+                        };
+
+                        groupBy.forEach((field, i) => (group[field.name] = curr.values[i]));
+                        finalGroupData.push(group);
+                    }
+                }
+
+                // Compute any aggregates over the rows of each group.
+                for (let index = 0; index < finalGroupData.length; index++) {
+                    let group = finalGroupData[index];
+                    for (let aggregate of op.aggregates ?? []) {
+                        let value = executeAggregate(aggregate, group.rows, context);
+                        if (!value.successful) errors.push({ index, message: value.error });
+                        else group[aggregate.name] = value.value;
                     }
                 }
 
                 rows = finalGroupData.map(d => {
                     return { id: d.key, data: d };
                 });
-                identMeaning = { type: "group", name: op.field.name, on: identMeaning };
+                identMeaning =
+                    groupBy.length == 1
+                        ? { type: "group", name: groupBy[0].name, on: identMeaning }
+                        : { type: "multigroup", names: groupBy.map(f => f.name), on: identMeaning };
+                break;
+            case "let":
+                let letResult: Pagerow[] = [];
+                outer: for (let index = 0; index < rows.length; index++) {
+                    let data = Object.assign({}, rows[index].data);
+                    for (let field of op.fields) {
+                        let value = context.evaluate(field.field, data);
+                        if (!value.successful) {
+                            errors.push({ index, message: value.error });
+                            continue outer;
+                        }
+
+                        data[field.name] = value.value;
+                    }
+
+                    letResult.push({ id: rows[index].id, data });
+                }
+
+                rows = letResult;
                 break;
             case "flatten":
                 let flattenResult: Pagerow[] = [];
@@ -217,17 +293,105 @@ export function executeCore(rows: Pagerow[], context: Context, ops: QueryOperati
         ops,
         diagnostics,
         timeMs: Date.now() - startTime,
+        source,
     });
 }
 
+/**
+ * Join rows from another source onto each of the given rows, making the joined row available under the join name.
+ * Rows which match several joined rows are duplicated once per match; left joins keep unmatched rows with a null.
+ */
+export function executeJoin(
+    rows: Pagerow[],
+    joined: Pagerow[],
+    join: QueryJoin,
+    context: Context
+): Result<Pagerow[], string> {
+    let result: Pagerow[] = [];
+    let errors: string[] = [];
+    let attempts = 0;
+    for (let row of rows) {
+        let matched = false;
+        for (let other of joined) {
+            let data = Object.assign({}, row.data, { [join.name]: other.data });
+
+            // Failures to evaluate the condition are treated as a non-match, like errors in 'where' clauses.
+            attempts++;
+            let value = context.evaluate(join.on, data);
+            if (!value.successful) errors.push(value.error);
+            else if (Values.isTruthy(value.value)) {
+                result.push({ id: row.id, data });
+                matched = true;
+            }
+        }
+
+        if (!matched && join.kind == "left")
+            result.push({ id: row.id, data: Object.assign({}, row.data, { [join.name]: null }) });
+    }
+
+    if (errors.length >= attempts && attempts > 0)
+        return Result.failure(`Every row during 'join' with '${join.name}' failed with an error; first: ${errors[0]}`);
+
+    return Result.success(result);
+}
+
+/** Resolve the sources of the given joins, and join them onto the given rows in order. */
+export async function executeJoins(
+    rows: Pagerow[],
+    joins: QueryJoin[],
+    index: FullIndex,
+    origin: string,
+    context: Context,
+    dependencies?: Dependencies
+): Promise<Result<Pagerow[], string>> {
+    for (let join of joins) {
+        let joined = await resolveSource(join.source, index, origin, dependencies);
+        if (!joined.successful) return Result.failure(joined.error);
+
+        let result = executeJoin(rows, joined.value, join, context);
+        if (!result.successful) return result;
+        rows = result.value;
+    }
+
+    return Result.success(rows);
+}
+
+/** Compute an aggregate over the rows of a group. Null values are ignored, like in SQL aggregates. */
+export function executeAggregate(
+    aggregate: QueryAggregate,
+    rows: DataObject[],
+    context: Context
+): Result<Literal, string> {
+    let values: Literal[] = [];
+    for (let row of rows) {
+        if (!aggregate.field) {
+            values.push(row);
+            continue;
+        }
+
+        let value = context.evaluate(aggregate.field, row);
+        if (!value.successful) return value;
+        if (!Values.isNull(value.value)) values.push(value.value);
+    }
+
+    if (aggregate.func == "count") return Result.success(values.length);
+
+    // Otherwise, defer to the function of the same name, called on the list of values.
+    let func = aggregate.func == "avg" ? "average" : aggregate.func;
+    return context
+        .evaluate(Fields.func(Fields.variable(func), [Fields.literal(values)]))
+        .mapErr(error => `Failed to compute aggregate '${aggregate.name}': ${error}`);
+}
+
 /** Expanded version of executeCore which adds an additional "extraction" step to the pipeline. */
 export function executeCoreExtract(
     rows: Pagerow[],
     context: Context,
     ops: QueryOperation[],
-    fields: Record<string, Field>
+    fields: Record<string, Field>,
+    source?: SourceDiagnostics
 ): Result<CoreExecution, string> {
-    let internal = executeCore(rows, context, ops);
+    let internal = executeCore(rows, context, ops, source);
     if (!internal.successful) return internal;
 
     let core = internal.value;
@@ -274,9 +438,57 @@ export function executeCoreExtract(
         ]),
         ops: core.ops.concat([{ type: "extract", fields }]),
         timeMs: core.timeMs + execTime,
+        source: core.source,
+    });
+}
+
+/** The rows matching the source of a query, along with diagnostics about finding them. */
+interface SourceRows {
+    rows: Pagerow[];
+    diagnostics: SourceDiagnostics;
+}
+
+/**
+ * Collect the rows matching the source of a query. Pages which the index shows cannot pass the leading WHERE clauses of
+ * the query are skipped before they are loaded.
+ */
+async function resolveQuerySource(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<SourceRows, string>> {
+    let startTime = Date.now();
+    let paths = await resolveSourcePaths(query.source, index, origin, dependencies);
+    if (!paths.successful) return Result.failure(paths.error);
+
+    let candidates = indexedCandidates(query, index);
+    let options = dataFileOptions(query.source, index, origin);
+    let warnings: string[] = [];
+    let result: Pagerow[] = [];
+    for (let path of paths.value) {
+        if (candidates && index.isPage(path) && !candidates.has(path)) continue;
+
+        let resolved = await resolvePathData(path, index, options.get(path), warnings);
+        if (!resolved.successful) return Result.failure(resolved.error);
+        for (let row of resolved.value) result.push(row);
+    }
+
+    if (settings.warnOnTypeErrors) warnings.push(...typeWarnings(query, result, index));
+
+    return Result.success({
+        rows: result,
+        diagnostics: { paths: paths.value.size, timeMs: Date.now() - startTime, warnings },
     });
 }
 
+/** Check a query for likely mistakes, inferring the types of fields from a sample of the rows it runs on. */
+function typeWarnings(query: Query, rows: Pagerow[], index: FullIndex): string[] {
+    let profile = profileFields(rows.slice(0, MAX_PROFILED_PAGES).map(row => row.data));
+    return analyzeQuery(query, profile, index.functions.all).map(warning => warning.message);
+}
+
 export interface ListExecution {
     core: CoreExecution;
     data: Literal[];
@@ -288,33 +500,44 @@ export async function executeList(
     query: Query,
     index: FullIndex,
     origin: string,
-    settings: QuerySettings
+    settings: QuerySettings,
+    dependencies?: Dependencies
 ): Promise<Result<ListExecution, string>> {
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
     // Start by collecting all of the files that match the 'from' queries.
-    let fileset = await resolveSource(query.source, index, origin);
+    let fileset = await resolveQuerySource(query, index, origin, settings, dependencies);
     if (!fileset.successful) return Result.failure(fileset.error);
 
     // Extract information about the origin page to add to the root context.
-    let rootContext = new Context(defaultLinkHandler(index, origin), settings, {
-        this: index.pages.get(origin)?.serialize(index) ?? {},
-    });
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
+
+    // Join any additional sources onto the matching rows.
+    let rows = await executeJoins(fileset.value.rows, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
 
     let targetField = (query.header as ListQuery).format;
     let showId = (query.header as ListQuery).showId;
     let fields: Record<string, Field> = targetField ? { target: targetField } : {};
 
-    return executeCoreExtract(fileset.value, rootContext, query.operations, fields).map(core => {
-        let data: Literal[];
-        if (showId && targetField) {
-            data = core.data.map(p => Widgets.listPair(p.id, p.data["target"] ?? null));
-        } else if (targetField) {
-            data = core.data.map(p => p.data["target"] ?? null);
-        } else {
-            data = core.data.map(p => p.id);
-        }
+    return executeCoreExtract(rows.value, rootContext, query.operations, fields, fileset.value.diagnostics).map(
+        core => {
+            let data: Literal[];
+            if (showId && targetField) {
+                data = core.data.map(p => Widgets.listPair(p.id, p.data["target"] ?? null));
+            } else if (targetField) {
+                data = core.data.map(p => p.data["target"] ?? null);
+            } else {
+                data = core.data.map(p => p.id);
+            }
 
-        return { primaryMeaning: core.idMeaning, core, data };
-    });
+            return { primaryMeaning: core.idMeaning, core, data };
+        }
+    );
 }
 
 /** Result of executing a table query. */
@@ -330,36 +553,59 @@ export async function executeTable(
     query: Query,
     index: FullIndex,
     origin: string,
-    settings: QuerySettings
+    settings: QuerySettings,
+    dependencies?: Dependencies
 ): Promise<Result<TableExecution, string>> {
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
     // Start by collecting all of the files that match the 'from' queries.
-    let fileset = await resolveSource(query.source, index, origin);
+    let fileset = await resolveQuerySource(query, index, origin, settings, dependencies);
     if (!fileset.successful) return Result.failure(fileset.error);
 
     // Extract information about the origin page to add to the root context.
-    let rootContext = new Context(defaultLinkHandler(index, origin), settings, {
-        this: index.pages.get(origin)?.serialize(index) ?? {},
-    });
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
+
+    // Join any additional sources onto the matching rows.
+    let rows = await executeJoins(fileset.value.rows, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
 
+    // Aggregates from the final grouping are shown as extra columns, unless they are already selected explicitly.
     let targetFields = (query.header as TableQuery).fields;
+    let lastGroup = query.operations.filter((op): op is GroupStep => op.type == "group").pop();
+    for (let aggregate of lastGroup?.aggregates ?? []) {
+        if (targetFields.some(f => f.name == aggregate.name)) continue;
+        targetFields = targetFields.concat([QueryFields.named(aggregate.name, Fields.variable(aggregate.name))]);
+    }
+
     let showId = (query.header as TableQuery).showId;
     let fields: Record<string, Field> = {};
     for (let field of targetFields) fields[field.name] = field.field;
 
-    return executeCoreExtract(fileset.value, rootContext, query.operations, fields).map(core => {
-        if (showId) {
-            const idName = core.idMeaning.type === "group" ? core.idMeaning.name : settings.tableIdColumnName;
-            let names = [idName].concat(targetFields.map(f => f.name));
-
-            let data = core.data.map(p => ([p.id] as Literal[]).concat(targetFields.map(f => p.data[f.name])));
-            return { core, names, data, idMeaning: core.idMeaning };
-        } else {
-            let names = targetFields.map(f => f.name);
-
-            let data = core.data.map(p => targetFields.map(f => p.data[f.name]));
-            return { core, names, data, idMeaning: core.idMeaning };
+    return executeCoreExtract(rows.value, rootContext, query.operations, fields, fileset.value.diagnostics).map(
+        core => {
+            if (showId) {
+                const idName =
+                    core.idMeaning.type === "group"
+                        ? core.idMeaning.name
+                        : core.idMeaning.type === "multigroup"
+                        ? core.idMeaning.names.join(", ")
+                        : settings.tableIdColumnName;
+                let names = [idName].concat(targetFields.map(f => f.name));
+
+                let data = core.data.map(p => ([p.id] as Literal[]).concat(targetFields.map(f => p.data[f.name])));
+                return { core, names, data, idMeaning: core.idMeaning };
+            } else {
+                let names = targetFields.map(f => f.name);
+
+                let data = core.data.map(p => targetFields.map(f => p.data[f.name]));
+                return { core, names, data, idMeaning: core.idMeaning };
+            }
         }
-    });
+    );
 }
 
 /** The result of executing a task query. */
@@ -381,6 +627,13 @@ function extractTaskGroupings(id: IdentifierMeaning, rows: DataObject[]): Groupi
                     rows: extractTaskGroupings(id.on, r.rows as DataObject[]),
                 })
             );
+        case "multigroup":
+            return rows.map(r =>
+                iden({
+                    key: r.key,
+                    rows: extractTaskGroupings(id.on, r.rows as DataObject[]),
+                })
+            );
     }
 }
 
@@ -389,18 +642,24 @@ export async function executeTask(
     query: Query,
     origin: string,
     index: FullIndex,
-    settings: QuerySettings
+    settings: QuerySettings,
+    dependencies?: Dependencies
 ): Promise<Result<TaskExecution, string>> {
-    let fileset = matchingSourcePaths(query.source, index, origin);
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
+    let sourceStartTime = Date.now();
+    let fileset = await resolveSourcePaths(query.source, index, origin, dependencies);
     if (!fileset.successful) return Result.failure(fileset.error);
 
     // Collect tasks from pages which match.
     let incomingTasks: Pagerow[] = [];
     for (let path of fileset.value) {
-        let page = index.pages.get(path);
-        if (!page) continue;
+        const pageData = index.serializedPage(path);
+        if (!pageData) continue;
 
-        let pageData = page.serialize(index);
         let pageTasks = pageData.file.tasks.map(t => {
             const tcopy = Values.deepCopy(t);
 
@@ -415,13 +674,21 @@ export async function executeTask(
 
         for (let task of pageTasks) incomingTasks.push(task);
     }
+    let source: SourceDiagnostics = {
+        paths: fileset.value.size,
+        timeMs: Date.now() - sourceStartTime,
+        warnings: settings.warnOnTypeErrors ? typeWarnings(query, incomingTasks, index) : [],
+    };
 
     // Extract information about the origin page to add to the root context.
-    let rootContext = new Context(defaultLinkHandler(index, origin), settings, {
-        this: index.pages.get(origin)?.serialize(index) ?? {},
-    });
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
 
-    return executeCore(incomingTasks, rootContext, query.operations).map(core => {
+    // Join any additional sources onto the matching tasks.
+    let rows = await executeJoins(incomingTasks, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
+
+    return executeCore(rows.value, rootContext, query.operations, source).map(core => {
         return {
             core,
             tasks: extractTaskGroupings(
@@ -437,24 +704,42 @@ export function executeInline(
     field: Field,
     origin: string,
     index: FullIndex,
-    settings: QuerySettings
+    settings: QuerySettings,
+    dependencies?: Dependencies
 ): Result<Literal, string> {
-    return new Context(defaultLinkHandler(index, origin), settings, {
-        this: index.pages.get(origin)?.serialize(index) ?? {},
-    }).evaluate(field);
+    dependencies?.path(origin);
+    return createRootContext(index, origin, settings, dependencies).evaluate(field);
 }
 
-/** The default link resolver used when creating contexts. */
-export function defaultLinkHandler(index: FullIndex, origin: string): LinkHandler {
+/**
+ * Create the context that expressions in the given file are evaluated in, with `this` bound to the file and access to
+ * all registered functions.
+ */
+export function createRootContext(
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Context {
+    return new Context(
+        defaultLinkHandler(index, origin, dependencies),
+        settings,
+        { this: index.serializedPage(origin) ?? {} },
+        undefined,
+        index.functions.all
+    );
+}
+
+/** The default link resolver used when creating contexts. Resolved pages are recorded in `dependencies`, if given. */
+export function defaultLinkHandler(index: FullIndex, origin: string, dependencies?: Dependencies): LinkHandler {
     return {
         resolve: link => {
             let realFile = index.metadataCache.getFirstLinkpathDest(link, origin);
             if (!realFile) return null;
 
-            let realPage = index.pages.get(realFile.path);
-            if (!realPage) return null;
+            dependencies?.path(realFile.path);
 
-            return realPage.serialize(index);
+            return index.serializedPage(realFile.path) ?? null;
         },
         normalize: link => {
             let realFile = index.metadataCache.getFirstLinkpathDest(link, origin);
@@ -472,16 +757,25 @@ export async function executeCalendar(
     query: Query,
     index: FullIndex,
     origin: string,
-    settings: QuerySettings
+    settings: QuerySettings,
+    dependencies?: Dependencies
 ): Promise<Result<CalendarExecution, string>> {
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
     // Start by collecting all of the files that match the 'from' queries.
-    let fileset = await resolveSource(query.source, index, origin);
+    let fileset = await resolveQuerySource(query, index, origin, settings, dependencies);
     if (!fileset.successful) return Result.failure(fileset.error);
 
     // Extract information about the origin page to add to the root context.
-    let rootContext = new Context(defaultLinkHandler(index, origin), settings, {
-        this: index.pages.get(origin)?.serialize(index) ?? {},
-    });
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
+
+    // Join any additional sources onto the matching rows.
+    let rows = await executeJoins(fileset.value.rows, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
 
     let targetField = (query.header as CalendarQuery).field.field;
     let fields: Record<string, Field> = {
@@ -489,19 +783,325 @@ export async function executeCalendar(
         link: Fields.indexVariable("file.link"),
     };
 
-    return executeCoreExtract(fileset.value, rootContext, query.operations, fields).map(core => {
-        let data = core.data.map(p =>
-            iden({
-                date: p.data["target"] as DateTime,
-                link: p.data["link"] as Link,
-            })
-        );
+    return executeCoreExtract(rows.value, rootContext, query.operations, fields, fileset.value.diagnostics).map(
+        core => {
+            let data = core.data.map(p =>
+                iden({
+                    date: p.data["target"] as DateTime,
+                    link: p.data["link"] as Link,
+                })
+            );
 
-        return { core, data };
-    });
+            return { core, data };
+        }
+    );
 }
 
 export interface CalendarExecution {
     core: CoreExecution;
     data: { date: DateTime; link: Link; value?: Literal[] }[];
 }
+
+/** A single column of a kanban board; all cards in the column share the same field value. */
+export interface KanbanColumn {
+    key: Literal;
+    cards: Link[];
+}
+
+export interface KanbanExecution {
+    core: CoreExecution;
+    columns: KanbanColumn[];
+}
+
+/** Execute a kanban query, grouping matching pages into columns by the value of the target field. */
+export async function executeKanban(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<KanbanExecution, string>> {
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
+    // Start by collecting all of the files that match the 'from' queries.
+    let fileset = await resolveQuerySource(query, index, origin, settings, dependencies);
+    if (!fileset.successful) return Result.failure(fileset.error);
+
+    // Extract information about the origin page to add to the root context.
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
+
+    // Join any additional sources onto the matching rows.
+    let rows = await executeJoins(fileset.value.rows, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
+
+    let targetField = (query.header as KanbanQuery).field.field;
+    let fields: Record<string, Field> = {
+        target: targetField,
+        link: Fields.indexVariable("file.link"),
+    };
+
+    return executeCoreExtract(rows.value, rootContext, query.operations, fields, fileset.value.diagnostics).map(
+        core => {
+            let columns: KanbanColumn[] = [];
+            for (let row of core.data) {
+                let link = row.data["link"];
+                if (!Values.isLink(link)) continue;
+
+                let key = row.data["target"] ?? null;
+                let column = columns.find(c => Values.compareValue(c.key, key, rootContext.linkHandler.normalize) == 0);
+                if (column) column.cards.push(link);
+                else columns.push({ key, cards: [link] });
+            }
+
+            columns.sort((a, b) => Values.compareValue(a.key, b.key, rootContext.linkHandler.normalize));
+            return { core, columns };
+        }
+    );
+}
+
+export interface CustomExecution {
+    core: CoreExecution;
+    /** Copies of the pages matched by the query, after all data commands; renderers may modify them freely. */
+    values: DataObject[];
+}
+
+/** Execute a query of a type registered by an extension, returning the pages which match it. */
+export async function executeCustom(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<CustomExecution, string>> {
+    // Execute any subqueries up front, since they do not depend on the rows of this query.
+    let resolved = await resolveSubqueries(query, index, origin, settings, dependencies);
+    if (!resolved.successful) return Result.failure(resolved.error);
+    query = resolved.value;
+
+    let fileset = await resolveQuerySource(query, index, origin, settings, dependencies);
+    if (!fileset.successful) return Result.failure(fileset.error);
+
+    dependencies?.path(origin);
+    let rootContext = createRootContext(index, origin, settings, dependencies);
+
+    let rows = await executeJoins(fileset.value.rows, query.joins ?? [], index, origin, rootContext, dependencies);
+    if (!rows.successful) return Result.failure(rows.error);
+
+    return executeCore(rows.value, rootContext, query.operations, fileset.value.diagnostics).map(core => ({
+        core,
+        values: core.data.map(row => Values.deepCopy(row.data)),
+    }));
+}
+
+/** A breakdown of how a query executed, as shown by `EXPLAIN` queries. */
+export interface QueryExplanation {
+    /** The number of paths matched by the source of the query. */
+    sourcePaths: number;
+    /** The time spent finding the paths matched by the source of the query and loading their rows. */
+    sourceTimeMs: number;
+    /** Problems with the data in the source which did not stop the query, like unparseable CSV values. */
+    sourceWarnings: string[];
+    /** The number of rows entering the query operations, after joins and after skipping pages ruled out by the index. */
+    incomingRows: number;
+    /** The operations which were executed, in order; this includes the final extraction of the rendered values. */
+    ops: QueryOperation[];
+    /** Row counts, timings and per-row errors for each operation in `ops`. */
+    diagnostics: OperationDiagnostics[];
+    /** The number of rows in the final result. */
+    resultRows: number;
+    /** The total time spent executing the query. */
+    timeMs: number;
+}
+
+/** Execute a query, returning diagnostics about each step of its execution instead of the results. */
+export async function explainQuery(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<QueryExplanation, string>> {
+    let startTime = Date.now();
+    let core: Result<CoreExecution, string>;
+    switch (query.header.type) {
+        case "list":
+            core = (await executeList(query, index, origin, settings, dependencies)).map(r => r.core);
+            break;
+        case "table":
+            core = (await executeTable(query, index, origin, settings, dependencies)).map(r => r.core);
+            break;
+        case "task":
+            core = (await executeTask(query, origin, index, settings, dependencies)).map(r => r.core);
+            break;
+        case "calendar":
+            core = (await executeCalendar(query, index, origin, settings, dependencies)).map(r => r.core);
+            break;
+        case "kanban":
+            core = (await executeKanban(query, index, origin, settings, dependencies)).map(r => r.core);
+            break;
+        case "custom":
+            core = (await executeCustom(query, index, origin, settings, dependencies)).map(r => r.core);
+            break;
+    }
+
+    return core.map(core => ({
+        sourcePaths: core.source?.paths ?? 0,
+        sourceTimeMs: core.source?.timeMs ?? 0,
+        sourceWarnings: core.source?.warnings ?? [],
+        incomingRows: core.diagnostics.length > 0 ? core.diagnostics[0].incomingRows : core.data.length,
+        ops: core.ops,
+        diagnostics: core.diagnostics,
+        resultRows: core.data.length,
+        timeMs: Date.now() - startTime,
+    }));
+}
+
+/**
+ * Check a query for likely mistakes without running it, inferring the types of fields from a sample of the pages (or,
+ * for task queries, the tasks) in its source.
+ */
+export async function analyzeQuerySource(
+    query: Query,
+    index: FullIndex,
+    origin: string
+): Promise<Result<QueryWarning[], string>> {
+    let paths = await resolveSourcePaths(query.source, index, origin);
+    if (!paths.successful) return Result.failure(paths.error);
+
+    let options = dataFileOptions(query.source, index, origin);
+    let rows: DataObject[] = [];
+    for (let path of paths.value) {
+        if (rows.length >= MAX_PROFILED_PAGES) break;
+
+        if (query.header.type == "task") {
+            let page = index.serializedPage(path);
+            if (page) rows.push(...page.file.tasks.map(task => Object.assign({}, page, task) as DataObject));
+            continue;
+        }
+
+        let resolved = await resolvePathData(path, index, options.get(path));
+        if (resolved.successful) rows.push(...resolved.value.map(row => row.data));
+    }
+
+    return Result.success(analyzeQuery(query, profileFields(rows.slice(0, MAX_PROFILED_PAGES)), index.functions.all));
+}
+
+/** Execute a query used as a value inside of another query, returning its results as a list. */
+export async function executeSubquery(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<Literal, string>> {
+    switch (query.header.type) {
+        case "list":
+            let format = query.header.format;
+            let lres = await executeList(query, index, origin, settings, dependencies);
+            return lres.map(result => result.core.data.map(row => (format ? row.data["target"] ?? null : row.id)));
+        case "table":
+            let tres = await executeTable(query, index, origin, settings, dependencies);
+            return tres.map(result =>
+                result.data.map(row => {
+                    let object: DataObject = {};
+                    result.names.forEach((name, index) => (object[name] = row[index]));
+                    return object;
+                })
+            );
+        case "task":
+            let tasks = await executeTask(query, origin, index, settings, dependencies);
+            return tasks.map(result => result.core.data.map(row => row.data));
+        default:
+            return Result.failure(
+                `Subqueries must be LIST, TABLE or TASK queries, not ${query.header.type.toUpperCase()}`
+            );
+    }
+}
+
+/** Execute every subquery in the given query, replacing them with their results. */
+export async function resolveSubqueries(
+    query: Query,
+    index: FullIndex,
+    origin: string,
+    settings: QuerySettings,
+    dependencies?: Dependencies
+): Promise<Result<Query, string>> {
+    let subqueries: SubqueryField[] = [];
+    mapQueryFields(query, field =>
+        Fields.map(field, f => {
+            if (f.type == "subquery") subqueries.push(f);
+            return f;
+        })
+    );
+
+    if (subqueries.length == 0) return Result.success(query);
+
+    let results = new Map<SubqueryField, Literal>();
+    for (let subquery of subqueries) {
+        let result = await executeSubquery(subquery.query, index, origin, settings, dependencies);
+        if (!result.successful) return Result.failure("Failed to execute subquery: " + result.error);
+
+        results.set(subquery, result.value);
+    }
+
+    return Result.success(
+        mapQueryFields(query, field =>
+            Fields.map(field, f => (f.type == "subquery" ? Fields.literal(results.get(f) ?? null) : f))
+        )
+    );
+}
+
+/** Return a copy of the query where every field (in the header, joins and operations) is replaced by `func`. */
+function mapQueryFields(query: Query, func: (field: Field) => Field): Query {
+    let named = (field: NamedField) => QueryFields.named(field.name, func(field.field));
+
+    let header = query.header;
+    switch (header.type) {
+        case "list":
+            header = Object.assign({}, header, { format: header.format ? func(header.format) : undefined });
+            break;
+        case "table":
+            header = Object.assign({}, header, { fields: header.fields.map(named) });
+            break;
+        case "calendar":
+        case "kanban":
+            header = Object.assign({}, header, { field: named(header.field) });
+            break;
+    }
+
+    let operations = query.operations.map((op): QueryOperation => {
+        switch (op.type) {
+            case "where":
+                return { type: "where", clause: func(op.clause) };
+            case "sort":
+                return { type: "sort", fields: op.fields.map(f => QueryFields.sortBy(func(f.field), f.direction)) };
+            case "limit":
+                return { type: "limit", amount: func(op.amount) };
+            case "flatten":
+                return { type: "flatten", field: named(op.field) };
+            case "group":
+                let grouped = groupFields(op).map(named);
+                return {
+                    type: "group",
+                    fields: grouped,
+                    field: grouped[0],
+                    aggregates: (op.aggregates ?? []).map(a =>
+                        QueryFields.aggregate(a.name, a.func, a.field ? func(a.field) : undefined)
+                    ),
+                };
+            case "let":
+                return { type: "let", fields: op.fields.map(named) };
+            case "extract":
+                let fields: Record<string, Field> = {};
+                for (let [name, field] of Object.entries(op.fields)) fields[name] = func(field);
+                return { type: "extract", fields };
+        }
+    });
+
+    let joins = query.joins?.map(join => Object.assign({}, join, { on: func(join.on) }));
+    return Object.assign({}, query, { header, operations, joins });
+}
@@ -0,0 +1,109 @@
+/** Splits lines of queries into tokens for syntax highlighting, using the parsers of the query language. */
+import { QUERY_TYPES } from "api/extensions";
+import { EXPRESSION } from "expression/parse";
+import { QUERY_KEYWORDS } from "query/parse";
+import * as P from "parsimmon";
+
+/** The kinds of tokens in a query. */
+export type QueryTokenType =
+    | "keyword"
+    | "comment"
+    | "string"
+    | "number"
+    | "atom"
+    | "link"
+    | "tag"
+    | "function"
+    | "variable"
+    | "property"
+    | "operator";
+
+/** A token in a line of a query, from offset `from` up to (but excluding) `to`. */
+export interface QueryToken {
+    type: QueryTokenType;
+    from: number;
+    to: number;
+}
+
+/** Matches (possibly multi-word) keywords at the start of a string. */
+const KEYWORD = new RegExp(
+    "^(?:" +
+        QUERY_KEYWORDS.concat(["ASCENDING", "DESCENDING"])
+            .sort((a, b) => b.length - a.length)
+            .map(keyword => keyword.replace(" ", "\\s+"))
+            .join("|") +
+        ")(?![\\p{Letter}0-9_-])",
+    "iu"
+);
+
+const OPERATOR = /^(?:=>|>=|<=|!=|[-+*/%<>=&|!])/;
+
+/** Tokenize a single line of a query. Lines are independent, since no token of the query language spans lines. */
+export function tokenizeQueryLine(line: string): QueryToken[] {
+    let tokens: QueryToken[] = [];
+    if (line.trimStart().startsWith("//"))
+        return [{ type: "comment", from: line.length - line.trimStart().length, to: line.length }];
+
+    let offset = 0;
+    while (offset < line.length) {
+        let rest = line.substring(offset);
+        let space = /^\s+/.exec(rest);
+        if (space) {
+            offset += space[0].length;
+            continue;
+        }
+
+        let token = nextToken(line, offset, tokens.length == 0);
+        if (token) {
+            tokens.push(token);
+            offset = token.to;
+        } else {
+            offset += 1;
+        }
+    }
+
+    return tokens;
+}
+
+/** The token starting at the given offset in the line, if there is one. */
+function nextToken(line: string, offset: number, first: boolean): QueryToken | undefined {
+    const token = (type: QueryTokenType, length: number): QueryToken => ({ type, from: offset, to: offset + length });
+    let rest = line.substring(offset);
+
+    // Strings which are not closed yet continue to the end of the line.
+    if (rest.startsWith('"')) return token("string", matchLength(EXPRESSION.string, rest) ?? rest.length);
+    if (rest.startsWith("[[") || rest.startsWith("![[")) {
+        let length = matchLength(EXPRESSION.link, rest.replace(/^!/, ""));
+        if (length !== undefined) return token("link", length + (rest.startsWith("!") ? 1 : 0));
+    }
+    if (rest.startsWith("#")) return token("tag", matchLength(EXPRESSION.tag, rest) ?? 1);
+
+    let number = matchLength(EXPRESSION.number, rest);
+    if (number !== undefined && !/^-/.test(rest)) return token("number", number);
+
+    let word = matchLength(EXPRESSION.identifier, rest);
+    if (word !== undefined) {
+        let text = rest.substring(0, word);
+
+        // Keywords are case-insensitive, but keywords which are not in upper case are only highlighted at the start of a
+        // line, to avoid highlighting fields which happen to share a name with a keyword.
+        let keyword = KEYWORD.exec(rest) ?? (QUERY_TYPES.has(text.toLowerCase()) ? [text] : null);
+        if (keyword && (first || keyword[0] == keyword[0].toUpperCase())) return token("keyword", keyword[0].length);
+
+        if (/^(true|false|null)$/i.test(text)) return token("atom", word);
+        if (/^(and|or)$/i.test(text)) return token("operator", word);
+        if (line[offset - 1] == ".") return token("property", word);
+        if (/^\s*\(/.test(rest.substring(word))) return token("function", word);
+        return token("variable", word);
+    }
+
+    let operator = OPERATOR.exec(rest);
+    if (operator) return token("operator", operator[0].length);
+    return undefined;
+}
+
+/** The length of the text matched by the parser at the start of the given text, if it matches. */
+function matchLength<T>(parser: P.Parser<T>, text: string): number | undefined {
+    let result = parser.mark().skip(P.all).parse(text);
+    return result.status ? result.value.end.offset : undefined;
+}
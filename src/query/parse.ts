@@ -3,43 +3,53 @@ import * as P from "parsimmon";
 import {
     FlattenStep,
     GroupStep,
+    LetStep,
     LimitStep,
     NamedField,
     Query,
+    QueryAggregate,
     QueryFields,
     QueryHeader,
+    QueryJoin,
     QueryOperation,
     QuerySortBy,
     QueryType,
     SortByStep,
     WhereStep,
     Comment,
+    CustomQuery,
 } from "./query";
 import { Source, Sources } from "data-index/source";
+import { getFileTitle } from "util/normalize";
 import { DEFAULT_QUERY_SETTINGS } from "settings";
 import { Result } from "api/result";
+import { QUERY_TYPES } from "api/extensions";
 
 ///////////////////
 // Query Parsing //
 ///////////////////
 
 /** Typings for the outputs of all of the parser combinators. */
-interface QueryLanguageTypes {
+export interface QueryLanguageTypes {
     queryType: QueryType;
     comment: Comment;
 
     explicitNamedField: NamedField;
     namedField: NamedField;
     sortField: QuerySortBy;
+    aggregate: QueryAggregate;
 
     // Entire clauses in queries.
+    customHeaderClause: CustomQuery;
     headerClause: QueryHeader;
     fromClause: Source;
+    joinClause: QueryJoin;
     whereClause: WhereStep;
     sortByClause: SortByStep;
     limitClause: LimitStep;
     flattenClause: FlattenStep;
     groupByClause: GroupStep;
+    letClause: LetStep;
     clause: QueryOperation;
     query: Query;
 }
@@ -64,19 +74,107 @@ function stripNewlines(text: string): string {
         .join("");
 }
 
+/** The name a joined source is available under if no explicit name is given, if the source has an obvious name. */
+function defaultJoinName(source: Source): string | undefined {
+    switch (source.type) {
+        case "tag":
+            return identifierName(source.tag.split("/").pop() ?? "");
+        case "folder":
+            return identifierName(source.folder.split("/").pop() ?? "");
+        case "csv":
+        case "json":
+        case "yaml":
+            return identifierName(getFileTitle(source.path));
+        case "link":
+        case "canvas":
+            return identifierName(getFileTitle(source.file));
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Turn a tag, folder or file name into a name which can be used as a variable, like 'Team Members' -> 'team_members'.
+ * Returns undefined if there is no such name, since variables must start with a letter.
+ */
+function identifierName(text: string): string | undefined {
+    let name = text
+        .toLocaleLowerCase()
+        .replace(/[^\p{Letter}0-9_]+/gu, "_")
+        .replace(/^_+|_+$/g, "");
+    return /^\p{Letter}/u.test(name) ? name : undefined;
+}
+
 /** Given `parser`, return the parser that returns `if_eof()` if EOF is found,
  * otherwise `parser` preceded by (non-optional) whitespace */
 function precededByWhitespaceIfNotEof<T>(if_eof: (_: undefined) => T, parser: P.Parser<T>): P.Parser<T> {
     return P.eof.map(if_eof).or(P.whitespace.then(parser));
 }
 
+/**
+ * The start of a `LET` clause. `LET` is not reserved in expressions (so fields named 'let' keep working), so fields in
+ * headers which may be directly followed by clauses must not start here.
+ */
+const LET_CLAUSE_START = P.regexp(/LET\s+[\p{Letter}_][\p{Letter}\p{Number}_-]*\s*=/iu);
+
+/** Given `parser`, return the parser that fails when the input is the start of a `LET` clause instead. */
+function notLetClause<T>(parser: P.Parser<T>): P.Parser<T> {
+    return P.notFollowedBy(LET_CLAUSE_START).then(parser);
+}
+
+/** All keywords accepted by {@link QUERY_LANGUAGE}, in the case they are usually written in. */
+export const QUERY_KEYWORDS = [
+    "EXPLAIN",
+    "TABLE",
+    "LIST",
+    "TASK",
+    "CALENDAR",
+    "KANBAN",
+    "WITHOUT ID",
+    "AS",
+    "FROM",
+    "JOIN",
+    "LEFT JOIN",
+    "INNER JOIN",
+    "ON",
+    "WHERE",
+    "SORT",
+    "ASC",
+    "DESC",
+    "LIMIT",
+    "GROUP BY",
+    "AGGREGATE",
+    "FLATTEN",
+    "LET",
+];
+
+/** Keywords which start a clause, and so end the header of a query type registered by an extension. */
+const CLAUSE_KEYWORDS = [
+    "FROM",
+    "JOIN",
+    "LEFT JOIN",
+    "INNER JOIN",
+    "WHERE",
+    "SORT",
+    "LIMIT",
+    "GROUP BY",
+    "FLATTEN",
+    "LET",
+];
+
+/** The rest of the line, up to the first clause keyword (so that one-line queries keep their clauses). */
+const CUSTOM_HEADER = new RegExp(
+    `(?:(?!\\s(?:${CLAUSE_KEYWORDS.map(keyword => keyword.replace(" ", "\\s+")).join("|")})\\b)[^\\r\\n])*`,
+    "i"
+);
+
 /** A parsimmon-powered parser-combinator implementation of the query language. */
-export const QUERY_LANGUAGE = P.createLanguage<QueryLanguageTypes>({
+export const QUERY_LANGUAGE: P.TypedLanguage<QueryLanguageTypes> = P.createLanguage<QueryLanguageTypes>({
     // Simple atom parsing, like words, identifiers, numbers.
     queryType: q =>
-        P.alt<string>(P.regexp(/TABLE|LIST|TASK|CALENDAR/i))
+        P.alt<string>(P.regexp(/TABLE|LIST|TASK|CALENDAR|KANBAN/i))
             .map(str => str.toLowerCase() as QueryType)
-            .desc("query type ('TABLE', 'LIST', 'TASK', or 'CALENDAR')"),
+            .desc("query type ('TABLE', 'LIST', 'TASK', 'CALENDAR', or 'KANBAN')"),
     explicitNamedField: q =>
         P.seqMap(
             EXPRESSION.field.skip(P.whitespace),
@@ -113,60 +211,127 @@ export const QUERY_LANGUAGE = P.createLanguage<QueryLanguageTypes>({
                 };
             }
         ),
+    aggregate: q =>
+        P.seqMap(
+            captureRaw(
+                P.seqMap(
+                    EXPRESSION.identifier.skip(P.string("(").trim(P.optWhitespace)),
+                    EXPRESSION.field.atMost(1).skip(P.optWhitespace.then(P.string(")"))),
+                    (func, field) => ({ func, field: field.length == 0 ? undefined : field[0] })
+                )
+            ),
+            P.whitespace
+                .then(P.regexp(/AS/i))
+                .then(P.whitespace)
+                .then(EXPRESSION.identifier.or(EXPRESSION.string))
+                .atMost(1),
+            ([{ func, field }, text], name) =>
+                QueryFields.aggregate(name.length == 0 ? stripNewlines(text) : name[0], func.toLowerCase(), field)
+        ),
+
+    customHeaderClause: q =>
+        P.regexp(/\p{Letter}[\p{Letter}0-9_-]*/u).chain(keyword => {
+            let registration = QUERY_TYPES.get(keyword.toLowerCase());
+            if (!registration) return P.fail("a registered query type");
 
+            return P.regexp(CUSTOM_HEADER).chain(header => {
+                try {
+                    return P.succeed({
+                        type: "custom",
+                        name: registration!.name,
+                        options: registration!.parse(header.trim()),
+                    } as CustomQuery);
+                } catch (error) {
+                    return P.fail(`a valid ${keyword.toUpperCase()} header (${error.message ?? error})`);
+                }
+            });
+        }),
     headerClause: q =>
-        q.queryType
-            .chain(type => {
-                switch (type) {
-                    case "table": {
-                        return precededByWhitespaceIfNotEof(
-                            () => ({ type, fields: [], showId: true }),
-                            P.seqMap(
-                                P.regexp(/WITHOUT\s+ID/i)
-                                    .skip(P.optWhitespace)
-                                    .atMost(1),
-                                P.sepBy(q.namedField, P.string(",").trim(P.optWhitespace)),
-                                (withoutId, fields) => {
-                                    return { type, fields, showId: withoutId.length == 0 };
-                                }
-                            )
-                        );
-                    }
-                    case "list":
-                        return precededByWhitespaceIfNotEof(
-                            () => ({ type, format: undefined, showId: true }),
-                            P.seqMap(
-                                P.regexp(/WITHOUT\s+ID/i)
-                                    .skip(P.optWhitespace)
-                                    .atMost(1),
-                                EXPRESSION.field.atMost(1),
-                                (withoutId, format) => {
+        P.alt<QueryHeader>(
+            q.customHeaderClause,
+            q.queryType
+                .chain(type => {
+                    switch (type) {
+                        case "table": {
+                            return precededByWhitespaceIfNotEof(
+                                () => ({ type, fields: [], showId: true }),
+                                P.seqMap(
+                                    P.regexp(/WITHOUT\s+ID/i)
+                                        .skip(P.optWhitespace)
+                                        .atMost(1),
+                                    P.sepBy(notLetClause(q.namedField), P.string(",").trim(P.optWhitespace)),
+                                    (withoutId, fields) => {
+                                        return { type, fields, showId: withoutId.length == 0 };
+                                    }
+                                )
+                            );
+                        }
+                        case "list":
+                            return precededByWhitespaceIfNotEof(
+                                () => ({ type, format: undefined, showId: true }),
+                                P.seqMap(
+                                    P.regexp(/WITHOUT\s+ID/i)
+                                        .skip(P.optWhitespace)
+                                        .atMost(1),
+                                    notLetClause(EXPRESSION.field).atMost(1),
+                                    (withoutId, format) => {
+                                        return {
+                                            type,
+                                            format: format.length == 1 ? format[0] : undefined,
+                                            showId: withoutId.length == 0,
+                                        };
+                                    }
+                                )
+                            );
+                        case "task":
+                            return P.succeed({ type });
+                        case "calendar":
+                            return P.whitespace.then(
+                                P.seqMap(q.namedField, field => {
                                     return {
                                         type,
-                                        format: format.length == 1 ? format[0] : undefined,
-                                        showId: withoutId.length == 0,
-                                    };
-                                }
-                            )
-                        );
-                    case "task":
-                        return P.succeed({ type });
-                    case "calendar":
-                        return P.whitespace.then(
-                            P.seqMap(q.namedField, field => {
-                                return {
-                                    type,
-                                    showId: true,
-                                    field,
-                                } as QueryHeader;
-                            })
-                        );
-                    default:
-                        return P.fail(`Unrecognized query type '${type}'`);
-                }
-            })
-            .desc("TABLE or LIST or TASK or CALENDAR"),
+                                        showId: true,
+                                        field,
+                                    } as QueryHeader;
+                                })
+                            );
+                        case "kanban":
+                            return P.whitespace.then(
+                                P.seqMap(q.namedField, field => {
+                                    return {
+                                        type,
+                                        field,
+                                    } as QueryHeader;
+                                })
+                            );
+                        default:
+                            return P.fail(`Unrecognized query type '${type}'`);
+                    }
+                })
+                .desc("TABLE or LIST or TASK or CALENDAR or KANBAN")
+        ),
     fromClause: q => P.seqMap(P.regexp(/FROM/i), P.whitespace, EXPRESSION.source, (_1, _2, source) => source),
+    joinClause: q =>
+        P.seqMap(
+            P.regexp(/(LEFT|INNER)\s+/i, 1).atMost(1),
+            P.regexp(/JOIN/i).skip(P.whitespace),
+            EXPRESSION.source,
+            P.whitespace.then(P.regexp(/AS/i)).then(P.whitespace).then(EXPRESSION.identifier).atMost(1),
+            P.whitespace.then(P.regexp(/ON/i)).then(P.whitespace).then(EXPRESSION.field),
+            (kind, _, source, name, on) => ({ kind, source, name: name.length == 0 ? undefined : name[0], on })
+        )
+            .chain(({ kind, source, name, on }) => {
+                name = name ?? defaultJoinName(source);
+                if (!name) return P.fail("a name for the joined source, like 'JOIN <source> AS <name> ON ...'");
+
+                return P.succeed({
+                    kind: kind.length == 0 ? "inner" : (kind[0].toLowerCase() as "inner" | "left"),
+                    source,
+                    name,
+                    on,
+                });
+            })
+            .desc("[LEFT] JOIN <source> [AS <name>] ON <condition>"),
     whereClause: q =>
         P.seqMap(P.regexp(/WHERE/i), P.whitespace, EXPRESSION.field, (where, _, field) => {
             return { type: "where", clause: field } as WhereStep;
@@ -189,21 +354,73 @@ export const QUERY_LANGUAGE = P.createLanguage<QueryLanguageTypes>({
             return { type: "flatten", field } as FlattenStep;
         }).desc("FLATTEN <value> [AS <name>]"),
     groupByClause: q =>
-        P.seqMap(P.regexp(/GROUP BY/i).skip(P.whitespace), q.namedField, (_, field) => {
-            return { type: "group", field } as GroupStep;
-        }).desc("GROUP BY <value> [AS <name>]"),
+        P.seqMap(
+            P.regexp(/GROUP BY/i).skip(P.whitespace),
+            q.namedField.sepBy1(P.string(",").trim(P.optWhitespace)),
+            P.whitespace
+                .then(P.regexp(/AGGREGATE/i))
+                .then(P.whitespace)
+                .then(q.aggregate.sepBy1(P.string(",").trim(P.optWhitespace)))
+                .atMost(1),
+            (_, fields, aggregates) => {
+                return {
+                    type: "group",
+                    fields,
+                    field: fields[0],
+                    aggregates: aggregates.length == 0 ? [] : aggregates[0],
+                } as GroupStep;
+            }
+        )
+            .chain(step => {
+                // Aggregates are stored on the group next to its key, rows and grouped fields, so they need other names.
+                let taken = new Set(["key", "rows"].concat(step.fields.map(field => field.name)));
+                for (let aggregate of step.aggregates) {
+                    if (taken.has(aggregate.name))
+                        return P.fail(`an aggregate name other than '${aggregate.name}', which is already in use`);
+                    taken.add(aggregate.name);
+                }
+
+                return P.succeed(step);
+            })
+            .desc("GROUP BY <value> [AS <name>], ... [AGGREGATE <function>(<value>) [AS <name>], ...]"),
+    letClause: q =>
+        P.seqMap(
+            P.regexp(/LET/i).skip(P.whitespace),
+            P.seqMap(EXPRESSION.identifier.skip(P.string("=").trim(P.optWhitespace)), EXPRESSION.field, (name, field) =>
+                QueryFields.named(name, field)
+            ).sepBy1(P.string(",").trim(P.optWhitespace)),
+            (_, fields) => {
+                return { type: "let", fields } as LetStep;
+            }
+        ).desc("LET <name> = <value>"),
     // Full query parsing.
-    clause: q => P.alt(q.fromClause, q.whereClause, q.sortByClause, q.limitClause, q.groupByClause, q.flattenClause),
+    clause: q =>
+        P.alt(
+            q.fromClause,
+            q.whereClause,
+            q.sortByClause,
+            q.limitClause,
+            q.groupByClause,
+            q.flattenClause,
+            q.letClause
+        ),
     query: q =>
         P.seqMap(
+            P.regexp(/EXPLAIN/i)
+                .skip(P.whitespace)
+                .trim(optionalWhitespaceOrComment)
+                .atMost(1),
             q.headerClause.trim(optionalWhitespaceOrComment),
             q.fromClause.trim(optionalWhitespaceOrComment).atMost(1),
+            q.joinClause.trim(optionalWhitespaceOrComment).many(),
             q.clause.trim(optionalWhitespaceOrComment).many(),
-            (header, from, clauses) => {
+            (explain, header, from, joins, clauses) => {
                 return {
                     header,
                     source: from.length == 0 ? Sources.folder("") : from[0],
+                    joins: joins.length == 0 ? undefined : joins,
                     operations: clauses,
+                    explain: explain.length == 0 ? undefined : true,
                     settings: DEFAULT_QUERY_SETTINGS,
                 } as Query;
             }
@@ -230,3 +447,9 @@ export function parseQuery(text: string): Result<Query, string> {
         return Result.failure("" + error);
     }
 }
+
+/** Where the given query fails to parse, along with what the parser expected there; undefined if the query parses. */
+export function queryParseFailure(text: string): { offset: number; expected: string[] } | undefined {
+    let result = QUERY_LANGUAGE.query.parse(text);
+    return result.status ? undefined : { offset: result.index.offset, expected: result.expected };
+}
@@ -0,0 +1,130 @@
+/**
+ * Answers simple WHERE clauses (field equality, tag checks, and `file.folder`) from the secondary indices kept in the
+ * full index, so that pages which cannot match are never loaded or serialized.
+ */
+import { fieldValueKey, FullIndex } from "data-index/index";
+import { Values } from "data-model/value";
+import { Field, FunctionField } from "expression/field";
+import { Query } from "query/query";
+import { getParentFolder } from "util/normalize";
+
+/**
+ * Find every page which may satisfy the given WHERE predicate using only the index, or undefined if the predicate
+ * cannot be answered by the index. Candidates are a superset of the matching pages - the predicate should still be
+ * evaluated against each of them.
+ */
+export function predicateCandidates(field: Field, index: FullIndex): Set<string> | undefined {
+    switch (field.type) {
+        case "binaryop":
+            if (field.op == "=") return equalityCandidates(field.left, field.right, index);
+            else if (field.op == "&") {
+                let left = predicateCandidates(field.left, index);
+                let right = predicateCandidates(field.right, index);
+                if (left === undefined) return right;
+                if (right === undefined) return left;
+
+                return new Set(Array.from(left).filter(path => right?.has(path)));
+            } else if (field.op == "|") {
+                let left = predicateCandidates(field.left, index);
+                let right = predicateCandidates(field.right, index);
+                if (left === undefined || right === undefined) return undefined;
+
+                return new Set([...left, ...right]);
+            }
+
+            return undefined;
+        case "function":
+            return tagCandidates(field, index);
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Find every page which may satisfy all of the WHERE clauses at the start of a query, or undefined if none of them can
+ * be answered by the index. Only pages (not CSV rows or tasks) are narrowed.
+ */
+export function indexedCandidates(query: Query, index: FullIndex): Set<string> | undefined {
+    // Joined rows and task rows have fields which are not in the index.
+    if (query.header.type == "task" || (query.joins?.length ?? 0) > 0) return undefined;
+
+    let result: Set<string> | undefined = undefined;
+    for (let op of query.operations) {
+        // Later clauses may see fields changed by a FLATTEN, GROUP BY, or LET.
+        if (op.type != "where") break;
+
+        let candidates = predicateCandidates(op.clause, index);
+        if (candidates === undefined) continue;
+
+        let current: Set<string> | undefined = result;
+        result = current ? new Set(Array.from(candidates).filter(path => current?.has(path))) : candidates;
+    }
+
+    return result;
+}
+
+/** Candidates for `field = literal` (or `literal = field`), where the field is a top-level page field or `file.folder`. */
+function equalityCandidates(left: Field, right: Field, index: FullIndex): Set<string> | undefined {
+    if (left.type == "literal") [left, right] = [right, left];
+    if (right.type != "literal") return undefined;
+
+    let value = right.value;
+    if (isFileField(left, "folder")) {
+        if (!Values.isString(value)) return new Set();
+
+        let folder = value;
+        return new Set(
+            Array.from(index.prefix.get(folder, path => index.isPage(path))).filter(
+                path => Values.compareValue(getParentFolder(path), folder) == 0
+            )
+        );
+    }
+
+    // 'this' is the origin page, not a field of the row.
+    if (left.type != "variable" || left.name == "this" || left.name == "file") return undefined;
+
+    let key = fieldValueKey(left.name, value);
+    if (key === undefined) return undefined;
+
+    return new Set(index.fieldValues.getInverse(key));
+}
+
+/** Candidates for `contains`, `icontains`, or `econtains` of a string in `file.tags` or `file.etags`. */
+function tagCandidates(field: FunctionField, index: FullIndex): Set<string> | undefined {
+    if (field.func.type != "variable" || field.arguments.length != 2) return undefined;
+
+    let [haystack, needle] = field.arguments;
+    if (needle.type != "literal" || !Values.isString(needle.value)) return undefined;
+
+    let tags = isFileField(haystack, "tags") ? index.tags : isFileField(haystack, "etags") ? index.etags : undefined;
+    if (!tags) return undefined;
+
+    let search = needle.value.toLocaleLowerCase();
+    switch (field.func.name) {
+        case "econtains":
+            return new Set(tags.getInverse(search));
+        case "contains":
+        case "icontains":
+            // Tags are indexed in lower case, so a case-insensitive substring search is a superset of both.
+            let result = new Set<string>();
+            for (let tag of tags.delegate.invMap.keys()) {
+                if (!tag.includes(search)) continue;
+                for (let path of tags.delegate.getInverse(tag)) result.add(path);
+            }
+
+            return result;
+        default:
+            return undefined;
+    }
+}
+
+/** Determine if the field is `file.<name>`, as parsed from either dot or bracket syntax. */
+function isFileField(field: Field, name: string): boolean {
+    return (
+        field.type == "index" &&
+        field.object.type == "variable" &&
+        field.object.name == "file" &&
+        field.index.type == "literal" &&
+        field.index.value == name
+    );
+}
@@ -2,8 +2,8 @@
 import { Source } from "data-index/source";
 import { Field } from "expression/field";
 
-/** The supported query types (corresponding to view types). */
-export type QueryType = "list" | "table" | "task" | "calendar";
+/** The supported query types (corresponding to view types); "custom" covers all query types added by extensions. */
+export type QueryType = "list" | "table" | "task" | "calendar" | "kanban" | "custom";
 
 /** A single-line comment. */
 export type Comment = string;
@@ -24,12 +24,26 @@ export interface QuerySortBy {
     direction: "ascending" | "descending";
 }
 
+/** An aggregate computed over the rows of each group, such as `sum(hours) AS total`. */
+export interface QueryAggregate {
+    /** The effective name of this aggregate. */
+    name: string;
+    /** The name of the function to aggregate with; 'count' is special-cased, otherwise any list function works. */
+    func: string;
+    /** The value to evaluate on each row of the group; if absent, the rows themselves are aggregated. */
+    field?: Field;
+}
+
 /** Utility functions for quickly creating fields. */
 export namespace QueryFields {
     export function named(name: string, field: Field): NamedField {
         return { name, field } as NamedField;
     }
 
+    export function aggregate(name: string, func: string, field?: Field): QueryAggregate {
+        return { name, func, field };
+    }
+
     export function sortBy(field: Field, dir: "ascending" | "descending"): QuerySortBy {
         return { field, direction: dir };
     }
@@ -69,7 +83,23 @@ export interface CalendarQuery {
     field: NamedField;
 }
 
-export type QueryHeader = ListQuery | TableQuery | TaskQuery | CalendarQuery;
+/** A query which renders notes as cards in columns, with one column per distinct value of a field. */
+export interface KanbanQuery {
+    type: "kanban";
+    /** The field to group cards into columns by; moving a card between columns rewrites this field. */
+    field: NamedField;
+}
+
+/** A query of a type registered by an extension, like `GANTT`. */
+export interface CustomQuery {
+    type: "custom";
+    /** The keyword of the query type, in lower case. */
+    name: string;
+    /** Whatever the parser of the query type returned for the rest of the header line. */
+    options: unknown;
+}
+
+export type QueryHeader = ListQuery | TableQuery | TaskQuery | CalendarQuery | KanbanQuery | CustomQuery;
 
 /** A step which only retains rows whose 'clause' field is truthy. */
 export interface WhereStep {
@@ -95,10 +125,30 @@ export interface FlattenStep {
     field: NamedField;
 }
 
-/** A step which groups rows into groups by the given field. */
+/** A step which groups rows into groups by the given fields, optionally computing aggregates for each group. */
 export interface GroupStep {
     type: "group";
+    /** The fields to group by; if there are several, the group key is a list of their values. */
+    fields: NamedField[];
+    /** @deprecated The first field to group by; use {@link groupFields} to read the fields of any group step. */
     field: NamedField;
+    /** Aggregates to compute over the rows of each group, which are added to the group as named fields. */
+    aggregates: QueryAggregate[];
+}
+
+/**
+ * The fields a group step groups by. Steps built by scripts before grouping by several fields was supported only have
+ * `field` (and no aggregates).
+ */
+export function groupFields(step: GroupStep): NamedField[] {
+    return step.fields ?? [step.field];
+}
+
+/** A step which binds named values on each row, so they can be reused by later steps. */
+export interface LetStep {
+    type: "let";
+    /** The values to bind, in order; later values can refer to earlier ones. */
+    fields: NamedField[];
 }
 
 /** A virtual step which extracts an array of values from each row. */
@@ -107,7 +157,19 @@ export interface ExtractStep {
     fields: Record<string, Field>;
 }
 
-export type QueryOperation = WhereStep | SortByStep | LimitStep | FlattenStep | GroupStep | ExtractStep;
+export type QueryOperation = WhereStep | SortByStep | LimitStep | FlattenStep | GroupStep | LetStep | ExtractStep;
+
+/** A source which is joined onto the rows of the main query source, like `JOIN #person ON <condition>`. */
+export interface QueryJoin {
+    /** Inner joins only keep rows which matched something; left joins keep every row, even without a match. */
+    kind: "inner" | "left";
+    /** The source to join rows from. */
+    source: Source;
+    /** The name that the joined row is available under in the 'on' condition and all later operations. */
+    name: string;
+    /** The condition under which a row from the joined source matches a row from the main source. */
+    on: Field;
+}
 
 /**
  * A query over the Obsidian database. Queries have a specific and deterministic execution order:
@@ -117,6 +179,10 @@ export interface Query {
     header: QueryHeader;
     /** The source that file candidates will come from. */
     source: Source;
+    /** Additional sources which are joined onto the rows of the main source, in order. */
+    joins?: QueryJoin[];
     /** The operations to apply to the data to produce the final result that will be rendered. */
     operations: QueryOperation[];
+    /** If true, render diagnostics about how the query executed (from an `EXPLAIN` prefix) instead of the results. */
+    explain?: boolean;
 }
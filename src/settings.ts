@@ -17,6 +17,8 @@ export interface QuerySettings {
     recursiveSubTaskCompletion: boolean;
     /** If true, render a modal which shows no results were returned. */
     warnOnEmptyResult: boolean;
+    /** If true, queries are checked for likely type errors and unknown functions, rendering warnings above the view. */
+    warnOnTypeErrors: boolean;
     /** Whether or not automatic view refreshing is enabled. */
     refreshEnabled: boolean;
     /** The interval that views are refreshed, by default. */
@@ -43,6 +45,7 @@ export const DEFAULT_QUERY_SETTINGS: QuerySettings = {
     taskCompletionDateFormat: "yyyy-MM-dd",
     recursiveSubTaskCompletion: false,
     warnOnEmptyResult: true,
+    warnOnTypeErrors: false,
     refreshEnabled: true,
     refreshInterval: 2500,
     defaultDateFormat: "MMMM dd, yyyy",
@@ -90,6 +93,12 @@ export interface DataviewSettings extends QuerySettings, ExportSettings {
     prettyRenderInlineFieldsInLivePreview: boolean;
     /** The keyword for DataviewJS blocks. */
     dataviewJsKeyword: string;
+    /** If true, attachments (images, PDFs, audio and video) are indexed as pages. */
+    indexAttachments: boolean;
+    /** If true, a daily snapshot of the fields of every page is kept, so that changes to fields can be queried. */
+    fieldHistory: boolean;
+    /** The markdown file (or folder of markdown files) which user-defined functions are loaded from. */
+    functionsPath: string;
 }
 
 /** Default settings for dataview on install. */
@@ -106,5 +115,8 @@ export const DEFAULT_SETTINGS: DataviewSettings = {
         prettyRenderInlineFields: true,
         prettyRenderInlineFieldsInLivePreview: true,
         dataviewJsKeyword: "dataviewjs",
+        indexAttachments: false,
+        fieldHistory: false,
+        functionsPath: "dataview-functions.md",
     },
 };
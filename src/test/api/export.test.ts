@@ -0,0 +1,53 @@
+import { parseCsv } from "data-import/csv";
+import { parseFrontmatter } from "data-import/markdown-file";
+import { Link, Widgets } from "data-model/value";
+import { DateTime, Duration } from "luxon";
+import { csvTable, exportTable, jsonTable } from "ui/export/data";
+
+const TABLE = {
+    headers: ["File", "due", "time", "note"],
+    rows: [
+        [Link.file("Projects/A.md"), DateTime.fromISO("2022-01-01"), Duration.fromObject({ hours: 2 }), 'a, "b"'],
+        [Link.file("Projects/B.md"), DateTime.fromISO("2022-02-01"), null, "plain"],
+    ],
+};
+
+describe("Export Tables", () => {
+    test("List With IDs", () => {
+        let table = exportTable({
+            type: "list",
+            values: [Widgets.listPair(Link.file("a.md"), 1)],
+            primaryMeaning: { type: "path" },
+        });
+        expect(table).toEqual({ headers: ["id", "value"], rows: [[Link.file("a.md"), 1]] });
+    });
+
+    test("Kanban", () => {
+        let table = exportTable({ type: "kanban", columns: [{ key: "todo", cards: [Link.file("a.md")] }] });
+        expect(table).toEqual({ headers: ["column", "card"], rows: [["todo", Link.file("a.md")]] });
+    });
+});
+
+describe("CSV", () => {
+    test("Quoting", () => {
+        expect(csvTable(TABLE).split("\n")[1]).toEqual('[[Projects/A.md]],2022-01-01,2 hours,"a, ""b"""');
+    });
+
+    test("Round Trip", () => {
+        let rows = parseCsv(csvTable(TABLE)).rows;
+        expect(rows[0].due).toEqual(DateTime.fromISO("2022-01-01"));
+        expect(rows[0].time).toEqual(Duration.fromObject({ hours: 2 }));
+        expect(rows[0].note).toEqual('a, "b"');
+        expect(rows[1].File).toEqual(Link.file("Projects/B.md"));
+    });
+});
+
+describe("JSON", () => {
+    test("Round Trip", () => {
+        let rows = parseFrontmatter(JSON.parse(jsonTable(TABLE))) as any[];
+        expect(rows[0].due).toEqual(DateTime.fromISO("2022-01-01"));
+        expect(rows[0].time).toEqual(Duration.fromObject({ hours: 2 }));
+        expect(rows[1].time).toBeNull();
+        expect(rows[1].File).toEqual(Link.file("Projects/B.md"));
+    });
+});
@@ -0,0 +1,121 @@
+import { Extension, QUERY_TYPES, widgetRenderer, WIDGET_RENDERERS } from "api/extensions";
+import { Widget, Widgets } from "data-model/value";
+import { parseQuery } from "query/parse";
+import { testIndex } from "test/common";
+
+class Progress extends Widget {
+    public constructor(public value: number) {
+        super("progress");
+    }
+
+    public markdown(): string {
+        return `${this.value}%`;
+    }
+}
+
+function extension(plugin: string): Extension {
+    let index = testIndex();
+    return new Extension(plugin, index);
+}
+
+afterEach(() => {
+    QUERY_TYPES.clear();
+    WIDGET_RENDERERS.length = 0;
+});
+
+describe("Functions", () => {
+    test("Register and unregister", () => {
+        let ext = extension("my-plugin").function("double", (_ctx, x) => (x as number) * 2);
+        expect(ext.index.functions.all["double"]).toBeDefined();
+
+        ext.unregister();
+        expect(ext.index.functions.all["double"]).toBeUndefined();
+    });
+
+    test("Builtin collision", () => {
+        let ext = extension("my-plugin").function("double", (_ctx, x) => x);
+        expect(() => ext.function("length", () => 0)).toThrow(/'length' is a builtin function/);
+        expect(ext.index.functions.all["double"]).toBeDefined();
+        expect(Object.keys(ext.functions)).toEqual(["double"]);
+    });
+});
+
+describe("Query types", () => {
+    const render = () => {};
+
+    test("Parse registered query type", () => {
+        extension("my-plugin").queryType("GANTT", header => header.split(/\s+/), render);
+
+        let query = parseQuery('GANTT start end\nFROM "projects"\nWHERE status');
+        expect(query.successful).toBe(true);
+        expect(query.orElseThrow().header).toEqual({ type: "custom", name: "gantt", options: ["start", "end"] });
+        expect(query.orElseThrow().operations).toHaveLength(1);
+    });
+
+    test("Parse one-line query", () => {
+        extension("my-plugin").queryType("GANTT", header => header.split(/\s+/), render);
+
+        let query = parseQuery("GANTT start end FROM #project WHERE status SORT start").orElseThrow();
+        expect(query.header).toEqual({ type: "custom", name: "gantt", options: ["start", "end"] });
+        expect(query.source).toEqual({ type: "tag", tag: "#project" });
+        expect(query.operations.map(op => op.type)).toEqual(["where", "sort"]);
+    });
+
+    test("Builtin query types still parse", () => {
+        extension("my-plugin").queryType("TABLEAU", () => null, render);
+        expect(parseQuery("TABLE file.name").orElseThrow().header.type).toEqual("table");
+        expect(parseQuery("TABLEAU").orElseThrow().header).toEqual({ type: "custom", name: "tableau", options: null });
+    });
+
+    test("Header parse errors", () => {
+        extension("my-plugin").queryType(
+            "GANTT",
+            header => {
+                if (!header) throw Error("missing date field");
+            },
+            render
+        );
+
+        let query = parseQuery("GANTT\nFROM #project");
+        expect(query.successful).toBe(false);
+        if (!query.successful) expect(query.error).toContain("missing date field");
+    });
+
+    test("Unregistered query types do not parse", () => {
+        let ext = extension("my-plugin").queryType("GANTT", () => null, render);
+        ext.unregister();
+        expect(parseQuery("GANTT").successful).toBe(false);
+    });
+
+    test("Invalid registrations", () => {
+        expect(() => extension("a").queryType("TABLE", () => null, render)).toThrow(/builtin/);
+        expect(() => extension("a").queryType("not valid", () => null, render)).toThrow(/not a valid/);
+
+        extension("a").queryType("GANTT", () => null, render);
+        expect(() => extension("b").queryType("gantt", () => null, render)).toThrow(/already registered by a/);
+    });
+});
+
+describe("Widget renderers", () => {
+    test("Lookup by class", () => {
+        expect(widgetRenderer(new Progress(10))).toBeUndefined();
+
+        let render = () => {};
+        let ext = extension("my-plugin").renderer(Progress, render);
+        expect(widgetRenderer(new Progress(10))?.render).toBe(render);
+        expect(widgetRenderer(Widgets.externalLink("https://example.com"))).toBeUndefined();
+
+        ext.unregister();
+        expect(widgetRenderer(new Progress(10))).toBeUndefined();
+    });
+
+    test("Later registrations take precedence", () => {
+        let first = () => {},
+            second = () => {};
+        extension("a").renderer(Widget, first);
+        extension("b").renderer(Progress, second);
+
+        expect(widgetRenderer(new Progress(1))?.render).toBe(second);
+        expect(widgetRenderer(Widgets.externalLink("https://example.com"))?.render).toBe(first);
+    });
+});
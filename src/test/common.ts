@@ -1,5 +1,14 @@
+import {
+    FullIndex,
+    IndexMap,
+    PathFilters,
+    PrefixIndex,
+    StarredCache,
+    ValueCaseInsensitiveIndexMap,
+} from "data-index/index";
 import { Literal } from "data-model/value";
 import { Context, LinkHandler } from "expression/context";
+import { FunctionRegistry } from "expression/functions";
 import { EXPRESSION } from "expression/parse";
 import { DEFAULT_QUERY_SETTINGS } from "settings";
 
@@ -27,3 +36,56 @@ export function simpleLinkHandler(): LinkHandler {
 export function simpleContext(): Context {
     return new Context(simpleLinkHandler(), DEFAULT_QUERY_SETTINGS);
 }
+
+/** The members of the index which {@link testIndex} provides; nothing else of the index is available in tests. */
+export type TestIndex = Pick<
+    FullIndex,
+    "functions" | "tags" | "etags" | "links" | "fieldValues" | "isPage" | "serializedPage" | "revision" | "touch"
+> & {
+    prefix: Pick<PrefixIndex, "get" | "folders" | "nodeExists" | "pathExists" | "resolveRelative">;
+    starred: Pick<StarredCache, "starred">;
+};
+
+/**
+ * Create a stand-in for the index containing the files at the given paths, with empty tag, link and field indices
+ * which tests can fill in. Any member can be replaced through `overrides`.
+ */
+export function testIndex(paths: string[] = [], overrides: Partial<TestIndex> = {}): FullIndex {
+    const inFolder = (path: string, folder: string) => folder == "" || path.startsWith(folder + "/");
+
+    let index: TestIndex = {
+        functions: new FunctionRegistry(),
+        tags: new ValueCaseInsensitiveIndexMap(),
+        etags: new ValueCaseInsensitiveIndexMap(),
+        links: new IndexMap(),
+        fieldValues: new IndexMap(),
+        prefix: {
+            get: (prefix, filter) =>
+                new Set(paths.filter(path => inFolder(path, prefix) && (filter ? filter(path) : true))),
+            folders: (prefix = "") =>
+                new Set(
+                    paths
+                        .flatMap(path =>
+                            path
+                                .split("/")
+                                .slice(0, -1)
+                                .map((_, i, parts) => parts.slice(0, i + 1).join("/"))
+                        )
+                        .filter(folder => folder != prefix && inFolder(folder, prefix))
+                ),
+            nodeExists: prefix => paths.some(path => inFolder(path, prefix)),
+            pathExists: path => paths.includes(path),
+            resolveRelative: path => path,
+        },
+        starred: { starred: () => false },
+        isPage: path => PathFilters.markdown(path),
+        serializedPage: () => undefined,
+        revision: 0,
+        touch: () => {
+            index.revision += 1;
+        },
+        ...overrides,
+    };
+
+    return index as unknown as FullIndex;
+}
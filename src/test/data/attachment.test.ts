@@ -0,0 +1,74 @@
+import { imageDimensions, isAttachment, parseAttachment, pdfPageCount } from "data-import/attachment-file";
+import { Link } from "data-model/value";
+import { testIndex } from "test/common";
+
+const STAT = { ctime: 0, mtime: 0, size: 2048 };
+
+/** Build a byte array from a mix of ASCII strings and raw bytes. */
+function bytes(...parts: (string | number[])[]): Uint8Array {
+    let result: number[] = [];
+    for (let part of parts) {
+        if (typeof part === "string") for (let char of part) result.push(char.charCodeAt(0));
+        else result.push(...part);
+    }
+
+    return new Uint8Array(result);
+}
+
+const PNG = bytes([0x89], "PNG\r\n", [0x1a, 0x0a], [0, 0, 0, 13], "IHDR", [0, 0, 0x03, 0x20], [0, 0, 0x02, 0x58]);
+const GIF = bytes("GIF89a", [0x40, 0x01, 0xf0, 0x00]);
+const JPEG = bytes(
+    [0xff, 0xd8],
+    [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00],
+    [0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0xe0, 0x02, 0x80, 0x03],
+    [0, 0, 0, 0, 0, 0, 0, 0]
+);
+const PDF = bytes(
+    "%PDF-1.4\n1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n",
+    "2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R 5 0 R] /Count 3 >> endobj\n",
+    "3 0 obj << /Type /Page /Parent 2 0 R >> endobj\n"
+);
+
+describe("Image Dimensions", () => {
+    test("PNG", () => expect(imageDimensions(PNG)).toEqual({ width: 800, height: 600 }));
+    test("GIF", () => expect(imageDimensions(GIF)).toEqual({ width: 320, height: 240 }));
+    test("JPEG", () => expect(imageDimensions(JPEG)).toEqual({ width: 640, height: 480 }));
+    test("Unknown", () => expect(imageDimensions(bytes("not an image at all, really"))).toBeUndefined());
+});
+
+describe("PDF Page Count", () => {
+    test("Page Tree", () => expect(pdfPageCount(PDF)).toEqual(3));
+    test("Page Objects", () => expect(pdfPageCount(bytes("<< /Type /Page >> << /Type /Page >>"))).toEqual(2));
+    test("Unknown", () => expect(pdfPageCount(bytes("%PDF-1.7 compressed"))).toBeUndefined());
+});
+
+describe("Parse Attachment", () => {
+    test("Extensions", () => {
+        expect(isAttachment("images/a.PNG")).toBe(true);
+        expect(isAttachment("docs/b.pdf")).toBe(true);
+        expect(isAttachment("audio/c.mp3")).toBe(true);
+        expect(isAttachment("notes/d.md")).toBe(false);
+        expect(isAttachment("data/e.csv")).toBe(false);
+    });
+
+    test("Serialized", () => {
+        let meta = parseAttachment("images/diagram.png", PNG.buffer, STAT);
+        let index = testIndex();
+        index.links.set("notes/a.md", new Set(["images/diagram.png"]));
+
+        let page = meta.serialize(index);
+        expect(page.file.ext).toEqual("png");
+        expect(page.file.size).toEqual(2048);
+        expect(page.file.width).toEqual(800);
+        expect(page.file.height).toEqual(600);
+        expect(page.file.pages).toBeUndefined();
+        expect(page.file.inlinks).toEqual([Link.file("notes/a.md")]);
+    });
+
+    test("Without Contents", () => {
+        let meta = parseAttachment("audio/song.mp3", undefined, STAT);
+        expect(meta.size).toEqual(2048);
+        expect(meta.width).toBeUndefined();
+        expect(meta.tags.size).toEqual(0);
+    });
+});
@@ -0,0 +1,63 @@
+import { parseCanvas } from "data-import/canvas-file";
+import { Link } from "data-model/value";
+import { testIndex } from "test/common";
+
+const STAT = { ctime: 0, mtime: 0, size: 100 };
+const CANVAS = JSON.stringify({
+    nodes: [
+        { id: "a", type: "text", text: "Quarterly planning", x: 0, y: 10, width: 200, height: 100, color: "1" },
+        { id: "b", type: "file", file: "Projects/Alpha.md", x: 300, y: 10, width: 200, height: 100 },
+        { id: "c", type: "link", url: "https://example.com", x: 0, y: 200, width: 200, height: 100 },
+        { id: "d", type: "group", label: "Backlog", x: -50, y: -50, width: 600, height: 400 },
+        { id: "e", type: "unknown" },
+    ],
+    edges: [{ id: "ab", fromNode: "a", fromSide: "right", toNode: "b", toSide: "left", label: "owns" }],
+});
+
+describe("Parse Canvas", () => {
+    test("Cards", () => {
+        let meta = parseCanvas("Boards/Plan.canvas", CANVAS, STAT);
+        expect(meta.cards).toEqual([
+            { id: "a", type: "text", text: "Quarterly planning", x: 0, y: 10, width: 200, height: 100, color: "1" },
+            {
+                id: "b",
+                type: "file",
+                file: Link.file("Projects/Alpha.md", true),
+                x: 300,
+                y: 10,
+                width: 200,
+                height: 100,
+            },
+            { id: "c", type: "link", url: "https://example.com", x: 0, y: 200, width: 200, height: 100 },
+            { id: "d", type: "group", label: "Backlog", x: -50, y: -50, width: 600, height: 400 },
+        ]);
+    });
+
+    test("Edges", () => {
+        let meta = parseCanvas("Boards/Plan.canvas", CANVAS, STAT);
+        expect(meta.edges).toEqual([{ id: "ab", from: "a", to: "b", label: "owns" }]);
+    });
+
+    test("Links and Tokens", () => {
+        let meta = parseCanvas("Boards/Plan.canvas", CANVAS, STAT);
+        expect(meta.links).toEqual([Link.file("Projects/Alpha.md", true)]);
+        expect(meta.tokens).toEqual(new Set(["quarterly", "planning", "backlog", "owns"]));
+    });
+
+    test("Empty File", () => {
+        let meta = parseCanvas("Boards/New.canvas", "", STAT);
+        expect(meta.cards).toEqual([]);
+        expect(meta.edges).toEqual([]);
+    });
+});
+
+test("Serialized Canvas", () => {
+    let index = testIndex();
+    let page = parseCanvas("Boards/Plan.canvas", CANVAS, STAT).serialize(index);
+
+    expect(page.file.ext).toEqual("canvas");
+    expect(page.file.name).toEqual("Plan.canvas");
+    expect(page.file.cards).toHaveLength(4);
+    expect(page.file.edges).toHaveLength(1);
+    expect(page.file.outlinks).toEqual([Link.file("Projects/Alpha.md", true)]);
+});
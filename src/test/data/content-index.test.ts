@@ -0,0 +1,57 @@
+import { IndexMap } from "data-index/index";
+import { contentCandidates, resolveContentMatches } from "data-index/resolver";
+import { Sources } from "data-index/source";
+import { TFile } from "obsidian";
+import { testIndex } from "test/common";
+
+/** Build a token index over some in-memory pages. */
+function tokens(pages: Record<string, string[]>): IndexMap {
+    let index = new IndexMap();
+    for (let [path, words] of Object.entries(pages)) index.set(path, new Set(words));
+    return index;
+}
+
+const INDEX = tokens({
+    "a.md": ["quarterly", "review", "notes"],
+    "b.md": ["review", "quarterly"],
+    "c.md": ["semiquarterly", "reviewing"],
+    "d.md": ["quarter", "review"],
+});
+
+test("Single word", () => {
+    expect(contentCandidates("notes", INDEX)).toEqual(new Set(["a.md"]));
+    expect(contentCandidates("quarter", INDEX)).toEqual(new Set(["a.md", "b.md", "c.md", "d.md"]));
+});
+
+test("Phrase", () => {
+    expect(contentCandidates("quarterly review", INDEX)).toEqual(new Set(["a.md", "b.md", "c.md"]));
+    expect(contentCandidates("Quarterly Review", INDEX)).toEqual(new Set(["a.md", "b.md", "c.md"]));
+});
+
+test("Whole words", () => {
+    expect(contentCandidates(" quarter ", INDEX)).toEqual(new Set(["d.md"]));
+    expect(contentCandidates("quarterly review notes", INDEX)).toEqual(new Set(["a.md"]));
+});
+
+test("Missing word", () => {
+    expect(contentCandidates("annual review", INDEX)).toEqual(new Set());
+});
+
+test("Regex patterns are not narrowed", () => {
+    expect(contentCandidates("quarter(ly)? review", INDEX)).toBeUndefined();
+    expect(contentCandidates("\\d+", INDEX)).toBeUndefined();
+    expect(contentCandidates("  ", INDEX)).toBeUndefined();
+});
+
+test("Regex patterns only search markdown pages", async () => {
+    const FILES: Record<string, string> = { "a.md": "12 hours", "b.canvas": "12 hours", "c.png": "12 hours" };
+    let vault = {
+        getAbstractFileByPath: (path: string) => Object.assign(new TFile(), { path }),
+        cachedRead: async (file: TFile) => FILES[file.path],
+    };
+    let pages = new Map(Object.keys(FILES).map(path => [path, {}]));
+    let index = Object.assign(testIndex(), { vault, pages, tokens: new IndexMap() });
+
+    let matches = await resolveContentMatches(Sources.content("\\d+ hours"), index);
+    expect(matches.orElseThrow().get("\\d+ hours")).toEqual(new Set(["a.md"]));
+});
@@ -0,0 +1,84 @@
+import { parseCsv, validateCsvSchema } from "data-import/csv";
+import { CsvCache } from "data-index/index";
+import { Link } from "data-model/value";
+import { DateTime, Duration } from "luxon";
+
+describe("Undeclared Types", () => {
+    test("Typed Values", () => {
+        let result = parseCsv("count,done,due,time,ref\n1,true,2022-01-01,2 hours,[[Note]]\n2.5,FALSE,2022-02-01,,\n");
+        expect(result.errors).toEqual([]);
+        expect(result.rows[0]).toEqual({
+            count: 1,
+            done: true,
+            due: DateTime.fromISO("2022-01-01"),
+            time: Duration.fromObject({ hours: 2 }),
+            ref: Link.file("Note"),
+        });
+        expect(result.rows[1]).toEqual({
+            count: 2.5,
+            done: false,
+            due: DateTime.fromISO("2022-02-01"),
+            time: null,
+            ref: null,
+        });
+    });
+
+    test("Mixed Columns", () => {
+        let result = parseCsv("value\n2022-01-01\nhello\n12\n[[Note]]\n");
+        expect(result.errors).toEqual([]);
+        expect(result.rows.map(r => r.value)).toEqual([DateTime.fromISO("2022-01-01"), "hello", 12, Link.file("Note")]);
+    });
+
+    test("Canonical Names", () => {
+        let result = parseCsv("Due Date\n3\n");
+        expect(result.rows[0]).toEqual({ "Due Date": 3, "due-date": 3 });
+    });
+});
+
+describe("Declared Types", () => {
+    test("Header Annotations", () => {
+        let result = parseCsv("id:text,owner:link,time:12\n007,Alice,x\n");
+        expect(result.errors).toEqual([]);
+        expect(result.rows[0]).toEqual({ id: "007", owner: Link.file("Alice"), "time:12": "x", time12: "x" });
+    });
+
+    test("Schema", () => {
+        let result = parseCsv("id;due\n1;2022-01-01\n", { delimiter: ";", columns: { id: "text", due: "date" } });
+        expect(result.rows[0]).toEqual({ id: "1", due: DateTime.fromISO("2022-01-01") });
+    });
+
+    test("Row Errors", () => {
+        let result = parseCsv("name,due:date\na,2022-01-01\nb,tomorrow\nc,\n");
+        expect(result.rows.map(r => r.due)).toEqual([DateTime.fromISO("2022-01-01"), null, null]);
+        expect(result.errors).toEqual([{ row: 2, column: "due", message: "'tomorrow' is not a valid date" }]);
+        expect(CsvCache.describeErrors("data.csv", result)).toEqual([
+            "CSV 'data.csv', row 2 (column 'due'): 'tomorrow' is not a valid date",
+        ]);
+    });
+
+    test("Many Row Errors", () => {
+        let result = parseCsv("n:number\n" + "x\n".repeat(CsvCache.MAX_REPORTED_ERRORS + 3));
+        let described = CsvCache.describeErrors("data.csv", result);
+        expect(result.rows.length).toEqual(CsvCache.MAX_REPORTED_ERRORS + 3);
+        expect(described.length).toEqual(CsvCache.MAX_REPORTED_ERRORS + 1);
+        expect(described[described.length - 1]).toEqual("CSV 'data.csv': ... and 3 more errors.");
+    });
+
+    test("Tabs", () => {
+        let result = parseCsv("a\tb\n1\tx y\n", { delimiter: "\t" });
+        expect(result.rows[0]).toEqual({ a: 1, b: "x y" });
+    });
+});
+
+describe("Schema Validation", () => {
+    test("Valid", () => {
+        let schema = { delimiter: ";", columns: { due: "date" } };
+        expect(validateCsvSchema(schema)).toEqual(schema);
+    });
+
+    test("Invalid", () => {
+        expect(typeof validateCsvSchema([])).toEqual("string");
+        expect(typeof validateCsvSchema({ delimiter: "" })).toEqual("string");
+        expect(validateCsvSchema({ columns: { due: "day" } })).toContain("unknown type 'day'");
+    });
+});
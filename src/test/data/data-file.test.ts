@@ -0,0 +1,64 @@
+import { selectDataRows } from "data-import/data-file";
+import { dataFileOptions } from "data-index/resolver";
+import { parseFrontmatter } from "data-import/markdown-file";
+import { Link } from "data-model/value";
+import { DateTime } from "luxon";
+import { parseQuery } from "query/parse";
+import { testIndex } from "test/common";
+
+const DATA = parseFrontmatter({
+    library: {
+        books: [
+            { Title: "Dune", read: "2022-01-01", author: "[[Frank Herbert]]" },
+            { Title: "Emma", read: null },
+        ],
+        "a/b": ["x", 2],
+    },
+});
+
+describe("Select Rows", () => {
+    test("Top Level", () => {
+        expect(selectDataRows(parseFrontmatter([1, { a: 2 }])).orElseThrow()).toEqual([{ value: 1 }, { a: 2 }]);
+    });
+
+    test("Converted Values", () => {
+        let rows = selectDataRows(DATA, "library.books").orElseThrow();
+        expect(rows[0]).toEqual({
+            Title: "Dune",
+            title: "Dune",
+            read: DateTime.fromISO("2022-01-01"),
+            author: Link.file("Frank Herbert"),
+        });
+        expect(rows[1]).toEqual({ Title: "Emma", title: "Emma", read: null });
+    });
+
+    test("JSON Pointer", () => {
+        expect(selectDataRows(DATA, "/library/books").orElseThrow()).toHaveLength(2);
+        expect(selectDataRows(DATA, "/library/a~1b").orElseThrow()).toEqual([{ value: "x" }, { value: 2 }]);
+    });
+
+    test("Errors", () => {
+        expect(selectDataRows(DATA).successful).toBe(false);
+        expect(selectDataRows(DATA, "library.books.0").successful).toBe(false);
+        expect(selectDataRows(DATA, "/library/movies").successful).toBe(false);
+    });
+});
+
+describe("Source Options", () => {
+    const options = (query: string) =>
+        dataFileOptions(parseQuery(query).orElseThrow().source, testIndex(["a.json", "b.csv"]));
+
+    test("Every Pointer", () => {
+        expect(options(`LIST FROM json("a.json", "/x") or json("a.json", "/y")`).get("a.json")).toEqual([
+            { pointer: "/x" },
+            { pointer: "/y" },
+        ]);
+    });
+
+    test("Distinct", () => {
+        expect(options(`LIST FROM csv("b.csv") or -csv("b.csv") or csv("b.csv", ";")`).get("b.csv")).toEqual([
+            { delimiter: undefined },
+            { delimiter: ";" },
+        ]);
+    });
+});
@@ -0,0 +1,55 @@
+import { Dependencies, sourceMayContain } from "data-index/dependencies";
+import { FullIndex } from "data-index/index";
+import { Sources } from "data-index/source";
+import { testIndex } from "test/common";
+
+/** A stand-in for the index with the given tags and links. */
+function index(tags: Record<string, string[]>, links: Record<string, string[]> = {}): FullIndex {
+    let result = testIndex(Object.keys(tags));
+    for (let [path, values] of Object.entries(tags)) result.tags.set(path, new Set(values));
+    for (let [path, values] of Object.entries(links)) result.links.set(path, new Set(values));
+    return result;
+}
+
+const INDEX = index({ "a.md": ["#work"], "b.md": ["#Work/meetings"], "c.md": ["#home"] }, { "c.md": ["b.md"] });
+
+describe("Affected By", () => {
+    test("Global", () => expect(Dependencies.everything().affectedBy(new Set(), INDEX)).toBe(true));
+    test("Untracked Change", () => expect(new Dependencies().affectedBy(undefined, INDEX)).toBe(true));
+    test("Nothing Changed", () => expect(new Dependencies().path("a.md").affectedBy(new Set(), INDEX)).toBe(false));
+    test("Path", () => {
+        let deps = new Dependencies().path("a.md");
+        expect(deps.affectedBy(new Set(["a.md"]), INDEX)).toBe(true);
+        expect(deps.affectedBy(new Set(["b.md"]), INDEX)).toBe(false);
+    });
+    test("Source", () => {
+        let deps = new Dependencies().source(Sources.tag("#home"), "", []);
+        expect(deps.affectedBy(new Set(["c.md"]), INDEX)).toBe(true);
+        expect(deps.affectedBy(new Set(["a.md", "b.md"]), INDEX)).toBe(false);
+    });
+});
+
+describe("Source May Contain", () => {
+    test("Tag", () => {
+        expect(sourceMayContain(Sources.tag("#work"), "a.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.tag("#work/meetings"), "b.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.tag("#home"), "a.md", INDEX)).toBe(false);
+    });
+
+    test("Folder", () => {
+        expect(sourceMayContain(Sources.folder(""), "a.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.folder("Projects"), "Projects/Plan.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.folder("Projects/Plan"), "Projects/Plan.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.folder("Projects"), "Projects2/Plan.md", INDEX)).toBe(false);
+        expect(sourceMayContain(Sources.folder("Projects"), "Projects/data.csv", INDEX)).toBe(false);
+    });
+
+    test("Combined", () => {
+        let work = Sources.tag("#work/meetings");
+        expect(sourceMayContain(Sources.and(work, Sources.folder("")), "b.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.and(work, Sources.folder("Other")), "b.md", INDEX)).toBe(false);
+        expect(sourceMayContain(Sources.or(work, Sources.folder("Other")), "b.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.negate(work), "c.md", INDEX)).toBe(true);
+        expect(sourceMayContain(Sources.empty(), "a.md", INDEX)).toBe(false);
+    });
+});
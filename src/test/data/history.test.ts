@@ -0,0 +1,72 @@
+import { fieldChanges, recordSnapshot } from "data-index/history";
+import { Literal } from "data-model/value";
+import { DateTime } from "luxon";
+import { parseEval } from "test/common";
+
+const MONDAY = DateTime.fromObject({ year: 2024, month: 5, day: 6, hour: 9 });
+const TUESDAY = MONDAY.plus({ days: 1 });
+
+function fields(values: Record<string, Literal>): Map<string, Literal> {
+    return new Map(Object.entries(values));
+}
+
+describe("Snapshots", () => {
+    test("First snapshot", () => {
+        let snapshots = recordSnapshot([], fields({ status: "todo" }), MONDAY);
+        expect(snapshots).toHaveLength(1);
+        expect(snapshots![0].day).toEqual(MONDAY.startOf("day"));
+        expect(snapshots![0].fields.get("status")).toEqual("todo");
+    });
+
+    test("Unchanged fields", () => {
+        let snapshots = recordSnapshot([], fields({ status: "todo", progress: 10 }), MONDAY)!;
+        expect(recordSnapshot(snapshots, fields({ progress: 10, status: "todo" }), TUESDAY)).toBeUndefined();
+    });
+
+    test("Same day replaces", () => {
+        let snapshots = recordSnapshot([], fields({ status: "todo" }), MONDAY)!;
+        snapshots = recordSnapshot(snapshots, fields({ status: "doing" }), MONDAY.plus({ hours: 5 }))!;
+        expect(snapshots).toHaveLength(1);
+        expect(snapshots[0].fields.get("status")).toEqual("doing");
+    });
+
+    test("Next day appends", () => {
+        let snapshots = recordSnapshot([], fields({ status: "todo" }), MONDAY)!;
+        snapshots = recordSnapshot(snapshots, fields({ status: "done" }), TUESDAY)!;
+        expect(snapshots.map(s => s.fields.get("status"))).toEqual(["todo", "done"]);
+    });
+});
+
+describe("Changes", () => {
+    test("Empty", () => {
+        expect(fieldChanges([])).toEqual({});
+    });
+
+    test("Changed, unchanged and removed fields", () => {
+        let snapshots = recordSnapshot([], fields({ status: "todo", progress: 10 }), MONDAY)!;
+        snapshots = recordSnapshot(snapshots, fields({ status: "todo" }), TUESDAY)!;
+        snapshots = recordSnapshot(snapshots, fields({ status: "done" }), TUESDAY.plus({ days: 1 }))!;
+
+        let changes = fieldChanges(snapshots);
+        expect(changes["status"]).toEqual([
+            { date: MONDAY.startOf("day"), value: "todo" },
+            { date: TUESDAY.plus({ days: 1 }).startOf("day"), value: "done" },
+        ]);
+        expect(changes["progress"]).toEqual([
+            { date: MONDAY.startOf("day"), value: 10 },
+            { date: TUESDAY.startOf("day"), value: null },
+        ]);
+    });
+});
+
+describe("history()", () => {
+    test("Page object", () => {
+        expect(parseEval(`history({ file: { history: { status: [1, 2] } } }, "status")`)).toEqual([1, 2]);
+        expect(parseEval(`history({ file: { history: { status: [1, 2] } } }, "progress")`)).toEqual([]);
+    });
+
+    test("Without history", () => {
+        expect(parseEval(`history({ file: { name: "a" } }, "status")`)).toBeNull();
+        expect(parseEval(`history(null, "status")`)).toBeNull();
+    });
+});
@@ -28,3 +28,27 @@ test("Inverted Get", () => {
     expect(index.getInverse("a")).toEqual(new Set(["test2"]));
     expect(index.getInverse("c")).toEqual(new Set(["test2"]));
 });
+
+test("Inverted Get With Self Reference", () => {
+    let index = new IndexMap();
+    index.set("test", new Set(["test", "a"]));
+    index.set("test", new Set(["test"]));
+
+    expect(index.getInverse("a")).toEqual(new Set([]));
+    expect(index.getInverse("test")).toEqual(new Set(["test"]));
+});
+
+test("Rename Value", () => {
+    let index = new IndexMap();
+    index.set("test", new Set(["a", "b"]));
+    index.set("test2", new Set(["a"]));
+    index.set("test3", new Set(["c"]));
+
+    expect(index.renameValue("a", "c")).toBe(true);
+    expect(index.renameValue("missing", "c")).toBe(false);
+
+    expect(index.get("test")).toEqual(new Set(["b", "c"]));
+    expect(index.get("test2")).toEqual(new Set(["c"]));
+    expect(index.getInverse("a")).toEqual(new Set());
+    expect(index.getInverse("c")).toEqual(new Set(["test", "test2", "test3"]));
+});
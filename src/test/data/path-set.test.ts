@@ -0,0 +1,50 @@
+import { PathSet, PathSets } from "data-index/resolver";
+
+const A = PathSets.include(new Set(["a.md", "b.md", "c.md"]));
+const B = PathSets.include(new Set(["b.md", "d.md"]));
+
+/** Membership of a path in a path set. */
+function has(set: PathSet, path: string): boolean {
+    return set.type == "include" ? set.paths.has(path) : !set.paths.has(path);
+}
+
+test("Negate", () => {
+    expect(PathSets.negate(A)).toEqual(PathSets.exclude(A.paths));
+    expect(PathSets.negate(PathSets.negate(A))).toEqual(A);
+});
+
+test("And", () => {
+    expect(PathSets.and(A, B)).toEqual(PathSets.include(new Set(["b.md"])));
+    expect(PathSets.and(A, PathSets.negate(B))).toEqual(PathSets.include(new Set(["a.md", "c.md"])));
+    expect(PathSets.and(PathSets.negate(B), A)).toEqual(PathSets.include(new Set(["a.md", "c.md"])));
+    expect(PathSets.and(PathSets.negate(A), PathSets.negate(B))).toEqual(
+        PathSets.exclude(new Set(["a.md", "b.md", "c.md", "d.md"]))
+    );
+});
+
+test("Or", () => {
+    expect(PathSets.or(A, B)).toEqual(PathSets.include(new Set(["a.md", "b.md", "c.md", "d.md"])));
+    expect(PathSets.or(A, PathSets.negate(B))).toEqual(PathSets.exclude(new Set(["d.md"])));
+    expect(PathSets.or(PathSets.negate(A), PathSets.negate(B))).toEqual(PathSets.exclude(new Set(["b.md"])));
+});
+
+test("Matches explicit set operations", () => {
+    const all = ["a.md", "b.md", "c.md", "d.md", "e.md"];
+    const sets = [A, B, PathSets.negate(A), PathSets.negate(B)];
+
+    for (let left of sets) {
+        for (let right of sets) {
+            for (let path of all) {
+                expect(has(PathSets.and(left, right), path)).toBe(has(left, path) && has(right, path));
+                expect(has(PathSets.or(left, right), path)).toBe(has(left, path) || has(right, path));
+            }
+        }
+    }
+});
+
+test("Inputs are not mutated", () => {
+    PathSets.or(A, B);
+    PathSets.and(PathSets.negate(A), PathSets.negate(B));
+    expect(A.paths).toEqual(new Set(["a.md", "b.md", "c.md"]));
+    expect(B.paths).toEqual(new Set(["b.md", "d.md"]));
+});
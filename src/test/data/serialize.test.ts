@@ -0,0 +1,66 @@
+import { FullIndex } from "data-index/index";
+import { PageMetadata } from "data-model/markdown";
+import { Link } from "data-model/value";
+import { DateTime } from "luxon";
+import { testIndex } from "test/common";
+
+/** A stand-in for the index with the given links. */
+function index(links: Record<string, string[]>): FullIndex {
+    let result = testIndex(Object.keys(links));
+    for (let [path, values] of Object.entries(links)) result.links.set(path, new Set(values));
+    return result;
+}
+
+const PAGE = new PageMetadata("notes/a.md", {
+    ctime: DateTime.fromISO("2022-01-01"),
+    mtime: DateTime.fromISO("2022-01-02"),
+    size: 10,
+    tags: new Set(["#work/meetings"]),
+    fields: new Map([["status", "done"]]),
+});
+
+test("Member Order", () => {
+    let page = PAGE.serialize(index({}));
+    expect(Object.keys(page.file)).toEqual([
+        "path",
+        "folder",
+        "name",
+        "link",
+        "outlinks",
+        "inlinks",
+        "etags",
+        "tags",
+        "aliases",
+        "lists",
+        "tasks",
+        "sections",
+        "ctime",
+        "cday",
+        "mtime",
+        "mday",
+        "size",
+        "starred",
+        "frontmatter",
+        "ext",
+    ]);
+    expect(page.status).toEqual("done");
+});
+
+test("Computed When Read", () => {
+    let idx = index({ "b.md": ["notes/a.md"] });
+    let inverse = jest.spyOn(idx.links, "getInverse");
+
+    let page = PAGE.serialize(idx);
+    expect(inverse).not.toHaveBeenCalled();
+
+    expect(page.file.inlinks).toEqual([Link.file("b.md")]);
+    expect(page.file.inlinks).toBe(page.file.inlinks);
+    expect(inverse).toHaveBeenCalledTimes(1);
+    expect(page.file.tags).toEqual(["#work/meetings", "#work"]);
+});
+
+test("Overwrite", () => {
+    let page = PAGE.serialize(index({}));
+    (page.file as any).tags = ["#other"];
+    expect(page.file.tags).toEqual(["#other"]);
+});
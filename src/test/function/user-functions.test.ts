@@ -0,0 +1,114 @@
+import { Context } from "expression/context";
+import { FunctionRegistry, Functions } from "expression/functions";
+import { EXPRESSION } from "expression/parse";
+import { definitionImpl, parseFunctionFile } from "expression/user-functions";
+import { DEFAULT_QUERY_SETTINGS } from "settings";
+import { simpleLinkHandler } from "test/common";
+
+/** Evaluate an expression with the functions defined in the given text. */
+function evalWith(definitions: string, text: string) {
+    let registry = new FunctionRegistry();
+    let functions = Object.fromEntries(
+        parseFunctionFile(definitions).definitions.map(d => [d.name, definitionImpl(d)])
+    );
+    registry.register("functions.md", functions);
+
+    let context = new Context(simpleLinkHandler(), DEFAULT_QUERY_SETTINGS, {}, undefined, registry.all);
+    return context.tryEvaluate(EXPRESSION.field.tryParse(text));
+}
+
+describe("Parsing", () => {
+    test("Definitions", () => {
+        let file = parseFunctionFile("# Functions\n\ndefine double(x) = x * 2\nSome notes.\ndefine one() = 1\n");
+        expect(file.errors).toEqual([]);
+        expect(file.definitions.map(d => [d.name, d.arguments, d.line])).toEqual([
+            ["double", ["x"], 2],
+            ["one", [], 4],
+        ]);
+    });
+
+    test("Multi-line definition", () => {
+        let file = parseFunctionFile("define overdue(t) =\n    !t.completed AND\n    t.due < date(today)\nafter");
+        expect(file.errors).toEqual([]);
+        expect(file.definitions[0].name).toEqual("overdue");
+    });
+
+    test("Scripts", () => {
+        let file = parseFunctionFile("```js\nreturn { double: x => 2 * x };\n```\n```dataview\nLIST\n```\n");
+        expect(file.scripts).toEqual([{ source: "return { double: x => 2 * x };", line: 0 }]);
+    });
+
+    test("Definitions in codeblocks are ignored", () => {
+        expect(parseFunctionFile("```\ndefine double(x) = x * 2\n```").definitions).toEqual([]);
+    });
+
+    test("Errors", () => {
+        let file = parseFunctionFile("define double(x) = \ndefine one() = 1\ndefine one() = 2");
+        expect(file.definitions.map(d => d.name)).toEqual(["one"]);
+        expect(file.errors).toHaveLength(2);
+        expect(file.errors[0]).toMatch(/^Line 1: invalid definition/);
+        expect(file.errors[1]).toEqual("Line 3: 'one' is already defined in this file.");
+    });
+});
+
+describe("Evaluation", () => {
+    test("Simple", () => {
+        expect(evalWith("define double(x) = x * 2", "double(4)")).toEqual(8);
+    });
+
+    test("Calls other functions", () => {
+        let definitions = "define double(x) = x * 2\ndefine quadruple(x) = double(double(x))";
+        expect(evalWith(definitions, "quadruple(3)")).toEqual(12);
+        expect(evalWith(definitions, "map([1, 2], (v) => double(v))")).toEqual([2, 4]);
+    });
+
+    test("Wrong arity", () => {
+        expect(() => evalWith("define double(x) = x * 2", "double(1, 2)")).toThrow(/takes 1 argument/);
+    });
+});
+
+describe("Registry", () => {
+    test("Builtin collision", () => {
+        let registry = new FunctionRegistry();
+        let errors = registry.register("a.md", { length: () => 1, mine: () => 2 });
+
+        expect(errors).toEqual(["'length' is a builtin function and cannot be redefined"]);
+        expect(registry.all["mine"]).toBeDefined();
+        expect(registry.owner("length")).toBeNull();
+    });
+
+    test("Collision between owners", () => {
+        let registry = new FunctionRegistry();
+        registry.register("a.md", { mine: () => 1 });
+        expect(registry.register("b.md", { mine: () => 2 })).toEqual(["'mine' is already defined by a.md"]);
+        expect(registry.owner("mine")).toEqual("a.md");
+    });
+
+    test("Reregister and unregister", () => {
+        let registry = new FunctionRegistry();
+        registry.register("a.md", { first: () => 1 });
+        registry.register("a.md", { second: () => 2 });
+        expect(registry.all["first"]).toBeUndefined();
+        expect(registry.all["second"]).toBeDefined();
+
+        registry.unregister("a.md");
+        expect(registry.all["second"]).toBeUndefined();
+        expect(registry.owner("second")).toBeUndefined();
+    });
+
+    test("Live bound functions", () => {
+        let registry = new FunctionRegistry();
+        let context = new Context(simpleLinkHandler(), DEFAULT_QUERY_SETTINGS, {}, undefined, registry.all);
+        let func = Functions.bindLive(registry.all, context);
+        expect(func.double).toBeUndefined();
+
+        registry.register("a.md", { double: (_ctx, x) => (x as number) * 2 });
+        expect(func.double(4)).toEqual(8);
+        expect("double" in func).toBe(true);
+        expect(Object.keys(func)).toContain("double");
+        expect(func.length("abc")).toEqual(3);
+
+        registry.unregister("a.md");
+        expect(func.double).toBeUndefined();
+    });
+});
@@ -0,0 +1,145 @@
+import { Result } from "api/result";
+import { Editor, EditorPosition, TFile, Vault } from "obsidian";
+import { dataviewBlockAt, dataviewBlocks, materializeEditor, materializeFile, setMaterialized } from "ui/materialize";
+
+const NOTE = [
+    "# Projects",
+    "```dataview",
+    "LIST FROM #project",
+    "```",
+    "",
+    "<!-- dataview:materialized -->",
+    "- [[Old]]",
+    "<!-- dataview:materialized-end -->",
+    "```js",
+    "```dataview",
+    "```",
+    "~~~dataview",
+    "TABLE due",
+    "~~~",
+];
+
+describe("Blocks", () => {
+    test("Find", () => {
+        expect(dataviewBlocks(NOTE)).toEqual([
+            { source: "LIST FROM #project", start: 1, end: 3, materialized: { start: 5, end: 7 } },
+            { source: "TABLE due", start: 11, end: 13 },
+        ]);
+    });
+
+    test("At Line", () => {
+        expect(dataviewBlockAt(NOTE, 2)?.source).toEqual("LIST FROM #project");
+        expect(dataviewBlockAt(NOTE, 6)).toBeUndefined();
+        expect(dataviewBlockAt(NOTE, 9)).toBeUndefined();
+        expect(dataviewBlockAt(NOTE, 11)?.source).toEqual("TABLE due");
+    });
+});
+
+describe("Materialize", () => {
+    test("Replace And Insert", () => {
+        let [list, table] = dataviewBlocks(NOTE);
+        let outputs = new Map([
+            [list, "- [[New]]\n"],
+            [table, "| File |\n| ---- |\n"],
+        ]);
+
+        expect(setMaterialized(NOTE, outputs)).toEqual(
+            NOTE.slice(0, 6).concat(["- [[New]]"], NOTE.slice(7), [
+                "",
+                "<!-- dataview:materialized -->",
+                "| File |",
+                "| ---- |",
+                "<!-- dataview:materialized-end -->",
+            ])
+        );
+    });
+});
+
+/** A stand-in editor over the given lines, supporting only the methods used for materializing. */
+function textEditor(lines: string[]) {
+    let text = lines.join("\n");
+    const offset = (pos: EditorPosition) =>
+        text.split("\n").slice(0, pos.line).join("\n").length + (pos.line > 0 ? 1 : 0) + pos.ch;
+
+    return {
+        getValue: () => text,
+        replaceRange: (replacement: string, from: EditorPosition, to: EditorPosition = from) => {
+            text = text.substring(0, offset(from)) + replacement + text.substring(offset(to));
+        },
+    } as Editor;
+}
+
+describe("Materialize In Editor", () => {
+    const render = async (source: string) => Result.success<string, string>(`- ${source}\n`);
+
+    test("Replace", async () => {
+        let editor = textEditor(NOTE);
+        expect(await materializeEditor(editor, render, 2)).toEqual(Result.success(1));
+        expect(editor.getValue().split("\n")).toEqual(NOTE.slice(0, 6).concat(["- LIST FROM #project"], NOTE.slice(7)));
+    });
+
+    test("Insert", async () => {
+        let editor = textEditor(NOTE);
+        await materializeEditor(editor, render, 12);
+        expect(editor.getValue().split("\n")).toEqual(
+            NOTE.concat(["", "<!-- dataview:materialized -->", "- TABLE due", "<!-- dataview:materialized-end -->"])
+        );
+    });
+
+    test("No Block", async () => {
+        let editor = textEditor(NOTE);
+        expect((await materializeEditor(editor, render, 0)).successful).toBe(false);
+        expect(editor.getValue()).toEqual(NOTE.join("\n"));
+    });
+
+    test("Edited While Running", async () => {
+        let editor = textEditor(NOTE);
+        let result = await materializeEditor(
+            editor,
+            async source => {
+                editor.replaceRange("LIST FROM #other", { line: 2, ch: 0 }, { line: 2, ch: NOTE[2].length });
+                return render(source);
+            },
+            2
+        );
+
+        expect(result.successful).toBe(false);
+        expect(editor.getValue().split("\n")[6]).toEqual("- [[Old]]");
+    });
+});
+
+/** A stand-in vault holding one file, which can be edited while queries run. */
+function textVault(lines: string[]) {
+    let vault = {
+        text: lines.join("\n"),
+        read: async () => vault.text,
+        process: async (_file: TFile, fn: (data: string) => string) => (vault.text = fn(vault.text)),
+    };
+    return vault;
+}
+
+describe("Materialize File", () => {
+    const FILE = new TFile();
+
+    test("Refresh", async () => {
+        let vault = textVault(NOTE);
+        let result = await materializeFile(vault as unknown as Vault, FILE, async source =>
+            Result.success(`- ${source}`)
+        );
+
+        expect(result).toEqual(Result.success(1));
+        expect(vault.text.split("\n")).toEqual(NOTE.slice(0, 6).concat(["- LIST FROM #project"], NOTE.slice(7)));
+    });
+
+    test("Keeps Edits Made While Running", async () => {
+        let vault = textVault(NOTE);
+        let result = await materializeFile(vault as unknown as Vault, FILE, async source => {
+            vault.text = ["typed while running", ...NOTE].join("\n").replace("#project", "#other");
+            return Result.success(`- ${source}`);
+        });
+
+        expect(result).toEqual(Result.success(0));
+        expect(vault.text.split("\n")[0]).toEqual("typed while running");
+        expect(vault.text).toContain("- [[Old]]");
+    });
+});
@@ -1,6 +1,15 @@
-import { extractTags } from "data-import/markdown-file";
+import {
+    extractTags,
+    parseFrontmatter,
+    parseMarkdown,
+    serializeFrontmatterValue,
+    setFrontmatterField,
+} from "data-import/markdown-file";
+import { Link } from "data-model/value";
+import { DateTime, Duration } from "luxon";
 import * as common from "data-import/common";
-import { FrontMatterCache } from "obsidian";
+import { CachedMetadata, FrontMatterCache } from "obsidian";
+import { ListSerializationCache } from "data-model/markdown";
 
 describe("Frontmatter Tags", () => {
     test("Empty", () => expect(extractTags({} as FrontMatterCache)).toEqual([]));
@@ -28,3 +37,120 @@ describe("Task Tags", () => {
             new Set(["#one", "#two", "#four", "#three"])
         ));
 });
+
+describe("Set Frontmatter", () => {
+    test("Replace Key", () => {
+        let input = "---\nstatus: todo\nowner: me\n---\ntext";
+        expect(setFrontmatterField(input, "status", "done")).toEqual("---\nstatus: done\nowner: me\n---\ntext");
+        expect(setFrontmatterField(input, "status")).toEqual("---\nowner: me\n---\ntext");
+    });
+
+    test("Replace Block List", () => {
+        let input = "---\ntags:\n  - a\n  - b\nowner: me\n---";
+        expect(setFrontmatterField(input, "tags", "[c]")).toEqual("---\ntags: [c]\nowner: me\n---");
+    });
+
+    test("Add Key", () => {
+        expect(setFrontmatterField("---\nowner: me\n---\ntext", "status", "done")).toEqual(
+            "---\nowner: me\nstatus: done\n---\ntext"
+        );
+        expect(setFrontmatterField("text", "status", "done")).toEqual("---\nstatus: done\n---\ntext");
+        expect(setFrontmatterField("text", "status")).toEqual("text");
+    });
+
+    test("Preserves line endings", () => {
+        expect(setFrontmatterField("---\r\na: 1\r\n---\r\n", "a", "2")).toEqual("---\r\na: 2\r\n---\r\n");
+    });
+});
+
+describe("Serialize Frontmatter", () => {
+    test("Plain Values", () => {
+        expect(serializeFrontmatterValue("hello world")).toEqual("hello world");
+        expect(serializeFrontmatterValue(12)).toEqual("12");
+        expect(serializeFrontmatterValue(true)).toEqual("true");
+        expect(serializeFrontmatterValue(null)).toEqual("");
+        expect(serializeFrontmatterValue(DateTime.fromISO("2021-04-01"))).toEqual("2021-04-01");
+    });
+
+    test("Quoted Values", () => {
+        expect(serializeFrontmatterValue("12")).toEqual('"12"');
+        expect(serializeFrontmatterValue("yes")).toEqual('"yes"');
+        expect(serializeFrontmatterValue("a: b")).toEqual('"a: b"');
+        expect(serializeFrontmatterValue(Link.file("Note"))).toEqual('"[[Note]]"');
+        expect(serializeFrontmatterValue(["a", 1, null])).toEqual("[a, 1, null]");
+    });
+
+    test("Roundtrip Strings", () => {
+        expect(parseFrontmatter(JSON.parse(serializeFrontmatterValue(Link.file("Note"))))).toEqual(Link.file("Note"));
+        expect(parseFrontmatter(JSON.parse(serializeFrontmatterValue(Duration.fromObject({ hours: 2 }))))).toEqual(
+            Duration.fromObject({ hours: 2 })
+        );
+    });
+});
+
+/** A position spanning the given (0-indexed) lines. */
+function lines(start: number, end: number = start) {
+    return { start: { line: start, col: 0, offset: 0 }, end: { line: end, col: 0, offset: 0 } };
+}
+
+describe("Sections", () => {
+    const CONTENTS = [
+        "# Plan",
+        "owner:: Alice",
+        "## Decisions",
+        "Use [[Postgres]]. #db",
+        "- [ ] migrate [due:: 2022-01-01]",
+        "## Risks",
+        "none",
+    ];
+    const METADATA = {
+        headings: [
+            { heading: "Plan", level: 1, position: lines(0) },
+            { heading: "Decisions", level: 2, position: lines(2) },
+            { heading: "Risks", level: 2, position: lines(5) },
+        ],
+        sections: [
+            { type: "heading", position: lines(0) },
+            { type: "paragraph", position: lines(1) },
+            { type: "heading", position: lines(2) },
+            { type: "paragraph", position: lines(3) },
+            { type: "list", position: lines(4) },
+            { type: "heading", position: lines(5) },
+            { type: "paragraph", position: lines(6) },
+        ],
+        listItems: [{ parent: -4, task: " ", position: lines(4) }],
+        tags: [{ tag: "#db", position: lines(3) }],
+    } as unknown as CachedMetadata;
+
+    const PARSED = parseMarkdown("Plan.md", CONTENTS, METADATA, { 3: [Link.file("Postgres")] });
+
+    test("Ranges", () => {
+        expect(PARSED.sections.map(s => [s.heading, s.level, s.line, s.lineCount])).toEqual([
+            ["Plan", 1, 0, 7],
+            ["Decisions", 2, 2, 3],
+            ["Risks", 2, 5, 2],
+        ]);
+        expect(PARSED.sections[1].text).toEqual("Use [[Postgres]]. #db\n- [ ] migrate [due:: 2022-01-01]");
+        expect(PARSED.sections[0].text).toEqual("owner:: Alice");
+    });
+
+    test("Contents", () => {
+        let decisions = PARSED.sections[1];
+        expect(decisions.link).toEqual(Link.header("Plan.md", "Decisions"));
+        expect(decisions.tags).toEqual(new Set(["#db"]));
+        expect(decisions.links).toEqual([Link.file("Postgres")]);
+        expect(decisions.lists).toEqual([4]);
+        expect(decisions.fields.get("due")).toEqual([DateTime.fromISO("2022-01-01")]);
+        expect(decisions.fields.has("owner")).toBe(false);
+        expect(PARSED.sections[0].fields.get("owner")).toEqual(["Alice"]);
+    });
+
+    test("Serialized", () => {
+        let cache = new ListSerializationCache(PARSED.lists);
+        let serialized = PARSED.sections[1].serialize(cache);
+        expect(serialized.heading).toEqual("Decisions");
+        expect(serialized.due).toEqual(DateTime.fromISO("2022-01-01"));
+        expect(serialized.lists).toEqual([cache.get(4)]);
+        expect(serialized.lists[0]).toBe(cache.get(4));
+    });
+});
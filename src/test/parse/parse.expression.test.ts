@@ -561,6 +561,43 @@ test("Parse simple sources", () => {
     expect(EXPRESSION.source.tryParse('"hello"')).toEqual(Sources.folder("hello"));
     expect(EXPRESSION.source.tryParse("#neat")).toEqual(Sources.tag("#neat"));
     expect(EXPRESSION.source.tryParse('csv("data/a.csv")')).toEqual(Sources.csv("data/a.csv"));
+    expect(EXPRESSION.source.tryParse('content("quarterly review")')).toEqual(Sources.content("quarterly review"));
+});
+
+test("Parse CSV source with delimiter", () => {
+    expect(EXPRESSION.source.tryParse('csv("data/a.csv", ";")')).toEqual(Sources.csv("data/a.csv", ";"));
+    expect(EXPRESSION.source.tryParse('csv( "data/a.txt" , "\\t" )')).toEqual(Sources.csv("data/a.txt", "\t"));
+});
+
+test("Parse content source", () => {
+    expect(EXPRESSION.source.tryParse('content("\\d+ hours")')).toEqual(Sources.content("\\d+ hours"));
+    expect(EXPRESSION.source.tryParse('content( "a \\"quoted\\" phrase")')).toEqual(
+        Sources.content('a "quoted" phrase')
+    );
+    expect(EXPRESSION.source.tryParse('content("quarterly review") and #work')).toEqual(
+        Sources.and(Sources.content("quarterly review"), Sources.tag("#work"))
+    );
+});
+
+test("Parse data file sources", () => {
+    expect(EXPRESSION.source.tryParse('json("data/books.json")')).toEqual(Sources.json("data/books.json"));
+    expect(EXPRESSION.source.tryParse('json("data/books.json", "/library/books")')).toEqual(
+        Sources.json("data/books.json", "/library/books")
+    );
+    expect(EXPRESSION.source.tryParse('yaml( "data/books.yaml" , "library.books" )')).toEqual(
+        Sources.yaml("data/books.yaml", "library.books")
+    );
+    expect(EXPRESSION.source.tryParse('yaml("a.yaml") and #neat')).toEqual(
+        Sources.and(Sources.yaml("a.yaml"), Sources.tag("#neat"))
+    );
+});
+
+test("Parse canvas source", () => {
+    expect(EXPRESSION.source.tryParse("canvas([[Plan]])")).toEqual(Sources.canvas("Plan"));
+    expect(EXPRESSION.source.tryParse("canvas( [[Boards/Plan.canvas]])")).toEqual(Sources.canvas("Boards/Plan.canvas"));
+    expect(EXPRESSION.source.tryParse("canvas([[Plan]]) and #project")).toEqual(
+        Sources.and(Sources.canvas("Plan"), Sources.tag("#project"))
+    );
 });
 
 test("Parse negated source", () => {
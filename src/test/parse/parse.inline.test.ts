@@ -1,6 +1,13 @@
 import { EXPRESSION } from "expression/parse";
 import { Link } from "data-model/value";
-import { extractInlineFields, setEmojiShorthandCompletionField, setInlineField } from "data-import/inline-field";
+import {
+    extractInlineFields,
+    parseInlineValue,
+    serializeInlineValue,
+    setEmojiShorthandCompletionField,
+    setInlineField,
+    setInlineFieldInDocument,
+} from "data-import/inline-field";
 
 // <-- Inline field weird edge cases -->
 
@@ -190,3 +197,48 @@ describe("Set Inline", () => {
         expect(result).toEqual("- [x] a completed task foo bar");
     });
 });
+
+describe("Set Inline In Document", () => {
+    test("Replace full-line field", () => {
+        let input = "# Title\nStatus:: todo\nsome text";
+        expect(setInlineFieldInDocument(input, "status", "done")).toEqual("# Title\nStatus:: done\nsome text");
+        expect(setInlineFieldInDocument(input, "status")).toEqual("# Title\nStatus::\nsome text");
+    });
+
+    test("Replace bracketed field", () => {
+        let input = "some text [status:: todo] (owner:: me)";
+        expect(setInlineFieldInDocument(input, "status", "done")).toEqual("some text [status:: done] (owner:: me)");
+        expect(setInlineFieldInDocument(input, "owner", "you")).toEqual("some text [status:: todo] (owner:: you)");
+        expect(setInlineFieldInDocument(input, "status")).toEqual("some text (owner:: me)");
+    });
+
+    test("Skips frontmatter", () => {
+        let input = "---\nstatus:: ignored\n---\nstatus:: todo";
+        expect(setInlineFieldInDocument(input, "status", "done")).toEqual("---\nstatus:: ignored\n---\nstatus:: done");
+    });
+
+    test("Appends missing field", () => {
+        expect(setInlineFieldInDocument("text\n\n", "status", "done")).toEqual("text\nstatus:: done\n");
+        expect(setInlineFieldInDocument("text", "status")).toEqual("text");
+    });
+
+    test("Preserves line endings", () => {
+        let input = "a\r\nstatus:: todo\r\nb";
+        expect(setInlineFieldInDocument(input, "status", "done")).toEqual("a\r\nstatus:: done\r\nb");
+    });
+});
+
+describe("Serialize Inline", () => {
+    test("Roundtrip", () => {
+        for (let value of ["text", "12", "true", "2021-04-01", "[[Link]]", "2 hours, 30 minutes", '"quoted"']) {
+            const parsed = parseInlineValue(value);
+            expect(parseInlineValue(serializeInlineValue(parsed))).toEqual(parsed);
+        }
+    });
+
+    test("Quotes ambiguous strings", () => {
+        expect(serializeInlineValue("12")).toEqual('"12"');
+        expect(serializeInlineValue("plain")).toEqual("plain");
+        expect(serializeInlineValue(null)).toEqual("");
+    });
+});
@@ -1,8 +1,9 @@
-import { TableQuery, ListQuery, CalendarQuery, SortByStep, QueryFields, Query } from "query/query";
-import { QUERY_LANGUAGE, parseQuery } from "query/parse";
+import { TableQuery, ListQuery, CalendarQuery, KanbanQuery, SortByStep, QueryFields, Query } from "query/query";
+import { QUERY_LANGUAGE, parseQuery, queryParseFailure } from "query/parse";
 import { Sources } from "data-index/source";
 import { DEFAULT_QUERY_SETTINGS } from "settings";
 import { Fields } from "expression/field";
+import { EXPRESSION } from "expression/parse";
 
 function testQueryTypeAlone(name: string) {
     const upper = name.toUpperCase();
@@ -212,3 +213,208 @@ describe("Calendar Queries", () => {
         expect(simple.source).toEqual(Sources.tag("#games"));
     });
 });
+
+describe("Kanban Queries", () => {
+    test("Minimal Query", () => {
+        let simple = parseQuery("KANBAN status FROM #project").orElseThrow();
+        expect(simple.header.type).toBe("kanban");
+        expect((simple.header as KanbanQuery).field).toEqual(QueryFields.named("status", Fields.variable("status")));
+        expect(simple.source).toEqual(Sources.tag("#project"));
+    });
+
+    test("Missing Field", () => {
+        expect(parseQuery("KANBAN FROM #project").successful).toBe(false);
+    });
+});
+
+describe("Group By", () => {
+    test("Single Field", () => {
+        let query = parseQuery("TABLE rows FROM #games GROUP BY genre AS g").orElseThrow();
+        let field = QueryFields.named("g", Fields.variable("genre"));
+        expect(query.operations).toEqual([{ type: "group", fields: [field], field, aggregates: [] }]);
+    });
+
+    test("Multiple Fields", () => {
+        let query = parseQuery("TABLE GROUP BY a, b AS c").orElseThrow();
+        expect(query.operations).toEqual([
+            {
+                type: "group",
+                fields: [QueryFields.named("a", Fields.variable("a")), QueryFields.named("c", Fields.variable("b"))],
+                field: QueryFields.named("a", Fields.variable("a")),
+                aggregates: [],
+            },
+        ]);
+    });
+
+    test("Aggregates", () => {
+        let query = parseQuery(
+            "TABLE GROUP BY project AGGREGATE sum(hours) AS total, count() AS n, max(file.day)"
+        ).orElseThrow();
+        expect(query.operations).toEqual([
+            {
+                type: "group",
+                fields: [QueryFields.named("project", Fields.variable("project"))],
+                field: QueryFields.named("project", Fields.variable("project")),
+                aggregates: [
+                    QueryFields.aggregate("total", "sum", Fields.variable("hours")),
+                    QueryFields.aggregate("n", "count"),
+                    QueryFields.aggregate("max(file.day)", "max", Fields.indexVariable("file.day")),
+                ],
+            },
+        ]);
+    });
+
+    test("Aggregates Before Other Clauses", () => {
+        let query = parseQuery(
+            "TABLE total\nGROUP BY project AGGREGATE SUM(hours) AS total\nSORT total DESC"
+        ).orElseThrow();
+        expect(query.operations.map(op => op.type)).toEqual(["group", "sort"]);
+    });
+
+    test("Aggregate Names In Use", () => {
+        expect(parseQuery("TABLE GROUP BY project AGGREGATE count() AS rows").successful).toBe(false);
+        expect(parseQuery("TABLE GROUP BY project AGGREGATE sum(hours) AS key").successful).toBe(false);
+        expect(parseQuery("TABLE GROUP BY project, owner AGGREGATE max(owner) AS owner").successful).toBe(false);
+        expect(parseQuery("TABLE GROUP BY project AGGREGATE sum(a) AS n, sum(b) AS n").successful).toBe(false);
+        expect(parseQuery("TABLE GROUP BY project AGGREGATE count() AS owners").successful).toBe(true);
+    });
+});
+
+describe("Join", () => {
+    test("Inner Join", () => {
+        let query = parseQuery(
+            "TABLE FROM #meeting JOIN #person ON contains(attendees, person.file.link)"
+        ).orElseThrow();
+        expect(query.source).toEqual(Sources.tag("#meeting"));
+        expect(query.joins).toEqual([
+            {
+                kind: "inner",
+                source: Sources.tag("#person"),
+                name: "person",
+                on: Fields.func(Fields.variable("contains"), [
+                    Fields.variable("attendees"),
+                    Fields.indexVariable("person.file.link"),
+                ]),
+            },
+        ]);
+    });
+
+    test("Left Join With Name", () => {
+        let query = parseQuery(
+            'LIST FROM #meeting\nLEFT JOIN "People/Staff" AS p ON p.team = team\nWHERE p'
+        ).orElseThrow();
+        expect(query.joins).toEqual([
+            {
+                kind: "left",
+                source: Sources.folder("People/Staff"),
+                name: "p",
+                on: Fields.binaryOp(Fields.indexVariable("p.team"), "=", Fields.variable("team")),
+            },
+        ]);
+        expect(query.operations.map(op => op.type)).toEqual(["where"]);
+    });
+
+    test("Default Names", () => {
+        expect(parseQuery("LIST FROM #a JOIN #people/staff ON true").orElseThrow().joins?.[0].name).toEqual("staff");
+        expect(parseQuery('LIST FROM #a JOIN "Team Members" ON true').orElseThrow().joins?.[0].name).toEqual(
+            "team_members"
+        );
+        expect(parseQuery('LIST FROM #a JOIN "2024" ON true').successful).toBe(false);
+        expect(parseQuery('LIST FROM #a JOIN "2024" AS reviews ON true').orElseThrow().joins?.[0].name).toEqual(
+            "reviews"
+        );
+        expect(parseQuery("LIST FROM #a JOIN (#a or #b) ON true").successful).toBe(false);
+        expect(parseQuery("LIST FROM #a JOIN (#a or #b) AS ab ON true").orElseThrow().joins?.[0].name).toEqual("ab");
+    });
+});
+
+describe("Let", () => {
+    test("Single Binding", () => {
+        let query = parseQuery("TABLE overdue\nLET overdue = due < date(today)\nWHERE overdue").orElseThrow();
+        expect(query.operations[0]).toEqual({
+            type: "let",
+            fields: [QueryFields.named("overdue", EXPRESSION.field.tryParse("due < date(today)"))],
+        });
+        expect(query.operations.map(op => op.type)).toEqual(["let", "where"]);
+    });
+
+    test("Multiple Bindings", () => {
+        let query = parseQuery("LIST LET a = max(1, 2), b = a + 1").orElseThrow();
+        expect(query.operations).toEqual([
+            {
+                type: "let",
+                fields: [
+                    QueryFields.named("a", Fields.func(Fields.variable("max"), [Fields.literal(1), Fields.literal(2)])),
+                    QueryFields.named("b", Fields.binaryOp(Fields.variable("a"), "+", Fields.literal(1))),
+                ],
+            },
+        ]);
+    });
+
+    test("Header Directly Followed By Let", () => {
+        expect(
+            parseQuery("TABLE WITHOUT ID LET a = 1")
+                .orElseThrow()
+                .operations.map(op => op.type)
+        ).toEqual(["let"]);
+    });
+
+    test("Fields Named Let", () => {
+        expect(parseQuery("LIST let").orElseThrow().header).toEqual({
+            type: "list",
+            format: Fields.variable("let"),
+            showId: true,
+        });
+        expect(parseQuery("TABLE let AS l\nWHERE let > 1").orElseThrow().operations).toEqual([
+            { type: "where", clause: Fields.binaryOp(Fields.variable("let"), ">", Fields.literal(1)) },
+        ]);
+        expect(EXPRESSION.field.tryParse("let")).toEqual(Fields.variable("let"));
+    });
+});
+
+describe("Subqueries", () => {
+    test("Scalar Subquery", () => {
+        let field = EXPRESSION.field.tryParse("(LIST FROM #x).length");
+        expect(field).toEqual(
+            Fields.index(
+                Fields.subquery({
+                    header: { type: "list", showId: true, format: undefined },
+                    source: Sources.tag("#x"),
+                    operations: [],
+                    settings: DEFAULT_QUERY_SETTINGS,
+                } as Query),
+                Fields.literal("length")
+            )
+        );
+    });
+
+    test("Parenthesized Variables Are Not Subqueries", () => {
+        expect(EXPRESSION.field.tryParse("(list)")).toEqual(Fields.variable("list"));
+    });
+
+    test("Subquery In Where", () => {
+        let query = parseQuery("LIST WHERE contains((LIST FROM #done), file.link)").orElseThrow();
+        expect(query.operations[0].type).toEqual("where");
+    });
+});
+
+describe("Explain", () => {
+    test("Prefix", () => {
+        let query = parseQuery("EXPLAIN TABLE status FROM #a WHERE done").orElseThrow();
+        expect(query.explain).toBe(true);
+        expect(query.header.type).toBe("table");
+        expect(query.operations.length).toBe(1);
+    });
+
+    test("Case Insensitive", () => expect(parseQuery("explain\nLIST").orElseThrow().explain).toBe(true));
+    test("Without Prefix", () => expect(parseQuery("LIST FROM #a").orElseThrow().explain).toBeUndefined());
+    test("Requires Query", () => expect(parseQuery("EXPLAIN").successful).toBe(false));
+});
+
+describe("Parse Failures", () => {
+    test("Valid", () => expect(queryParseFailure("TABLE status\nWHERE done")).toBeUndefined());
+    test("Offset", () => {
+        let failure = queryParseFailure("TABLE status\nWHERE done\nSORTED status");
+        expect(failure).toEqual({ offset: 28, expected: ["SORT field [ASC/DESC]"] });
+    });
+});
@@ -0,0 +1,75 @@
+import { DateTime } from "luxon";
+import { Literal } from "data-model/value";
+import { DEFAULT_FUNCTIONS } from "expression/functions";
+import { analyzeQuery, profileFields } from "query/analyzer";
+import { parseQuery } from "query/parse";
+
+const PAGES: Record<string, Literal>[] = [
+    { rating: 4, title: "Dune", due: DateTime.fromISO("2024-01-01"), tags: ["#book"], file: { name: "Dune" } },
+    { rating: 5, title: "Emma", due: null, tags: [], file: { name: "Emma" } },
+];
+
+/** Analyze a query against a profile of the test pages, returning the warning messages. */
+function warnings(source: string): string[] {
+    let query = parseQuery(source).orElseThrow();
+    return analyzeQuery(query, profileFields(PAGES), DEFAULT_FUNCTIONS).map(w => w.message);
+}
+
+describe("Profiling", () => {
+    test("Nested fields", () => {
+        let profile = profileFields(PAGES);
+        expect(profile.get("rating")).toEqual(new Set(["number"]));
+        expect(profile.get("due")).toEqual(new Set(["date", "null"]));
+        expect(profile.get("file.name")).toEqual(new Set(["string"]));
+    });
+});
+
+describe("Functions", () => {
+    test("Valid queries", () => {
+        expect(warnings('TABLE round(rating), lower(title) WHERE contains(tags, "#book") SORT due')).toEqual([]);
+        expect(warnings("LIST WHERE length(map(tags, (t) => upper(t))) > 0")).toEqual([]);
+    });
+
+    test("Unknown function", () => {
+        expect(warnings("TABLE lowercase(title)")).toEqual(["Unknown function 'lowercase'."]);
+    });
+
+    test("Wrong arity", () => {
+        expect(warnings('TABLE replace(title, "a")')).toEqual(["'replace' takes 3 argument(s), but is called with 2."]);
+    });
+
+    test("Wrong argument types", () => {
+        expect(warnings("TABLE lower(rating)")).toEqual(["'lower' does not accept arguments of type (number)."]);
+        expect(warnings("TABLE upper(lower(title))")).toEqual([]);
+    });
+
+    test("Vectorized arguments", () => {
+        expect(warnings("TABLE lower(tags)")).toEqual([]);
+    });
+});
+
+describe("Operators", () => {
+    test("Unsupported arithmetic", () => {
+        expect(warnings("TABLE rating - title")).toEqual(["'number - string' is not supported."]);
+        expect(warnings("TABLE due + rating")).toEqual(["'date|null + number' is not supported."]);
+    });
+
+    test("Supported arithmetic", () => {
+        expect(warnings('TABLE due + dur(1 day), title + " by " + rating, rating * 2')).toEqual([]);
+        expect(warnings("TABLE date(today) - due")).toEqual([]);
+    });
+
+    test("Unknown fields are not checked", () => {
+        expect(warnings("TABLE missing - title, file.missing * 2")).toEqual([]);
+    });
+});
+
+describe("Data commands", () => {
+    test("LET infers field types", () => {
+        expect(warnings("TABLE name - 1\nLET name = lower(title)")).toEqual(["'string - number' is not supported."]);
+    });
+
+    test("GROUP BY clears field types", () => {
+        expect(warnings("TABLE rows.title - 1\nGROUP BY rating\nWHERE rating - title")).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { FullIndex } from "data-index/index";
+import { SMarkdownPage } from "data-model/serialized/markdown";
+import { DataObject } from "data-model/value";
+import { completeQuery } from "query/completion";
+import { testIndex } from "test/common";
+
+const PAGES: Record<string, DataObject> = {
+    "books/dune.md": { rating: 4, "Due Date": null, "due-date": null, file: { name: "dune", folder: "books" } },
+    "notes/todo.md": { status: "open", file: { name: "todo", folder: "notes" } },
+};
+
+function index(): FullIndex {
+    let result = testIndex(Object.keys(PAGES), { serializedPage: path => PAGES[path] as SMarkdownPage });
+    result.tags.set("books/dune.md", new Set(["#book", "#SciFi"]));
+    return result;
+}
+
+/** Complete the query at the position of the '|', returning the replaced text and the labels of the suggestions. */
+function complete(query: string): [string, string[]] | undefined {
+    let offset = query.indexOf("|");
+    let text = query.replace("|", "");
+    let result = completeQuery(text, offset, index(), "");
+    return result && [text.substring(result.from, offset), result.options.map(option => option.label)];
+}
+
+describe("Completion", () => {
+    test("Keywords and functions", () => {
+        let [word, labels] = complete("TABLE rating\nWH|")!;
+        expect(word).toEqual("WH");
+        expect(labels).toContain("WHERE");
+        expect(labels).toContain("GROUP BY");
+        expect(labels).toContain("dateformat");
+    });
+
+    test("Function signatures", () => {
+        let result = completeQuery("TABLE rou", 9, index(), "");
+        let round = result?.options.find(option => option.label == "round");
+        expect(round?.detail).toContain("round(number) | round(null) | round(number, number)");
+    });
+
+    test("Field names", () => {
+        let [_, labels] = complete("TABLE st|")!;
+        expect(labels).toContain("rating");
+        expect(labels).toContain("status");
+        expect(labels).toContain("due-date");
+        expect(labels).not.toContain("Due Date");
+    });
+
+    test("Fields of the pages in the source", () => {
+        let tagged = index();
+        tagged.tags.set("notes/todo.md", new Set(["#todo"]));
+
+        let result = completeQuery("TABLE \nFROM #todo", 6, tagged, "");
+        let labels = result!.options.map(option => option.label);
+        expect(labels).toContain("status");
+        expect(labels).not.toContain("rating");
+    });
+
+    test("File subfields", () => {
+        expect(complete("LIST WHERE file.na|")).toEqual(["na", ["folder", "name"]]);
+    });
+
+    test("Tags", () => {
+        expect(complete("LIST FROM #sc|")).toEqual(["#sc", ["#book", "#scifi"]]);
+    });
+
+    test("Folders", () => {
+        expect(complete('LIST FROM "bo|')).toEqual(["bo", ["books", "notes"]]);
+        expect(complete('LIST WHERE status = "op|')).toBeUndefined();
+    });
+
+    test("Field names are cached until the index changes", () => {
+        let pages: Record<string, DataObject> = { "notes/todo.md": { status: "open" } };
+        let cached = testIndex(Object.keys(pages), { serializedPage: path => pages[path] as SMarkdownPage });
+        const labels = () => completeQuery("TABLE ", 6, cached, "")!.options.map(option => option.label);
+
+        expect(labels()).toContain("status");
+        pages["notes/todo.md"] = { priority: 1 };
+        expect(labels()).toContain("status");
+
+        cached.touch();
+        expect(labels()).toContain("priority");
+        expect(labels()).not.toContain("status");
+    });
+});
@@ -0,0 +1,180 @@
+import { Pagerow, executeCore, executeCoreExtract, executeJoin } from "query/engine";
+import { parseQuery } from "query/parse";
+import { simpleContext } from "test/common";
+import { DataObject, Literal, Values } from "data-model/value";
+import { EXPRESSION } from "expression/parse";
+import { Fields } from "expression/field";
+import { GroupStep, QueryFields } from "query/query";
+
+/** Run the operations of the given query over some rows. */
+function run(query: string, rows: Record<string, any>[]): Pagerow[] {
+    let ops = parseQuery(query).orElseThrow().operations;
+    let data = rows.map((data, index) => ({ id: "" + index, data }));
+    return executeCore(data, simpleContext(), ops).orElseThrow().data;
+}
+
+const ROWS = [
+    { project: "a", owner: "x", hours: 2 },
+    { project: "a", owner: "y", hours: 3 },
+    { project: "a", owner: "x", hours: null },
+    { project: "b", owner: "x", hours: 5 },
+];
+
+describe("Group By", () => {
+    test("Aggregates", () => {
+        let result = run(
+            "TABLE GROUP BY project AGGREGATE sum(hours) AS total, count() AS n, avg(hours) AS mean",
+            ROWS
+        );
+        expect(result.map(r => r.id)).toEqual(["a", "b"]);
+        expect(result.map(r => [r.data.total, r.data.n, r.data.mean])).toEqual([
+            [5, 3, 2.5],
+            [5, 1, 5],
+        ]);
+    });
+
+    test("Count Ignores Nulls", () => {
+        let result = run("TABLE GROUP BY project AGGREGATE count(hours) AS n", ROWS);
+        expect(result.map(r => r.data.n)).toEqual([2, 1]);
+    });
+
+    test("Multiple Fields", () => {
+        let result = run("TABLE GROUP BY project, owner AGGREGATE count() AS n", ROWS);
+        expect(result.map(r => r.id)).toEqual([
+            ["a", "x"],
+            ["a", "y"],
+            ["b", "x"],
+        ]);
+        expect(result.map(r => [r.data.project, r.data.owner, r.data.n])).toEqual([
+            ["a", "x", 2],
+            ["a", "y", 1],
+            ["b", "x", 1],
+        ]);
+        expect(Object.keys(result[0].data).sort()).toEqual(["key", "n", "owner", "project", "rows"]);
+    });
+
+    test("Single Field Steps", () => {
+        // Steps built by scripts before grouping by several fields was supported.
+        let step = { type: "group", field: QueryFields.named("project", Fields.variable("project")) } as GroupStep;
+        let data = ROWS.map((data, index) => ({ id: "" + index, data }));
+        let result = executeCore(data, simpleContext(), [step]).orElseThrow();
+        expect(result.data.map(r => r.id)).toEqual(["a", "b"]);
+        expect(result.idMeaning).toEqual({ type: "group", name: "project", on: { type: "path" } });
+    });
+
+    test("Unknown Function", () => {
+        let ops = parseQuery("TABLE GROUP BY project AGGREGATE nope(hours) AS n").orElseThrow().operations;
+        let result = executeCore([{ id: "0", data: ROWS[0] }], simpleContext(), ops);
+        expect(result.successful).toBe(false);
+    });
+});
+
+describe("Join", () => {
+    const MEETINGS = [
+        { id: "m1", data: { attendees: ["alice", "bob"] } },
+        { id: "m2", data: { attendees: [] } },
+    ];
+    const PEOPLE = [
+        { id: "p1", data: { name: "alice" } },
+        { id: "p2", data: { name: "bob" } },
+    ];
+
+    const personName = (person: Literal) => (Values.isObject(person) ? (person as DataObject)["name"] : null);
+
+    test("Inner Join", () => {
+        let join = parseQuery("LIST FROM #a JOIN #person ON contains(attendees, person.name)").orElseThrow().joins![0];
+        let result = executeJoin(MEETINGS, PEOPLE, join, simpleContext()).orElseThrow();
+        expect(result.map(r => [r.id, personName(r.data.person)])).toEqual([
+            ["m1", "alice"],
+            ["m1", "bob"],
+        ]);
+    });
+
+    test("Left Join", () => {
+        let join = parseQuery("LIST FROM #a LEFT JOIN #person ON contains(attendees, person.name)").orElseThrow()
+            .joins![0];
+        let result = executeJoin(MEETINGS, PEOPLE, join, simpleContext()).orElseThrow();
+        expect(result.map(r => [r.id, personName(r.data.person)])).toEqual([
+            ["m1", "alice"],
+            ["m1", "bob"],
+            ["m2", null],
+        ]);
+    });
+});
+
+describe("Let", () => {
+    test("Binds Values", () => {
+        let result = run("LIST LET double = hours * 2, quad = double * 2 WHERE quad > 10", ROWS);
+        expect(result.map(r => [r.data.double, r.data.quad])).toEqual([
+            [6, 12],
+            [10, 20],
+        ]);
+    });
+
+    test("Does Not Modify Input", () => {
+        let rows = [{ id: "0", data: { hours: 1 } as Record<string, any> }];
+        executeCore(rows, simpleContext(), parseQuery("LIST LET x = 1").orElseThrow().operations);
+        expect(rows[0].data.x).toBeUndefined();
+    });
+});
+
+describe("Subqueries", () => {
+    test("Cannot Evaluate Outside Queries", () => {
+        expect(simpleContext().evaluate(EXPRESSION.field.tryParse("(LIST FROM #x)")).successful).toBe(false);
+    });
+});
+
+describe("Diagnostics", () => {
+    test("Row Counts and Errors", () => {
+        let ops = parseQuery("LIST WHERE hours > 2 SORT hours LIMIT 1").orElseThrow().operations;
+        let data = ROWS.map((data, index) => ({ id: "" + index, data }));
+        let core = executeCore(data, simpleContext(), ops).orElseThrow();
+
+        expect(core.diagnostics.map(d => [d.incomingRows, d.outgoingRows])).toEqual([
+            [4, 2],
+            [2, 2],
+            [2, 1],
+        ]);
+        expect(core.diagnostics.map(d => d.errors.length)).toEqual([0, 0, 0]);
+    });
+
+    test("Swallowed Errors", () => {
+        let ops = parseQuery("LIST WHERE value - 1 > 0").orElseThrow().operations;
+        let data = [1, "a", 3, "b"].map((value, index) => ({ id: "" + index, data: { value } }));
+        let core = executeCore(data, simpleContext(), ops).orElseThrow();
+
+        expect(core.data.map(r => r.id)).toEqual(["2"]);
+        expect(core.diagnostics[0].errors.map(e => e.index)).toEqual([1, 3]);
+    });
+
+    test("Source", () => {
+        let ops = parseQuery("LIST WHERE hours > 2").orElseThrow().operations;
+        let data = ROWS.map((data, index) => ({ id: "" + index, data }));
+        let source = { paths: 4, timeMs: 3, warnings: [] };
+
+        expect(executeCore(data, simpleContext(), ops, source).orElseThrow().source).toEqual(source);
+        expect(executeCoreExtract(data, simpleContext(), ops, {}, source).orElseThrow().source).toEqual(source);
+        expect(executeCore(data, simpleContext(), ops).orElseThrow().source).toBeUndefined();
+    });
+});
+
+describe("Group Identifier Meaning", () => {
+    const meaning = (query: string) =>
+        executeCore(
+            ROWS.map((data, index) => ({ id: "" + index, data })),
+            simpleContext(),
+            parseQuery(query).orElseThrow().operations
+        ).orElseThrow().idMeaning;
+
+    test("Single Field", () => {
+        expect(meaning("TABLE GROUP BY project")).toEqual({ type: "group", name: "project", on: { type: "path" } });
+    });
+
+    test("Multiple Fields", () => {
+        expect(meaning("TABLE GROUP BY project, owner")).toEqual({
+            type: "multigroup",
+            names: ["project", "owner"],
+            on: { type: "path" },
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import { tokenizeQueryLine } from "query/highlight";
+
+/** Tokenize a line, returning the text and type of each token. */
+function tokens(line: string): [string, string][] {
+    return tokenizeQueryLine(line).map(token => [line.substring(token.from, token.to), token.type]);
+}
+
+describe("Highlighting", () => {
+    test("Header", () => {
+        expect(tokens("TABLE WITHOUT ID file.link AS Link")).toEqual([
+            ["TABLE", "keyword"],
+            ["WITHOUT ID", "keyword"],
+            ["file", "variable"],
+            ["link", "property"],
+            ["AS", "keyword"],
+            ["Link", "variable"],
+        ]);
+    });
+
+    test("Literals", () => {
+        expect(tokens('FROM #project/a AND "folder" OR [[Note|alias]]')).toEqual([
+            ["FROM", "keyword"],
+            ["#project/a", "tag"],
+            ["AND", "operator"],
+            ['"folder"', "string"],
+            ["OR", "operator"],
+            ["[[Note|alias]]", "link"],
+        ]);
+    });
+
+    test("Expressions", () => {
+        expect(tokens("where round(rating) >= 4.5 and status != null")).toEqual([
+            ["where", "keyword"],
+            ["round", "function"],
+            ["rating", "variable"],
+            [">=", "operator"],
+            ["4.5", "number"],
+            ["and", "operator"],
+            ["status", "variable"],
+            ["!=", "operator"],
+            ["null", "atom"],
+        ]);
+    });
+
+    test("Lower case keywords are only highlighted at the start of a line", () => {
+        expect(tokens("LIST list")).toEqual([
+            ["LIST", "keyword"],
+            ["list", "variable"],
+        ]);
+    });
+
+    test("Comments and unclosed strings", () => {
+        expect(tokens("  // a comment")).toEqual([["// a comment", "comment"]]);
+        expect(tokens('WHERE name = "unclosed')).toEqual([
+            ["WHERE", "keyword"],
+            ["name", "variable"],
+            ["=", "operator"],
+            ['"unclosed', "string"],
+        ]);
+    });
+});
@@ -0,0 +1,95 @@
+import { fieldValueKey, FullIndex } from "data-index/index";
+import { Literal } from "data-model/value";
+import { EXPRESSION } from "expression/parse";
+import { indexedCandidates, predicateCandidates } from "query/planner";
+import { parseQuery } from "query/parse";
+import { testIndex } from "test/common";
+
+/** A stand-in for the index with the given fields and tags. */
+function index(fields: Record<string, Record<string, Literal>>, tags: Record<string, string[]>): FullIndex {
+    let result = testIndex(Object.keys(fields));
+
+    for (let [path, values] of Object.entries(fields)) {
+        let keys = Object.entries(values).map(([key, value]) => fieldValueKey(key, value) as string);
+        result.fieldValues.set(path, new Set(keys));
+    }
+    for (let [path, values] of Object.entries(tags)) {
+        result.tags.set(path, new Set(values));
+        result.etags.set(path, new Set(values));
+    }
+
+    return result;
+}
+
+const INDEX = index(
+    {
+        "a.md": { status: "Done", rating: 5, draft: false },
+        "Projects/b.md": { status: "done", rating: 3 },
+        "Projects/Old/c.md": { status: "open", rating: 5, draft: true },
+    },
+    { "a.md": ["#work"], "Projects/b.md": ["#work/meetings"], "Projects/Old/c.md": ["#home"] }
+);
+
+/** Parse the predicate and find its candidates. */
+function candidates(predicate: string): Set<string> | undefined {
+    return predicateCandidates(EXPRESSION.field.tryParse(predicate), INDEX);
+}
+
+describe("Predicate Candidates", () => {
+    test("String Equality", () => {
+        expect(candidates(`status = "done"`)).toEqual(new Set(["a.md", "Projects/b.md"]));
+        expect(candidates(`"open" = status`)).toEqual(new Set(["Projects/Old/c.md"]));
+        expect(candidates(`status = "closed"`)).toEqual(new Set());
+    });
+
+    test("Number Equality", () => expect(candidates("rating = 5")).toEqual(new Set(["a.md", "Projects/Old/c.md"])));
+    test("Boolean Equality", () => expect(candidates("draft = true")).toEqual(new Set(["Projects/Old/c.md"])));
+    test("Types Differ", () => expect(candidates(`rating = "5"`)).toEqual(new Set()));
+
+    test("Folder", () => {
+        expect(candidates(`file.folder = "Projects"`)).toEqual(new Set(["Projects/b.md"]));
+        expect(candidates(`file.folder = ""`)).toEqual(new Set(["a.md"]));
+    });
+
+    test("Tags", () => {
+        expect(candidates(`contains(file.tags, "#work")`)).toEqual(new Set(["a.md", "Projects/b.md"]));
+        expect(candidates(`icontains(file.etags, "MEET")`)).toEqual(new Set(["Projects/b.md"]));
+        expect(candidates(`econtains(file.tags, "#work")`)).toEqual(new Set(["a.md"]));
+    });
+
+    test("And", () => {
+        expect(candidates(`status = "done" & rating = 5`)).toEqual(new Set(["a.md"]));
+        expect(candidates(`status = "done" & rating > 4`)).toEqual(new Set(["a.md", "Projects/b.md"]));
+    });
+
+    test("Or", () => {
+        expect(candidates(`status = "open" | rating = 3`)).toEqual(new Set(["Projects/b.md", "Projects/Old/c.md"]));
+        expect(candidates(`status = "open" | rating > 4`)).toBeUndefined();
+    });
+
+    test("Unsupported", () => {
+        expect(candidates("rating > 4")).toBeUndefined();
+        expect(candidates(`this = "done"`)).toBeUndefined();
+        expect(candidates(`status = date(today)`)).toBeUndefined();
+        expect(candidates(`contains(tags, "#work")`)).toBeUndefined();
+    });
+});
+
+describe("Indexed Candidates", () => {
+    test("Leading Clauses", () => {
+        let query = parseQuery(
+            `LIST WHERE status = "done" WHERE rating = 5 FLATTEN x WHERE draft = true`
+        ).orElseThrow();
+        expect(indexedCandidates(query, INDEX)).toEqual(new Set(["a.md"]));
+    });
+
+    test("Unsupported Clauses", () => {
+        let query = parseQuery(`LIST WHERE rating > 4`).orElseThrow();
+        expect(indexedCandidates(query, INDEX)).toBeUndefined();
+    });
+
+    test("Tasks", () => {
+        let query = parseQuery(`TASK WHERE status = "done"`).orElseThrow();
+        expect(indexedCandidates(query, INDEX)).toBeUndefined();
+    });
+});
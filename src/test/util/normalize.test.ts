@@ -1,4 +1,4 @@
-import { canonicalizeVarName, normalizeHeaderForLink } from "util/normalize";
+import { canonicalizeVarName, extractTokens, normalizeHeaderForLink } from "util/normalize";
 
 describe("Header Normalization", () => {
     test("Link", () => expect(normalizeHeaderForLink("Header  [[Outer Wilds]]  ")).toEqual("Header Outer Wilds"));
@@ -22,3 +22,14 @@ describe("Variable Canonicalization", () => {
     test("Emoji", () => expect(canonicalizeVarName("📷")).toEqual("📷"));
     test("Статус", () => expect(canonicalizeVarName("Статус")).toEqual("статус"));
 });
+
+describe("Token Extraction", () => {
+    test("Words", () => expect(extractTokens("Quarterly review")).toEqual(new Set(["quarterly", "review"])));
+    test("Distinct", () => expect(extractTokens("a b A")).toEqual(new Set(["a", "b"])));
+    test("Punctuation", () =>
+        expect(extractTokens("**Status:** on-hold, [[Q3 Plan]].")).toEqual(
+            new Set(["status", "on", "hold", "q3", "plan"])
+        ));
+    test("Unicode", () => expect(extractTokens("Größe über_alles")).toEqual(new Set(["größe", "über_alles"])));
+    test("Empty", () => expect(extractTokens("  -- ")).toEqual(new Set()));
+});
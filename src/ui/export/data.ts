@@ -0,0 +1,112 @@
+/** Export of query results to data files (CSV and JSON). */
+import type { QueryResult } from "api/plugin-api";
+import { serializeInlineValue } from "data-import/inline-field";
+import { SListItem } from "data-model/serialized/markdown";
+import { DataObject, Grouping, Groupings, Literal, Values, Widgets } from "data-model/value";
+
+/** The file formats query results can be exported to. */
+export type ExportFormat = "csv" | "json" | "md";
+
+/** All valid export formats, keyed by the file extension they are saved with. */
+export const EXPORT_FORMATS: Record<string, ExportFormat> = { csv: "csv", json: "json", md: "md" };
+
+/** Query results flattened into a table, which is the shape all data exports have. */
+export interface ExportTable {
+    headers: string[];
+    rows: Literal[][];
+}
+
+/** Flatten the result of any query type into a table. */
+export function exportTable(result: QueryResult): ExportTable {
+    switch (result.type) {
+        case "table":
+            return { headers: result.headers, rows: result.values };
+        case "list":
+            // Lists with an ID column have key/value pairs as their elements.
+            if (result.values.length > 0 && result.values.every(v => Values.isWidget(v) && Widgets.isListPair(v)))
+                return {
+                    headers: ["id", "value"],
+                    rows: result.values.map(v => (Values.isWidget(v) && Widgets.isListPair(v) ? [v.key, v.value] : [])),
+                };
+
+            return { headers: ["value"], rows: result.values.map(v => [v]) };
+        case "task":
+            return {
+                headers: ["link", "status", "text"],
+                rows: flattenItems(result.values).map(item => [item.link, item.task ? item.status : null, item.text]),
+            };
+        case "calendar":
+            return { headers: ["date", "link"], rows: result.values.map(v => [v.date, v.link]) };
+        case "kanban":
+            return {
+                headers: ["column", "card"],
+                rows: result.columns.flatMap(column => column.cards.map(card => [column.key, card])),
+            };
+        case "custom":
+            return {
+                headers: ["link"],
+                rows: result.values.map(page => [
+                    Values.isObject(page.file) ? (page.file as DataObject)["link"] ?? null : null,
+                ]),
+            };
+    }
+}
+
+/** Render a table as CSV; dates, durations and links are written the way Dataview reads them back. */
+export function csvTable(table: ExportTable): string {
+    let lines = [table.headers.map(csvCell).join(",")];
+    for (let row of table.rows) lines.push(row.map(value => csvCell(exportText(value))).join(","));
+
+    return lines.join("\n") + "\n";
+}
+
+/** Render a table as a JSON array of objects, one per row, keyed by the table headers. */
+export function jsonTable(table: ExportTable): string {
+    let objects = table.rows.map(row => {
+        let result: Record<string, unknown> = {};
+        table.headers.forEach((header, index) => (result[header] = exportValue(row[index] ?? null)));
+        return result;
+    });
+
+    return JSON.stringify(objects, null, 2) + "\n";
+}
+
+/**
+ * Convert a value into plain JSON. Dates, durations and links become strings which Dataview parses back into the
+ * same values (for example when the file is read through a `json()` source).
+ */
+export function exportValue(value: Literal): unknown {
+    if (value === undefined || Values.isNull(value)) return null;
+    else if (Values.isString(value) || Values.isNumber(value) || Values.isBoolean(value)) return value;
+    else if (Values.isDate(value) || Values.isDuration(value) || Values.isLink(value))
+        return serializeInlineValue(value);
+    else if (Values.isArray(value)) return value.map(v => exportValue(v));
+    else if (Values.isObject(value)) {
+        let result: Record<string, unknown> = {};
+        for (let [key, child] of Object.entries(value)) result[key] = exportValue(child);
+        return result;
+    }
+
+    return Values.toString(value);
+}
+
+/** Convert a value into the text of a single CSV cell. */
+function exportText(value: Literal): string {
+    if (Values.isString(value)) return value;
+    else if (Values.isArray(value) || Values.isObject(value)) return JSON.stringify(exportValue(value));
+
+    let exported = exportValue(value);
+    return exported === null ? "" : "" + exported;
+}
+
+/** Quote a CSV cell if it contains delimiters, quotes, newlines or leading/trailing whitespace. */
+function csvCell(text: string): string {
+    if (!/[",\r\n]/.test(text) && text.trim() == text) return text;
+    return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Flatten (possibly grouped) list items into a single list, keeping their order. */
+function flattenItems(items: Grouping<SListItem>): SListItem[] {
+    if (!Groupings.isGrouping(items)) return items;
+    return items.flatMap(group => flattenItems(group.rows));
+}
@@ -0,0 +1,83 @@
+/** Modal and context menu for saving the results of a query to a file. */
+import type { DataviewApi } from "api/plugin-api";
+import { App, Menu, Modal, Notice, Setting, TextComponent } from "obsidian";
+import { ExportFormat } from "ui/export/data";
+import { getFileTitle, getParentFolder } from "util/normalize";
+
+/** Asks for the format and path to export the results of a query to, then exports them. */
+export class ExportResultsModal extends Modal {
+    private format: ExportFormat;
+    private path: string;
+
+    public constructor(app: App, public api: DataviewApi, public source: string, public originFile: string) {
+        super(app);
+
+        this.format = "csv";
+        let folder = getParentFolder(originFile);
+        let name = (originFile ? getFileTitle(originFile) : "Dataview") + " results";
+        this.path = (folder ? folder + "/" : "") + name + ".csv";
+    }
+
+    onOpen() {
+        this.titleEl.setText("Export results");
+
+        let pathInput: TextComponent | undefined;
+        new Setting(this.contentEl).setName("Format").addDropdown(dropdown =>
+            dropdown
+                .addOptions({ csv: "CSV", json: "JSON", md: "Markdown" })
+                .setValue(this.format)
+                .onChange(value => {
+                    // Keep the file extension in sync with the format.
+                    this.format = value as ExportFormat;
+                    this.path = this.path.replace(/\.(csv|json|md)$/i, "") + "." + value;
+                    pathInput?.setValue(this.path);
+                })
+        );
+
+        new Setting(this.contentEl)
+            .setName("Path")
+            .setDesc("The file in the vault to save the results to; it is replaced if it already exists.")
+            .addText(text => (pathInput = text).setValue(this.path).onChange(value => (this.path = value)));
+
+        new Setting(this.contentEl).addButton(button =>
+            button
+                .setButtonText("Export")
+                .setCta()
+                .onClick(async () => {
+                    try {
+                        let path = await this.api.export(
+                            this.source,
+                            { path: this.path, format: this.format },
+                            this.originFile
+                        );
+                        new Notice(`Dataview: Exported results to '${path}'.`);
+                        this.close();
+                    } catch (error) {
+                        new Notice(`Dataview: Could not export results. ${error}`);
+                    }
+                })
+        );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+/** Show an "Export results…" entry when right-clicking the rendered view of a query in the given container. */
+export function addExportMenu(container: HTMLElement, app: App, api: DataviewApi, source: string, originFile: string) {
+    container.addEventListener("contextmenu", evt => {
+        // Leave links and other elements with their own menus alone.
+        if (evt.defaultPrevented || (evt.target instanceof HTMLElement && evt.target.closest("a"))) return;
+
+        evt.preventDefault();
+        new Menu()
+            .addItem(item =>
+                item
+                    .setTitle("Export results…")
+                    .setIcon("download")
+                    .onClick(() => new ExportResultsModal(app, api, source, originFile).open())
+            )
+            .showAtMouseEvent(evt);
+    });
+}
@@ -5,12 +5,14 @@ import { useContext, useEffect, useRef, useState } from "preact/hooks";
 import { Component } from "obsidian";
 import { DataviewSettings } from "settings";
 import { FullIndex } from "data-index";
-import { Literal, Values, Widgets } from "data-model/value";
+import { Dependencies } from "data-index/dependencies";
+import { Literal, Values, Widget, Widgets } from "data-model/value";
 import React, { unmountComponentAtNode } from "preact/compat";
 import { renderMinimalDate, renderMinimalDuration } from "util/normalize";
 import { currentLocale } from "util/locale";
 import { DataArray } from "api/data-array";
 import { extractImageDimensions, isImageEmbed } from "util/media";
+import { widgetRenderer, WidgetRendererRegistration } from "api/extensions";
 
 export type MarkdownProps = { contents: string; sourcePath: string };
 export type MarkdownContext = { component: Component };
@@ -88,6 +90,48 @@ export function RawEmbedHtml({ element }: { element: HTMLElement }) {
 /** Embeds an HTML element in the react DOM. */
 export const EmbedHtml = React.memo(RawEmbedHtml);
 
+/** Renders a widget using the renderer an extension registered for it. */
+export function ExtensionWidget({
+    widget,
+    renderer,
+    sourcePath,
+}: {
+    widget: Widget;
+    renderer: WidgetRendererRegistration;
+    sourcePath: string;
+}) {
+    const container = useRef<HTMLElement | null>(null);
+    const context = useContext(DataviewContext);
+
+    useEffect(() => {
+        if (!container.current) return;
+
+        let element = container.current;
+        element.innerHTML = "";
+
+        // Everything the renderer registers is unloaded when the widget is re-rendered or removed.
+        let component = new Component();
+        context.component.addChild(component);
+        Promise.resolve()
+            .then(() =>
+                renderer.render(widget, element, {
+                    app: context.app,
+                    settings: context.settings,
+                    component,
+                    sourcePath,
+                })
+            )
+            .catch(error => {
+                element.innerHTML = "";
+                element.createEl("b", { text: `<failed to render widget '${widget.$widget}': ${error}>` });
+            });
+
+        return () => context.component.removeChild(component);
+    }, [widget, renderer, sourcePath, container.current]);
+
+    return <span ref={container}></span>;
+}
+
 /** Intelligently render an arbitrary literal value. */
 export function RawLit({
     value,
@@ -137,7 +181,10 @@ export function RawLit({
     } else if (Values.isHtml(value)) {
         return <EmbedHtml element={value} />;
     } else if (Values.isWidget(value)) {
-        if (Widgets.isListPair(value)) {
+        let renderer = widgetRenderer(value);
+        if (renderer) {
+            return <ExtensionWidget widget={value} renderer={renderer} sourcePath={sourcePath} />;
+        } else if (Widgets.isListPair(value)) {
             return (
                 <Fragment>
                     <Lit value={value.key} sourcePath={sourcePath} />:{" "}
@@ -232,8 +279,22 @@ export function ErrorMessage({ message }: { message: string }) {
     );
 }
 
+/** Render a list of warnings about a query, shown above its results. Renders nothing if there are no warnings. */
+export function Warnings({ warnings }: { warnings: string[] }) {
+    if (warnings.length == 0) return <Fragment />;
+
+    return (
+        <ul class="dataview dataview-warnings">
+            {warnings.map(warning => (
+                <li>Dataview: {warning}</li>
+            ))}
+        </ul>
+    );
+}
+
 /**
- * Complex convenience hook which calls `compute` every time the index updates, updating the current state.
+ * Complex convenience hook which calls `compute` every time the index updates, updating the current state. `compute`
+ * should record everything it reads in the given dependencies; the state is only recomputed when one of them changes.
  */
 export function useIndexBackedState<T>(
     container: HTMLElement,
@@ -241,25 +302,34 @@ export function useIndexBackedState<T>(
     settings: DataviewSettings,
     index: FullIndex,
     initial: T,
-    compute: () => Promise<T>
+    compute: (dependencies: Dependencies) => Promise<T>
 ): T {
     let [initialized, setInitialized] = useState(false);
     let [state, updateState] = useState(initial);
     let [lastReload, setLastReload] = useState(index.revision);
+    let dependencies = useRef<Dependencies>(Dependencies.everything());
+
+    const recompute = () => {
+        let tracked = new Dependencies();
+        compute(tracked).then(value => {
+            dependencies.current = tracked;
+            updateState(value);
+        });
+    };
 
     // Initial setup to queue fetching the correct state.
     if (!initialized) {
         setLastReload(index.revision);
         setInitialized(true);
 
-        compute().then(updateState);
+        recompute();
     }
 
     // Updated on every container re-create; automatically updates state.
     useEffect(() => {
         const refreshOperation = () => {
             if (lastReload != index.revision && container.isShown() && settings.refreshEnabled) {
-                compute().then(updateState);
+                if (dependencies.current.affectedBy(index.changedSince(lastReload), index)) recompute();
                 setLastReload(index.revision);
             }
         };
@@ -0,0 +1,163 @@
+/** Utilities for writing static snapshots of query results into the markdown file containing the query. */
+import { Result } from "api/result";
+import { Editor, TFile, Vault } from "obsidian";
+
+/** The comment placed before the materialized results of the query above it. */
+export const MATERIALIZED_START = "<!-- dataview:materialized -->";
+/** The comment placed after the materialized results of a query. */
+export const MATERIALIZED_END = "<!-- dataview:materialized-end -->";
+
+/** A `dataview` codeblock in a markdown file, along with its materialized results (if it has any). */
+export interface DataviewBlock {
+    /** The query in the block. */
+    source: string;
+    /** The line of the opening fence. */
+    start: number;
+    /** The line of the closing fence. */
+    end: number;
+    /** The lines of the start and end markers of the materialized results directly below the block, if present. */
+    materialized?: { start: number; end: number };
+}
+
+/** Matches the opening or closing fence of a codeblock, capturing the fence and the language. */
+export const CODEBLOCK_FENCE = /^\s*(```+|~~~+)\s*(\S*)\s*$/;
+
+/** Find all `dataview` codeblocks in the given lines of a markdown file. */
+export function dataviewBlocks(lines: string[]): DataviewBlock[] {
+    let result: DataviewBlock[] = [];
+    for (let index = 0; index < lines.length; index++) {
+        let fence = CODEBLOCK_FENCE.exec(lines[index]);
+        if (!fence) continue;
+
+        // Skip to the end of the block, whatever language it is in.
+        let start = index;
+        let end = start + 1;
+        while (end < lines.length && !isClosingFence(lines[end], fence[1])) end++;
+        index = end;
+
+        if (fence[2] != "dataview" || end >= lines.length) continue;
+
+        let block: DataviewBlock = { source: lines.slice(start + 1, end).join("\n"), start, end };
+
+        // The results are placed right below the block, possibly separated by a blank line.
+        let marker = end + 1;
+        if (marker < lines.length && lines[marker].trim() == "") marker++;
+        if (marker < lines.length && lines[marker].trim() == MATERIALIZED_START) {
+            let markerEnd = lines.findIndex((line, lineno) => lineno > marker && line.trim() == MATERIALIZED_END);
+            if (markerEnd >= 0) block.materialized = { start: marker, end: markerEnd };
+        }
+
+        result.push(block);
+    }
+
+    return result;
+}
+
+/** Determine if the given line closes a codeblock opened with the given fence. */
+export function isClosingFence(line: string, fence: string): boolean {
+    let trimmed = line.trim();
+    return trimmed.length >= fence.length && trimmed == fence[0].repeat(trimmed.length);
+}
+
+/** Find the `dataview` codeblock which contains the given line, if there is one. */
+export function dataviewBlockAt(lines: string[], line: number): DataviewBlock | undefined {
+    return dataviewBlocks(lines).find(block => line >= block.start && line <= block.end);
+}
+
+/**
+ * Write the given results below a block, between marker comments; if the block already has materialized results, they
+ * are replaced. Blocks are processed bottom-up so that earlier line numbers stay valid.
+ */
+export function setMaterialized(lines: string[], outputs: Map<DataviewBlock, string>): string[] {
+    let result = lines.slice();
+    let blocks = Array.from(outputs.keys()).sort((a, b) => b.start - a.start);
+    for (let block of blocks) {
+        let content = materializedLines(outputs.get(block)!);
+        if (block.materialized) {
+            result.splice(block.materialized.start, block.materialized.end - block.materialized.start + 1, ...content);
+        } else {
+            result.splice(block.end + 1, 0, "", ...content);
+        }
+    }
+
+    return result;
+}
+
+/** The lines of the given results, between the marker comments. */
+function materializedLines(output: string): string[] {
+    return [MATERIALIZED_START].concat(output.trimEnd().split("\n"), [MATERIALIZED_END]);
+}
+
+/**
+ * Materialize the results of the query in the block which contains the given line of an open editor, editing through the
+ * editor so that unsaved changes are neither used stale nor overwritten. Fails if there is no block on the line, or if
+ * the block changed while its query was running.
+ */
+export async function materializeEditor(
+    editor: Editor,
+    render: (source: string) => Promise<Result<string, string>>,
+    line: number
+): Promise<Result<number, string>> {
+    let block = dataviewBlockAt(editor.getValue().split("\n"), line);
+    if (!block) return Result.failure(`There is no dataview block on line ${line + 1}.`);
+
+    let output = await render(block.source);
+    if (!output.successful)
+        return Result.failure(`Could not materialize the query on line ${block.start + 1}: ${output.error}`);
+
+    // The note may have been edited while the query ran; find the block again in the current text.
+    let lines = editor.getValue().split("\n");
+    let current = dataviewBlockAt(lines, line);
+    if (!current || current.source != block.source)
+        return Result.failure("The query was edited while it was running; run the command again.");
+
+    let content = materializedLines(output.value);
+    if (current.materialized) {
+        let { start, end } = current.materialized;
+        editor.replaceRange(content.join("\n"), { line: start, ch: 0 }, { line: end, ch: lines[end].length });
+    } else {
+        editor.replaceRange(["", "", ...content].join("\n"), { line: current.end, ch: lines[current.end].length });
+    }
+
+    return Result.success(1);
+}
+
+/**
+ * Re-materialize the results of every query in the given file which was materialized before. The queries run first, and
+ * their results are then written through the vault, into the blocks as they are in the current text of the file; blocks
+ * whose query changed (or which were removed) in the meantime are left alone. Returns the number of blocks which were
+ * updated, or an error if a query failed (in which case the file is not modified).
+ */
+export async function materializeFile(
+    vault: Vault,
+    file: TFile,
+    render: (source: string) => Promise<Result<string, string>>
+): Promise<Result<number, string>> {
+    let blocks = dataviewBlocks((await vault.read(file)).split("\n")).filter(block => block.materialized);
+
+    let outputs = new Map<string, string>();
+    for (let block of blocks) {
+        if (outputs.has(block.source)) continue;
+
+        let output = await render(block.source);
+        if (!output.successful)
+            return Result.failure(`Could not materialize the query on line ${block.start + 1}: ${output.error}`);
+
+        outputs.set(block.source, output.value);
+    }
+
+    let updated = 0;
+    await vault.process(file, text => {
+        let lines = text.split("\n");
+        let current = new Map<DataviewBlock, string>();
+        for (let block of dataviewBlocks(lines)) {
+            let output = outputs.get(block.source);
+            if (block.materialized && output !== undefined) current.set(block, output);
+        }
+
+        updated = current.size;
+        return setMaterialized(lines, current).join("\n");
+    });
+
+    return Result.success(updated);
+}
@@ -0,0 +1,81 @@
+import { autocompletion, Completion, CompletionContext, CompletionResult } from "@codemirror/autocomplete";
+import { EditorState, Extension, Text } from "@codemirror/state";
+import { FullIndex } from "data-index";
+import { editorInfoField } from "obsidian";
+import { completeQuery, QueryCompletion } from "query/completion";
+import { CODEBLOCK_FENCE, isClosingFence } from "ui/materialize";
+
+/** The icon (completion type) CodeMirror shows for each kind of suggestion. */
+const COMPLETION_TYPES: Record<QueryCompletion["type"], string> = {
+    keyword: "keyword",
+    function: "function",
+    field: "property",
+    tag: "constant",
+    folder: "namespace",
+};
+
+/** The lines of a `dataview` codeblock in a CodeMirror document; lines are 1-based, like CodeMirror lines. */
+interface BlockLines {
+    /** The line of the opening fence. */
+    start: number;
+    /** The line of the closing fence. */
+    end: number;
+}
+
+/**
+ * Find the `dataview` codeblock whose query contains the given position, scanning outwards from its line only as far as
+ * the nearest fences (rather than through the whole document, which is done on every keystroke).
+ */
+function dataviewBlockLines(doc: Text, pos: number): BlockLines | undefined {
+    let line = doc.lineAt(pos).number;
+
+    // The nearest fence above must open a dataview block; a bare fence either closes a block or opens another language.
+    let start = line - 1;
+    while (start >= 1 && !CODEBLOCK_FENCE.test(doc.line(start).text)) start--;
+    let opening = start >= 1 ? CODEBLOCK_FENCE.exec(doc.line(start).text) : null;
+    if (!opening || opening[2] != "dataview") return undefined;
+
+    let end = line;
+    while (end <= doc.lines && !isClosingFence(doc.line(end).text, opening[1])) end++;
+    if (end > doc.lines || end == line) return undefined;
+
+    return { start, end };
+}
+
+/** Completes keywords, functions, tags, folders and field names while editing the query of a `dataview` codeblock. */
+export function queryCompletion(index: FullIndex): Extension {
+    const source = (context: CompletionContext): CompletionResult | null => {
+        let doc = context.state.doc;
+        let block = dataviewBlockLines(doc, context.pos);
+        if (!block) return null;
+
+        let start = doc.line(block.start + 1).from;
+        let query = doc.sliceString(start, doc.line(block.end - 1).to);
+        let origin = context.state.field(editorInfoField, false)?.file?.path ?? "";
+        let result = completeQuery(query, context.pos - start, index, origin);
+        if (!result || result.options.length == 0) return null;
+
+        // Only pop up by itself once something was typed, or right after a '.', '#' or the opening quote of a folder.
+        let from = start + result.from;
+        if (from == context.pos && !context.explicit && !/[.#"]/.test(doc.sliceString(from - 1, from))) return null;
+
+        return {
+            from,
+            options: result.options.map(
+                (option): Completion => ({
+                    label: option.label,
+                    type: COMPLETION_TYPES[option.type],
+                    detail: option.detail,
+                    boost: option.type == "field" ? 1 : 0,
+                })
+            ),
+            validFor: /^[\p{Letter}\p{Number}_\-/#]*$/u,
+        };
+    };
+
+    // The completion source is only offered inside of dataview blocks, so other text never runs it.
+    const languageData = EditorState.languageData.of((state, pos) =>
+        dataviewBlockLines(state.doc, pos) ? [{ autocomplete: source }] : []
+    );
+    return [languageData, autocompletion()];
+}
@@ -0,0 +1,46 @@
+import type CodeMirror from "codemirror";
+import { QueryToken, QueryTokenType, tokenizeQueryLine } from "query/highlight";
+
+/** The CodeMirror style of each kind of token. */
+const TOKEN_STYLES: Record<QueryTokenType, string> = {
+    keyword: "keyword",
+    comment: "comment",
+    string: "string",
+    number: "number",
+    atom: "atom",
+    link: "link",
+    tag: "tag",
+    function: "builtin",
+    variable: "variable",
+    property: "property",
+    operator: "operator",
+};
+
+/** The tokens of the line being highlighted. */
+interface QueryModeState {
+    tokens: QueryToken[];
+}
+
+/** A CodeMirror mode which highlights `dataview` codeblocks; used for codeblocks in both source mode and Live Preview. */
+export function queryMode(): CodeMirror.Mode<QueryModeState> {
+    return {
+        name: "dataview",
+        startState: () => ({ tokens: [] }),
+        copyState: state => ({ tokens: state.tokens }),
+        token: (stream, state) => {
+            if (stream.sol()) state.tokens = tokenizeQueryLine(stream.string);
+
+            let token = state.tokens.find(token => token.to > stream.pos);
+            if (!token) {
+                stream.skipToEnd();
+                return null;
+            } else if (token.from > stream.pos) {
+                stream.pos = token.from;
+                return null;
+            }
+
+            stream.pos = token.to;
+            return TOKEN_STYLES[token.type];
+        },
+    };
+}
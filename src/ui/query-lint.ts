@@ -0,0 +1,51 @@
+import { RangeSetBuilder } from "@codemirror/state";
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { queryParseFailure } from "query/parse";
+import { dataviewBlocks } from "ui/materialize";
+
+/** Underline where the query of each `dataview` codeblock fails to parse, with what was expected there as the tooltip. */
+function queryErrors(view: EditorView): DecorationSet {
+    let builder = new RangeSetBuilder<Decoration>();
+    let doc = view.state.doc;
+    for (let block of dataviewBlocks(doc.toString().split("\n"))) {
+        if (block.source.trim().length == 0) continue;
+
+        let failure = queryParseFailure(block.source);
+        if (!failure) continue;
+
+        // Underline the rest of the word at the failing offset; at the very end of the query, the last character.
+        let start = doc.line(block.start + 2).from;
+        let from = Math.min(failure.offset, block.source.length - 1);
+        let to = from + Math.max(1, /^[^\s]*/.exec(block.source.substring(from))![0].length);
+
+        let expected = Array.from(new Set(failure.expected)).sort();
+        let message =
+            expected.length == 1
+                ? `Dataview: expected ${expected[0]}`
+                : `Dataview: expected one of ${expected.join(", ")}`;
+
+        builder.add(
+            start + from,
+            start + to,
+            Decoration.mark({ class: "dataview-query-error", attributes: { title: message } })
+        );
+    }
+
+    return builder.finish();
+}
+
+/** Marks parse errors in the queries of `dataview` codeblocks while they are edited. */
+export const queryLint = ViewPlugin.fromClass(
+    class {
+        decorations: DecorationSet;
+
+        constructor(view: EditorView) {
+            this.decorations = queryErrors(view);
+        }
+
+        update(update: ViewUpdate) {
+            if (update.docChanged) this.decorations = queryErrors(update.view);
+        }
+    },
+    { decorations: v => v.decorations }
+);
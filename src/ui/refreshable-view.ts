@@ -1,10 +1,15 @@
 import { FullIndex } from "data-index";
-import { App, MarkdownRenderChild } from "obsidian";
+import { Dependencies } from "data-index/dependencies";
+import { App, Component, MarkdownRenderChild } from "obsidian";
 import { DataviewSettings } from "settings";
 
 /** Generic code for embedded Dataviews. */
 export abstract class DataviewRefreshableRenderer extends MarkdownRenderChild {
     private lastReload: number;
+    /** What the last render depended on; renderers which can track this should replace it on every render. */
+    protected dependencies: Dependencies;
+    /** The component of the contents of the last render; see {@link freshRenderComponent}. */
+    private renderComponent?: Component;
 
     public constructor(
         public container: HTMLElement,
@@ -14,10 +19,23 @@ export abstract class DataviewRefreshableRenderer extends MarkdownRenderChild {
     ) {
         super(container);
         this.lastReload = 0;
+        this.dependencies = Dependencies.everything();
     }
 
     abstract render(): Promise<void>;
 
+    /**
+     * Unload the component of the previous render (and everything registered on it), returning a new child component
+     * for the contents of the current render.
+     */
+    protected freshRenderComponent(): Component {
+        if (this.renderComponent) this.removeChild(this.renderComponent);
+
+        this.renderComponent = new Component();
+        this.addChild(this.renderComponent);
+        return this.renderComponent;
+    }
+
     onload() {
         this.render();
         this.lastReload = this.index.revision;
@@ -28,11 +46,13 @@ export abstract class DataviewRefreshableRenderer extends MarkdownRenderChild {
     }
 
     maybeRefresh = () => {
-        // If the index revision has changed recently, then queue a reload.
+        // If the index revision has changed recently, then queue a reload if any of the changes are relevant.
         // But only if we're mounted in the DOM and auto-refreshing is active.
         if (this.lastReload != this.index.revision && this.container.isShown() && this.settings.refreshEnabled) {
+            let changed = this.index.changedSince(this.lastReload);
             this.lastReload = this.index.revision;
-            this.render();
+
+            if (this.dependencies.affectedBy(changed, this.index)) this.render();
         }
     };
 }
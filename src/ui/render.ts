@@ -4,6 +4,7 @@ import { QuerySettings } from "settings";
 import { currentLocale } from "util/locale";
 import { renderMinimalDate, renderMinimalDuration } from "util/normalize";
 import { Literal, Values, Widgets } from "data-model/value";
+import { widgetRenderer } from "api/extensions";
 
 /** Render simple fields compactly, removing wrapping content like paragraph and span. */
 export async function renderCompactMarkdown(
@@ -59,6 +60,13 @@ export function renderErrorPre(container: HTMLElement, error: string): HTMLEleme
     return pre;
 }
 
+/** Render a list of warnings about likely mistakes in a query. */
+export function renderWarnings(container: HTMLElement, warnings: string[]): HTMLElement {
+    let list = container.createEl("ul", { cls: ["dataview", "dataview-warnings"] });
+    for (let warning of warnings) list.createEl("li", { text: warning });
+    return list;
+}
+
 /** Render a static codeblock. */
 export function renderCodeBlock(container: HTMLElement, source: string, language?: string): HTMLElement {
     let code = container.createEl("code", { cls: ["dataview"] });
@@ -108,7 +116,18 @@ export async function renderValue(
     } else if (Values.isHtml(field)) {
         container.appendChild(field);
     } else if (Values.isWidget(field)) {
-        if (Widgets.isListPair(field)) {
+        let renderer = widgetRenderer(field);
+        if (renderer) {
+            // Each widget gets its own child, which is unloaded along with the component it is rendered for.
+            let child = new Component();
+            component.addChild(child);
+            await renderer.render(field, container.createSpan(), {
+                app,
+                settings,
+                component: child,
+                sourcePath: originFile,
+            });
+        } else if (Widgets.isListPair(field)) {
             await renderValue(
                 app,
                 field.key,
@@ -0,0 +1,26 @@
+/** Utilities for writing field values back into markdown files. */
+import { serializeInlineValue, setInlineFieldInDocument } from "data-import/inline-field";
+import { serializeFrontmatterValue, setFrontmatterField } from "data-import/markdown-file";
+import { FullIndex } from "data-index/index";
+import { Literal } from "data-model/value";
+import { Vault } from "obsidian";
+import { canonicalizeVarName } from "util/normalize";
+
+/**
+ * Rewrite the value of a page field in the file at the given path. If the field is defined in the page frontmatter,
+ * the frontmatter key is rewritten; otherwise, the first inline field with the key is rewritten (or added to the end
+ * of the file if there is none).
+ */
+export async function rewriteField(vault: Vault, index: FullIndex, path: string, key: string, value: Literal) {
+    const canonical = canonicalizeVarName(key);
+    const frontmatter = Object.keys(index.pages.get(path)?.frontmatter ?? {}).find(
+        k => k == key || canonicalizeVarName(k) == canonical
+    );
+
+    let rawFiletext = await vault.adapter.read(path);
+    let updated = frontmatter
+        ? setFrontmatterField(rawFiletext, frontmatter, serializeFrontmatterValue(value))
+        : setInlineFieldInDocument(rawFiletext, key, serializeInlineValue(value) || undefined);
+
+    if (updated != rawFiletext) await vault.adapter.write(path, updated);
+}
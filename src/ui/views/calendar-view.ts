@@ -3,9 +3,10 @@ import { Link } from "index";
 import { App } from "obsidian";
 import { Calendar, ICalendarSource, IDayMetadata, IDot } from "obsidian-calendar-ui";
 import { executeCalendar } from "query/engine";
+import { Dependencies } from "data-index/dependencies";
 import { Query } from "query/query";
 import { DataviewSettings } from "settings";
-import { renderErrorPre } from "ui/render";
+import { renderErrorPre, renderWarnings } from "ui/render";
 import { DataviewRefreshableRenderer } from "ui/refreshable-view";
 import { asyncTryOrPropagate } from "util/normalize";
 import type { Moment } from "moment";
@@ -31,13 +32,23 @@ export class DataviewCalendarRenderer extends DataviewRefreshableRenderer {
 
     async render() {
         this.container.innerHTML = "";
+        let dependencies = new Dependencies();
         let maybeResult = await asyncTryOrPropagate(() =>
-            executeCalendar(this.query, this.index, this.origin, this.settings)
+            executeCalendar(this.query, this.index, this.origin, this.settings, dependencies)
         );
+        this.dependencies = dependencies;
         if (!maybeResult.successful) {
             renderErrorPre(this.container, "Dataview: " + maybeResult.error);
             return;
-        } else if (maybeResult.value.data.length == 0 && this.settings.warnOnEmptyResult) {
+        }
+
+        let warnings = maybeResult.value.core.source?.warnings ?? [];
+        if (warnings.length > 0)
+            renderWarnings(
+                this.container,
+                warnings.map(warning => "Dataview: " + warning)
+            );
+        if (maybeResult.value.data.length == 0 && this.settings.warnOnEmptyResult) {
             renderErrorPre(this.container, "Dataview: Query returned 0 results.");
             return;
         }
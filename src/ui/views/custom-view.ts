@@ -0,0 +1,68 @@
+import { QUERY_TYPES } from "api/extensions";
+import { FullIndex } from "data-index";
+import { Dependencies } from "data-index/dependencies";
+import { App } from "obsidian";
+import { executeCustom } from "query/engine";
+import { CustomQuery, Query } from "query/query";
+import { DataviewSettings } from "settings";
+import { renderErrorPre, renderWarnings } from "ui/render";
+import { DataviewRefreshableRenderer } from "ui/refreshable-view";
+import { asyncTryOrPropagate } from "util/normalize";
+
+/** Renders a query of a type registered by an extension, using the renderer of that query type. */
+export class DataviewCustomRenderer extends DataviewRefreshableRenderer {
+    constructor(
+        public query: Query,
+        public container: HTMLElement,
+        public index: FullIndex,
+        public origin: string,
+        public settings: DataviewSettings,
+        public app: App
+    ) {
+        super(container, index, app, settings);
+    }
+
+    async render() {
+        this.container.innerHTML = "";
+        let component = this.freshRenderComponent();
+
+        let header = this.query.header as CustomQuery;
+        let registration = QUERY_TYPES.get(header.name);
+        if (!registration) {
+            renderErrorPre(this.container, `Dataview: The query type '${header.name.toUpperCase()}' is not available.`);
+            return;
+        }
+
+        let dependencies = new Dependencies();
+        let maybeResult = await asyncTryOrPropagate(() =>
+            executeCustom(this.query, this.index, this.origin, this.settings, dependencies)
+        );
+        this.dependencies = dependencies;
+        if (!maybeResult.successful) {
+            renderErrorPre(this.container, "Dataview: " + maybeResult.error);
+            return;
+        }
+
+        let warnings = maybeResult.value.core.source?.warnings ?? [];
+        if (warnings.length > 0)
+            renderWarnings(
+                this.container,
+                warnings.map(warning => "Dataview: " + warning)
+            );
+        if (maybeResult.value.values.length == 0 && this.settings.warnOnEmptyResult) {
+            renderErrorPre(this.container, "Dataview: Query returned 0 results.");
+            return;
+        }
+
+        try {
+            await registration.render(
+                { type: "custom", name: header.name, options: header.options, values: maybeResult.value.values },
+                this.container,
+                { app: this.app, settings: this.settings, component, sourcePath: this.origin }
+            );
+        } catch (error) {
+            this.container.innerHTML = "";
+            renderErrorPre(this.container, `Dataview: Failed to render ${header.name.toUpperCase()} query: ${error}`);
+        }
+    }
+}
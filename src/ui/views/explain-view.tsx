@@ -0,0 +1,158 @@
+import { MarkdownRenderChild } from "obsidian";
+import { explainQuery, OperationDiagnostics, QueryExplanation } from "query/engine";
+import { groupFields, Query, QueryOperation } from "query/query";
+import { asyncTryOrPropagate } from "util/normalize";
+import { useContext } from "preact/hooks";
+import { DataviewContext, DataviewInit, ErrorPre, ReactRenderer, useIndexBackedState, Warnings } from "ui/markdown";
+import { h, Fragment } from "preact";
+
+/** The maximum number of row errors shown for a single operation. */
+const MAX_SHOWN_ERRORS = 10;
+
+/** Short human-readable description of a query operation. */
+function describeOperation(op: QueryOperation): string {
+    switch (op.type) {
+        case "where":
+            return "WHERE";
+        case "sort":
+            return "SORT";
+        case "limit":
+            return "LIMIT";
+        case "flatten":
+            return `FLATTEN ${op.field.name}`;
+        case "group":
+            let aggregates = (op.aggregates ?? []).map(a => a.name);
+            return (
+                `GROUP BY ${groupFields(op)
+                    .map(f => f.name)
+                    .join(", ")}` + (aggregates.length > 0 ? ` AGGREGATE ${aggregates.join(", ")}` : "")
+            );
+        case "let":
+            return `LET ${op.fields.map(f => f.name).join(", ")}`;
+        case "extract":
+            let fields = Object.keys(op.fields);
+            return fields.length > 0 ? `extract ${fields.join(", ")}` : "extract";
+    }
+}
+
+/** The per-row errors of a single operation, if there are any. */
+function OperationErrors({
+    step,
+    op,
+    diagnostics,
+}: {
+    step: number;
+    op: QueryOperation;
+    diagnostics: OperationDiagnostics;
+}) {
+    if (diagnostics.errors.length == 0) return <Fragment />;
+
+    let hidden = diagnostics.errors.length - MAX_SHOWN_ERRORS;
+    return (
+        <details class="dataview explain-view-errors">
+            <summary>
+                Step {step} ({describeOperation(op)}): {diagnostics.errors.length} row errors
+            </summary>
+            <ul>
+                {diagnostics.errors.slice(0, MAX_SHOWN_ERRORS).map(error => (
+                    <li>
+                        Row {error.index}: <code>{error.message}</code>
+                    </li>
+                ))}
+                {hidden > 0 && <li>... and {hidden} more.</li>}
+            </ul>
+        </details>
+    );
+}
+
+/** Pure view over the diagnostics of a query execution. */
+export function ExplanationGrouping({ explanation }: { explanation: QueryExplanation }) {
+    return (
+        <div class="dataview explain-view">
+            <Warnings warnings={explanation.sourceWarnings} />
+            <p>
+                Source matched {explanation.sourcePaths} files ({explanation.sourceTimeMs}ms);{" "}
+                {explanation.incomingRows} rows entered the query.
+            </p>
+            <table class="dataview table-view-table">
+                <thead class="table-view-thead">
+                    <tr class="table-view-tr-header">
+                        <th class="table-view-th">Step</th>
+                        <th class="table-view-th">Rows In</th>
+                        <th class="table-view-th">Rows Out</th>
+                        <th class="table-view-th">Time</th>
+                        <th class="table-view-th">Errors</th>
+                    </tr>
+                </thead>
+                <tbody class="table-view-tbody">
+                    {explanation.ops.map((op, index) => {
+                        let diagnostics = explanation.diagnostics[index];
+                        return (
+                            <tr>
+                                <td>
+                                    {index + 1}. {describeOperation(op)}
+                                </td>
+                                <td>{diagnostics.incomingRows}</td>
+                                <td>{diagnostics.outgoingRows}</td>
+                                <td>{diagnostics.timeMs}ms</td>
+                                <td>{diagnostics.errors.length}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            {explanation.ops.map((op, index) => (
+                <OperationErrors step={index + 1} op={op} diagnostics={explanation.diagnostics[index]} />
+            ))}
+            <p class="dataview small-text">
+                {explanation.resultRows} results in {explanation.timeMs}ms.
+            </p>
+        </div>
+    );
+}
+
+export type ExplainViewState =
+    | { state: "loading" }
+    | { state: "error"; error: string }
+    | { state: "ready"; explanation: QueryExplanation };
+
+/** Executes a query and shows how each step of the execution went, instead of the results. */
+export function ExplainView({ query, sourcePath }: { query: Query; sourcePath: string }) {
+    let context = useContext(DataviewContext);
+
+    let items = useIndexBackedState<ExplainViewState>(
+        context.container,
+        context.app,
+        context.settings,
+        context.index,
+        { state: "loading" },
+        async dependencies => {
+            let result = await asyncTryOrPropagate(() =>
+                explainQuery(query, context.index, sourcePath, context.settings, dependencies)
+            );
+
+            if (!result.successful) return { state: "error", error: result.error };
+            return { state: "ready", explanation: result.value };
+        }
+    );
+
+    if (items.state == "loading")
+        return (
+            <Fragment>
+                <ErrorPre>Loading...</ErrorPre>
+            </Fragment>
+        );
+    else if (items.state == "error")
+        return (
+            <Fragment>
+                {" "}
+                <ErrorPre>Dataview: {items.error}</ErrorPre>{" "}
+            </Fragment>
+        );
+
+    return <ExplanationGrouping explanation={items.explanation} />;
+}
+
+export function createExplainView(init: DataviewInit, query: Query, sourcePath: string): MarkdownRenderChild {
+    return new ReactRenderer(init, <ExplainView query={query} sourcePath={sourcePath} />);
+}
@@ -1,4 +1,5 @@
 import { FullIndex } from "data-index";
+import { Dependencies } from "data-index/dependencies";
 import { Field } from "expression/field";
 import { App } from "obsidian";
 import { executeInline } from "query/engine";
@@ -27,14 +28,19 @@ export class DataviewInlineRenderer extends DataviewRefreshableRenderer {
 
     async render() {
         this.errorbox?.remove();
-        let result = tryOrPropagate(() => executeInline(this.field, this.origin, this.index, this.settings));
+        let dependencies = new Dependencies();
+        let result = tryOrPropagate(() =>
+            executeInline(this.field, this.origin, this.index, this.settings, dependencies)
+        );
+        this.dependencies = dependencies;
         if (!result.successful) {
             this.errorbox = this.container.createEl("div");
             renderErrorPre(this.errorbox, "Dataview (for inline query '" + this.fieldText + "'): " + result.error);
         } else {
             let temp = document.createElement("span");
             temp.addClasses(["dataview", "dataview-inline-query"]);
-            await renderValue(this.app, result.value, temp, this.origin, this, this.settings, false);
+            let component = this.freshRenderComponent();
+            await renderValue(this.app, result.value, temp, this.origin, component, this.settings, false);
 
             this.target.replaceWith(temp);
         }
@@ -64,15 +64,16 @@ export class DataviewInlineJSRenderer extends DataviewRefreshableRenderer {
         // Assume that the code is javascript, and try to eval it.
         try {
             let temp = document.createElement("span");
+            let component = this.freshRenderComponent();
             let result = await asyncEvalInContext(
                 DataviewInlineJSRenderer.PREAMBLE + this.script,
-                new DataviewInlineApi(this.api, this, temp, this.origin)
+                new DataviewInlineApi(this.api, component, temp, this.origin)
             );
             this.target.replaceWith(temp);
             this.target = temp;
             if (result === undefined) return;
 
-            renderValue(this.api.app, result, temp, this.origin, this, this.settings, false);
+            renderValue(this.api.app, result, temp, this.origin, component, this.settings, false);
         } catch (e) {
             this.errorbox = this.container.createEl("div");
             renderErrorPre(this.errorbox, "Dataview (for inline JS query '" + this.script + "'): " + e);
@@ -0,0 +1,156 @@
+import { MarkdownRenderChild } from "obsidian";
+import { executeKanban, KanbanColumn } from "query/engine";
+import { KanbanQuery, Query } from "query/query";
+import { asyncTryOrPropagate } from "util/normalize";
+import { useContext, useState } from "preact/hooks";
+import {
+    DataviewContext,
+    DataviewInit,
+    ErrorMessage,
+    ErrorPre,
+    Lit,
+    ReactRenderer,
+    useIndexBackedState,
+    Warnings,
+} from "ui/markdown";
+import { h, Fragment } from "preact";
+import { Literal } from "data-model/value";
+import { rewriteField } from "ui/rewrite";
+
+/** The data transfer type used when dragging kanban cards. */
+const KANBAN_CARD_MIME = "text/x-dataview-kanban-card";
+
+/** A single column of cards; dropping a card from another column into this one rewrites the card's field. */
+function KanbanLane({
+    column,
+    sourcePath,
+    editable,
+    onMove,
+}: {
+    column: KanbanColumn;
+    sourcePath: string;
+    editable: boolean;
+    onMove: (path: string, key: Literal) => void;
+}) {
+    let [hovering, setHovering] = useState(false);
+
+    const onDragOver = (evt: DragEvent) => {
+        if (!editable || !evt.dataTransfer?.types.includes(KANBAN_CARD_MIME)) return;
+
+        evt.preventDefault();
+        setHovering(true);
+    };
+
+    const onDrop = (evt: DragEvent) => {
+        setHovering(false);
+        if (!editable) return;
+
+        const path = evt.dataTransfer?.getData(KANBAN_CARD_MIME);
+        if (!path) return;
+
+        evt.preventDefault();
+        if (column.cards.some(card => card.path == path)) return;
+        onMove(path, column.key);
+    };
+
+    return (
+        <div
+            class={"dataview kanban-view-column" + (hovering ? " is-drop-target" : "")}
+            onDragOver={onDragOver}
+            onDragLeave={() => setHovering(false)}
+            onDrop={onDrop}
+        >
+            <div class="dataview kanban-view-column-header">
+                <Lit value={column.key} sourcePath={sourcePath} />
+                <span class="dataview small-text">{column.cards.length}</span>
+            </div>
+            {column.cards.map(card => (
+                <div
+                    class="dataview kanban-view-card"
+                    draggable={editable}
+                    onDragStart={(evt: DragEvent) => evt.dataTransfer?.setData(KANBAN_CARD_MIME, card.path)}
+                >
+                    <Lit value={card} sourcePath={sourcePath} />
+                </div>
+            ))}
+        </div>
+    );
+}
+
+export type KanbanViewState =
+    | { state: "loading" }
+    | { state: "error"; error: string }
+    | { state: "ready"; columns: KanbanColumn[]; warnings: string[] };
+
+/** Pure view over kanban columns. */
+export function KanbanView({ query, sourcePath }: { query: Query; sourcePath: string }) {
+    let context = useContext(DataviewContext);
+
+    let items = useIndexBackedState<KanbanViewState>(
+        context.container,
+        context.app,
+        context.settings,
+        context.index,
+        { state: "loading" },
+        async dependencies => {
+            let result = await asyncTryOrPropagate(() =>
+                executeKanban(query, context.index, sourcePath, context.settings, dependencies)
+            );
+
+            if (!result.successful) return { state: "error", error: result.error };
+            return {
+                state: "ready",
+                columns: result.value.columns,
+                warnings: result.value.core.source?.warnings ?? [],
+            };
+        }
+    );
+
+    if (items.state == "loading")
+        return (
+            <Fragment>
+                <ErrorPre>Loading...</ErrorPre>
+            </Fragment>
+        );
+    else if (items.state == "error")
+        return (
+            <Fragment>
+                {" "}
+                <ErrorPre>Dataview: {items.error}</ErrorPre>{" "}
+            </Fragment>
+        );
+
+    if (items.columns.length == 0 && context.settings.warnOnEmptyResult)
+        return (
+            <Fragment>
+                <Warnings warnings={items.warnings} />
+                <ErrorMessage message="Dataview: No results to show for kanban query." />
+            </Fragment>
+        );
+
+    // Only plain fields can be rewritten; computed expressions have no single place in the file to write to.
+    const field = (query.header as KanbanQuery).field.field;
+    const editable = field.type == "variable";
+
+    const onMove = async (path: string, key: Literal) => {
+        if (field.type != "variable") return;
+
+        await rewriteField(context.app.vault, context.index, path, field.name, key);
+        context.app.workspace.trigger("dataview:refresh-views");
+    };
+
+    return (
+        <Fragment>
+            <Warnings warnings={items.warnings} />
+            <div class="dataview kanban-view-board">
+                {items.columns.map(column => (
+                    <KanbanLane column={column} sourcePath={sourcePath} editable={editable} onMove={onMove} />
+                ))}
+            </div>
+        </Fragment>
+    );
+}
+
+export function createKanbanView(init: DataviewInit, query: Query, sourcePath: string): MarkdownRenderChild {
+    return new ReactRenderer(init, <KanbanView query={query} sourcePath={sourcePath} />);
+}
@@ -11,6 +11,7 @@ import {
     Lit,
     ReactRenderer,
     useIndexBackedState,
+    Warnings,
 } from "ui/markdown";
 import { h, Fragment } from "preact";
 import { Literal } from "data-model/value";
@@ -30,7 +31,7 @@ export function ListGrouping({ items, sourcePath }: { items: Literal[]; sourcePa
 export type ListViewState =
     | { state: "loading" }
     | { state: "error"; error: string }
-    | { state: "ready"; items: Literal[] };
+    | { state: "ready"; items: Literal[]; warnings: string[] };
 
 /** Pure view over list elements.  */
 export function ListView({ query, sourcePath }: { query: Query; sourcePath: string }) {
@@ -42,13 +43,13 @@ export function ListView({ query, sourcePath }: { query: Query; sourcePath: stri
         context.settings,
         context.index,
         { state: "loading" },
-        async () => {
+        async dependencies => {
             let result = await asyncTryOrPropagate(() =>
-                executeList(query, context.index, sourcePath, context.settings)
+                executeList(query, context.index, sourcePath, context.settings, dependencies)
             );
 
             if (!result.successful) return { state: "error", error: result.error, sourcePath };
-            return { state: "ready", items: result.value.data };
+            return { state: "ready", items: result.value.data, warnings: result.value.core.source?.warnings ?? [] };
         }
     );
 
@@ -66,10 +67,16 @@ export function ListView({ query, sourcePath }: { query: Query; sourcePath: stri
             </Fragment>
         );
 
-    if (items.items.length == 0 && context.settings.warnOnEmptyResult)
-        return <ErrorMessage message="Dataview: No results to show for list query." />;
-
-    return <ListGrouping items={items.items} sourcePath={sourcePath} />;
+    return (
+        <Fragment>
+            <Warnings warnings={items.warnings} />
+            {items.items.length == 0 && context.settings.warnOnEmptyResult ? (
+                <ErrorMessage message="Dataview: No results to show for list query." />
+            ) : (
+                <ListGrouping items={items.items} sourcePath={sourcePath} />
+            )}
+        </Fragment>
+    );
 }
 
 export function createListView(init: DataviewInit, query: Query, sourcePath: string): MarkdownRenderChild {
@@ -1,6 +1,6 @@
-import { Literal } from "data-model/value";
-import { executeTable } from "query/engine";
-import { Query } from "query/query";
+import { Literal, Values } from "data-model/value";
+import { executeTable, IdentifierMeaning } from "query/engine";
+import { Query, TableQuery } from "query/query";
 import { asyncTryOrPropagate } from "util/normalize";
 import {
     DataviewContext,
@@ -11,10 +11,13 @@ import {
     Markdown,
     ReactRenderer,
     useIndexBackedState,
+    Warnings,
 } from "ui/markdown";
 import { h, Fragment } from "preact";
-import { useContext } from "preact/hooks";
-import { MarkdownRenderChild } from "obsidian";
+import { useContext, useState } from "preact/hooks";
+import { MarkdownRenderChild, Notice } from "obsidian";
+import { parseInlineValue, serializeInlineValue } from "data-import/inline-field";
+import { rewriteField } from "ui/rewrite";
 
 /** JSX component which returns the result count. */
 function ResultCount(props: { length: number }) {
@@ -22,15 +25,113 @@ function ResultCount(props: { length: number }) {
     return settings.showResultCount ? <span class="dataview small-text">{props.length}</span> : <Fragment></Fragment>;
 }
 
+/** Describes whether a table column can be edited in place, and which page field edits are written to. */
+export type ColumnEdit = { editable: true; key: string } | { editable: false; reason: string };
+
+/** Information needed to edit table cells: how each column can be edited, and the row each id comes from. */
+export interface TableEditing {
+    columns: ColumnEdit[];
+    ids: Literal[];
+}
+
+/**
+ * Variables which do not refer to a field of the row's page: the implicit file metadata, the current file (`this`) and
+ * the row itself, which are provided by the query context.
+ */
+const NON_FIELD_VARIABLES = new Set(["file", "this", "row"]);
+
+/** Determine which columns of a table query map directly to a page field, and can thus be edited in place. */
+export function editableColumns(query: Query, idMeaning: IdentifierMeaning): ColumnEdit[] {
+    const header = query.header as TableQuery;
+    const flattened = new Set(query.operations.flatMap(op => (op.type == "flatten" ? [op.field.name] : [])));
+    const bound = new Set(query.operations.flatMap(op => (op.type == "let" ? op.fields.map(f => f.name) : [])));
+    for (let join of query.joins ?? []) bound.add(join.name);
+
+    const columns: ColumnEdit[] = header.fields.map(({ name, field }) => {
+        if (idMeaning.type == "group" || idMeaning.type == "multigroup")
+            return { editable: false, reason: `'${name}' is grouped, so its rows do not belong to a single page.` };
+        else if (field.type == "variable" && NON_FIELD_VARIABLES.has(field.name))
+            return { editable: false, reason: `'${name}' is provided by Dataview, not a field of the page.` };
+        else if (field.type != "variable" || bound.has(field.name))
+            return { editable: false, reason: `'${name}' is computed from an expression, not a page field.` };
+        else if (flattened.has(field.name))
+            return { editable: false, reason: `'${name}' is flattened, so it only shows part of the page field.` };
+
+        return { editable: true, key: field.name };
+    });
+
+    if (header.showId)
+        return [{ editable: false, reason: "The first column of a table cannot be edited." }, ...columns];
+    return columns;
+}
+
+/** A table cell which, if editing is enabled, can be double-clicked to edit the underlying page field. */
+function TableCell({
+    value,
+    id,
+    edit,
+    sourcePath,
+}: {
+    value: Literal;
+    id: Literal;
+    edit?: ColumnEdit;
+    sourcePath: string;
+}) {
+    let context = useContext(DataviewContext);
+    let [editing, setEditing] = useState(false);
+
+    const onDoubleClick = () => {
+        if (!edit) return;
+        if (!edit.editable) new Notice(`Dataview: Cannot edit this cell. ${edit.reason}`);
+        else if (!Values.isLink(id) || !context.index.pages.has(id.path))
+            new Notice("Dataview: Cannot edit this cell, since the row is not a markdown page.");
+        else setEditing(true);
+    };
+
+    const onCommit = async (text: string) => {
+        setEditing(false);
+        if (!edit?.editable || !Values.isLink(id) || text == serializeInlineValue(value)) return;
+
+        await rewriteField(context.app.vault, context.index, id.path, edit.key, parseInlineValue(text));
+        context.app.workspace.trigger("dataview:refresh-views");
+    };
+
+    if (editing) {
+        return (
+            <td>
+                <input
+                    class="dataview table-view-cell-editor"
+                    type="text"
+                    value={serializeInlineValue(value)}
+                    autoFocus
+                    onBlur={evt => onCommit((evt.target as HTMLInputElement).value)}
+                    onKeyDown={evt => {
+                        if (evt.key == "Enter") (evt.target as HTMLInputElement).blur();
+                        else if (evt.key == "Escape") setEditing(false);
+                    }}
+                />
+            </td>
+        );
+    }
+
+    return (
+        <td onDblClick={onDoubleClick}>
+            <Lit value={value} sourcePath={sourcePath} />
+        </td>
+    );
+}
+
 /** Simple table over headings and corresponding values. */
 export function TableGrouping({
     headings,
     values,
     sourcePath,
+    editing,
 }: {
     headings: string[];
     values: Literal[][];
     sourcePath: string;
+    editing?: TableEditing;
 }) {
     let settings = useContext(DataviewContext).settings;
 
@@ -48,12 +149,15 @@ export function TableGrouping({
                     </tr>
                 </thead>
                 <tbody class="table-view-tbody">
-                    {values.map(row => (
+                    {values.map((row, rowIndex) => (
                         <tr>
-                            {row.map(element => (
-                                <td>
-                                    <Lit value={element} sourcePath={sourcePath} />
-                                </td>
+                            {row.map((element, column) => (
+                                <TableCell
+                                    value={element}
+                                    id={editing?.ids[rowIndex] ?? null}
+                                    edit={editing?.columns[column]}
+                                    sourcePath={sourcePath}
+                                />
                             ))}
                         </tr>
                     ))}
@@ -69,7 +173,7 @@ export function TableGrouping({
 export type TableViewState =
     | { state: "loading" }
     | { state: "error"; error: string }
-    | { state: "ready"; headings: string[]; values: Literal[][] };
+    | { state: "ready"; headings: string[]; values: Literal[][]; editing: TableEditing; warnings: string[] };
 
 /** Pure view over list elements.  */
 export function TableView({ query, sourcePath }: { query: Query; sourcePath: string }) {
@@ -81,12 +185,21 @@ export function TableView({ query, sourcePath }: { query: Query; sourcePath: str
         context.settings,
         context.index,
         { state: "loading" },
-        async () => {
+        async dependencies => {
             let result = await asyncTryOrPropagate(() =>
-                executeTable(query, context.index, sourcePath, context.settings)
+                executeTable(query, context.index, sourcePath, context.settings, dependencies)
             );
             if (!result.successful) return { state: "error", error: result.error };
-            return { state: "ready", headings: result.value.names, values: result.value.data };
+            return {
+                state: "ready",
+                headings: result.value.names,
+                values: result.value.data,
+                editing: {
+                    columns: editableColumns(query, result.value.idMeaning),
+                    ids: result.value.core.data.map(row => row.id),
+                },
+                warnings: result.value.core.source?.warnings ?? [],
+            };
         }
     );
 
@@ -104,7 +217,17 @@ export function TableView({ query, sourcePath }: { query: Query; sourcePath: str
             </Fragment>
         );
 
-    return <TableGrouping headings={items.headings} values={items.values} sourcePath={sourcePath} />;
+    return (
+        <Fragment>
+            <Warnings warnings={items.warnings} />
+            <TableGrouping
+                headings={items.headings}
+                values={items.values}
+                sourcePath={sourcePath}
+                editing={items.editing}
+            />
+        </Fragment>
+    );
 }
 
 export function createTableView(init: DataviewInit, query: Query, sourcePath: string): MarkdownRenderChild {
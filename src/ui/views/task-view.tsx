@@ -17,6 +17,7 @@ import {
     ReactRenderer,
     useIndexBackedState,
     DataviewInit,
+    Warnings,
 } from "ui/markdown";
 import { asyncTryOrPropagate } from "util/normalize";
 
@@ -199,7 +200,7 @@ function TaskGrouping({ items, sourcePath }: { items: Grouping<SListItem>; sourc
 export type TaskViewState =
     | { state: "loading" }
     | { state: "error"; error: string }
-    | { state: "ready"; items: Grouping<SListItem> };
+    | { state: "ready"; items: Grouping<SListItem>; warnings: string[] };
 
 /**
  * Pure view over (potentially grouped) tasks and list items which allows for checking/unchecking tasks and manipulating
@@ -214,12 +215,17 @@ export function TaskView({ query, sourcePath }: { query: Query; sourcePath: stri
         context.settings,
         context.index,
         { state: "loading" },
-        async () => {
+        async dependencies => {
             let result = await asyncTryOrPropagate(() =>
-                executeTask(query, sourcePath, context.index, context.settings)
+                executeTask(query, sourcePath, context.index, context.settings, dependencies)
             );
             if (!result.successful) return { state: "error", error: result.error, sourcePath };
-            else return { state: "ready", items: result.value.tasks };
+            else
+                return {
+                    state: "ready",
+                    items: result.value.tasks,
+                    warnings: result.value.core.source?.warnings ?? [],
+                };
         }
     );
 
@@ -238,6 +244,7 @@ export function TaskView({ query, sourcePath }: { query: Query; sourcePath: stri
 
     return (
         <div class="dataview dataview-container">
+            <Warnings warnings={items.warnings} />
             <TaskGrouping items={items.items} sourcePath={sourcePath} />
         </div>
     );
@@ -275,16 +282,14 @@ function enumerateChildren(item: SListItem, output: Map<string, SListItem>): Map
     return output;
 }
 
-/** Replace basic tasks with tasks from a lookup map. Retains the original order of the list. */
+/**
+ * Replace basic tasks with tasks from a lookup map. Retains the original order of the list. The given tasks are left
+ * untouched (they may be shared with the index); the result consists of copies with replaced children.
+ */
 function replaceChildren(elements: SListItem[], lookup: Map<string, SListItem>): SListItem[] {
     return elements.map(element => {
-        element.children = replaceChildren(element.children, lookup);
-
-        const id = listId(element);
-        const map = lookup.get(id);
-
-        if (map) return map;
-        else return element;
+        const replaced = lookup.get(listId(element)) ?? element;
+        return Object.assign({}, replaced, { children: replaceChildren(replaced.children, lookup) });
     });
 }
 
@@ -97,6 +97,14 @@ export function escapeRegex(str: string) {
     return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
+/** Matches the individual words which make up the tokens of the full-text content index. */
+const TOKEN_REGEX = /[\p{Letter}\p{Number}_]+/gu;
+
+/** Split text into the distinct, lower-cased word tokens used by the full-text content index. */
+export function extractTokens(text: string): Set<string> {
+    return new Set(text.toLocaleLowerCase().match(TOKEN_REGEX) ?? []);
+}
+
 /** A parsimmon parser which canonicalizes variable names while properly respecting emoji. */
 const VAR_NAME_CANONICALIZER: P.Parser<string> = P.alt(
     P.regex(new RegExp(emojiRegex(), "")),